@@ -0,0 +1,153 @@
+import { Request, Response, NextFunction } from 'express'
+import jwt from 'jsonwebtoken'
+import { ApiKeyPermission } from '@invideo-studio/shared'
+import { SupabaseService } from '../services/supabase-service'
+import { ApiKeyService } from '../services/api-key-service'
+import { hasPermission, isApiKey } from '../services/api-key/keys'
+import { logger } from '../utils/logger'
+
+export type UserRole = 'user' | 'admin'
+
+export interface AuthUser {
+  id: string
+  email?: string
+  role: UserRole
+  // Set when the request was made with an API key rather than a session
+  apiKey?: {
+    id: string
+    workspaceId: string
+    permissions: ApiKeyPermission[]
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser
+    }
+  }
+}
+
+const supabase = new SupabaseService()
+const apiKeyService = new ApiKeyService()
+
+function unauthorized(res: Response, message: string) {
+  res.status(401).json({
+    error: 'Unauthorized',
+    message
+  })
+}
+
+// Roles are kept in Supabase's app_metadata, which only the service key can change
+function getRole(appMetadata?: { role?: unknown }): UserRole {
+  return appMetadata?.role === 'admin' ? 'admin' : 'user'
+}
+
+function getBearerToken(req: Request): string | undefined {
+  const [scheme, token] = (req.get('authorization') || '').split(' ')
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined
+}
+
+/**
+ * The user a Supabase session token belongs to, or null if it isn't valid.
+ * Verified locally when JWT_SECRET (the Supabase project's JWT secret) is
+ * set, otherwise by asking Supabase.
+ */
+async function verifySession(token: string): Promise<AuthUser | null> {
+  const secret = process.env.JWT_SECRET
+
+  if (secret) {
+    try {
+      const payload = jwt.verify(token, secret, { audience: 'authenticated' }) as jwt.JwtPayload
+      return payload.sub ? { id: payload.sub, email: payload.email, role: getRole(payload.app_metadata) } : null
+    } catch {
+      return null
+    }
+  }
+
+  const { data, error } = await supabase.client.auth.getUser(token)
+  if (error || !data.user) return null
+  return { id: data.user.id, email: data.user.email, role: getRole(data.user.app_metadata) }
+}
+
+/**
+ * Authenticate the request with a Supabase session (`Authorization: Bearer <jwt>`)
+ * or an API key (`x-api-key: ivs_...`, or as the bearer token) and set `req.user`
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const bearer = getBearerToken(req)
+  const key = req.get('x-api-key') || (bearer && isApiKey(bearer) ? bearer : undefined)
+
+  const authenticate = async () => {
+    if (key) {
+      const identity = await apiKeyService.authenticate(key)
+      if (!identity) return unauthorized(res, 'Invalid, revoked or expired API key')
+
+      // Keys never carry a role, whatever their owner's
+      req.user = {
+        id: identity.userId,
+        role: 'user',
+        apiKey: { id: identity.keyId, workspaceId: identity.workspaceId, permissions: identity.permissions }
+      }
+      return next()
+    }
+
+    if (!bearer) return unauthorized(res, 'Sign in or provide an API key')
+
+    const user = await verifySession(bearer)
+    if (!user) return unauthorized(res, 'Session is invalid or has expired')
+
+    req.user = user
+    next()
+  }
+
+  authenticate().catch(error => {
+    logger.error('Authentication failed:', error)
+    next(error)
+  })
+}
+
+/**
+ * Reject API keys that weren't given a permission. Signed-in users have every
+ * permission. Goes after `requireAuth`.
+ */
+export function requirePermission(permission: ApiKeyPermission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.user?.apiKey, permission)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `This API key does not have the ${permission} permission`
+      })
+    }
+    next()
+  }
+}
+
+/**
+ * Only allow signed-in users, for things an API key must not do to itself
+ * such as minting more keys. Goes after `requireAuth`.
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.apiKey) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'Sign in to do this; API keys cannot'
+    })
+  }
+  next()
+}
+
+/**
+ * Only allow signed-in users with a role. Goes after `requireAuth`.
+ */
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.user?.apiKey || req.user?.role !== role) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `Only users with the ${role} role can do this`
+      })
+    }
+    next()
+  }
+}
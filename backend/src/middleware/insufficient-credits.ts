@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express'
+import { InsufficientCreditsError } from '../services/usage-service'
+
+/**
+ * Answer operations the user has run out of credits for with 402 and what
+ * they would have cost. Other errors pass through to the app's error handler.
+ */
+export function handleInsufficientCredits(error: unknown, req: Request, res: Response, next: NextFunction) {
+  if (!(error instanceof InsufficientCreditsError)) return next(error)
+
+  res.status(402).json({
+    error: 'Insufficient Credits',
+    code: error.code,
+    message: error.message,
+    operation: error.operation,
+    required: error.required,
+    available: error.available,
+    timestamp: new Date().toISOString()
+  })
+}
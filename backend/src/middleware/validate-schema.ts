@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodTypeAny } from 'zod'
+
+/**
+ * Validate the request body against a zod schema from @invideo-studio/shared and
+ * replace it with the parsed value, so defaults are applied before the handler runs.
+ */
+export function validateSchema(schema: ZodTypeAny) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body)
+
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Request body does not match the expected schema',
+        details: result.error.issues.map(issue => ({
+          path: issue.path.join('.'),
+          message: issue.message
+        })),
+        timestamp: new Date().toISOString()
+      })
+    }
+
+    req.body = result.data
+    next()
+  }
+}
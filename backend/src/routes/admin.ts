@@ -0,0 +1,124 @@
+import { Router } from 'express'
+import { renderService } from '../services/instances'
+import { requireAuth, requireRole } from '../middleware/auth'
+import { asyncHandler } from '../utils/async-handler'
+import { ADMIN_JOB_STATES, ADMIN_QUEUES, AdminJobState, AdminQueue } from '@invideo-studio/shared'
+
+const router = Router()
+
+const MAX_PAGE_SIZE = 100
+
+// Every route here is for admins only
+router.use(requireAuth, requireRole('admin'))
+
+function parseQueue(value: unknown): AdminQueue | undefined {
+  const queue = value === undefined ? 'render' : value
+  return ADMIN_QUEUES.includes(queue as AdminQueue) ? queue as AdminQueue : undefined
+}
+
+// Job counts of the render and scene queues, worker throughput and render times by quality
+router.get('/render/overview',
+  asyncHandler(async (req, res) => {
+    const overview = await renderService.getQueueOverview()
+
+    res.json({
+      success: true,
+      data: overview
+    })
+  })
+)
+
+// A page of jobs in one state (?queue=render|scene, state, page, pageSize); failed jobs carry their stack traces
+router.get('/render/jobs',
+  asyncHandler(async (req, res) => {
+    const queue = parseQueue(req.query.queue)
+    const state = (req.query.state || 'failed') as AdminJobState
+
+    if (!queue || !ADMIN_JOB_STATES.includes(state)) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: `Queue must be one of ${ADMIN_QUEUES.join(', ')} and state one of ${ADMIN_JOB_STATES.join(', ')}`
+      })
+    }
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1)
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 20, 1), MAX_PAGE_SIZE)
+    const start = (page - 1) * pageSize
+    const { jobs, total } = await renderService.listJobs(queue, state, start, start + pageSize - 1)
+
+    res.json({
+      success: true,
+      data: { jobs, page, pageSize, total }
+    })
+  })
+)
+
+// One job of a queue (?queue=render|scene)
+router.get('/render/jobs/:id',
+  asyncHandler(async (req, res) => {
+    const queue = parseQueue(req.query.queue)
+    if (!queue) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: `Queue must be one of ${ADMIN_QUEUES.join(', ')}`
+      })
+    }
+
+    const job = await renderService.getJob(queue, req.params.id)
+
+    res.json({
+      success: true,
+      data: job
+    })
+  })
+)
+
+// Render a failed render again as a new job
+router.post('/render/jobs/:id/retry',
+  asyncHandler(async (req, res) => {
+    const jobId = await renderService.retryRender(req.params.id)
+
+    res.json({
+      success: true,
+      data: {
+        jobId,
+        retriedJobId: req.params.id,
+        message: 'Render job queued again'
+      }
+    })
+  })
+)
+
+// Run a job that is waiting out a retry backoff now (?queue=render|scene)
+router.post('/render/jobs/:id/promote',
+  asyncHandler(async (req, res) => {
+    const queue = parseQueue(req.query.queue)
+    if (!queue) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: `Queue must be one of ${ADMIN_QUEUES.join(', ')}`
+      })
+    }
+
+    await renderService.promoteJob(queue, req.params.id)
+
+    res.json({
+      success: true,
+      message: 'Job promoted'
+    })
+  })
+)
+
+// Remove renders that have not started (?delayed=true also removes those waiting to retry)
+router.post('/render/drain',
+  asyncHandler(async (req, res) => {
+    const drained = await renderService.drainRenderQueue(req.query.delayed === 'true')
+
+    res.json({
+      success: true,
+      data: { drained }
+    })
+  })
+)
+
+export { router as adminRoutes }
@@ -1,12 +1,21 @@
-import { Router } from 'express'
+import { Router, Request, Response, NextFunction } from 'express'
 import { AIService } from '../services/ai-service'
+import { PipelineService } from '../services/pipeline-service'
+import { renderService } from '../services/instances'
+import { UsageService } from '../services/usage-service'
+import { AIOutputError } from '../services/ai/structured-output'
 import { validateRequest } from '../middleware/validate-request'
-import { requireAuth } from '../middleware/auth'
+import { validateSchema } from '../middleware/validate-schema'
+import { requireAuth, requirePermission } from '../middleware/auth'
+import { handleInsufficientCredits } from '../middleware/insufficient-credits'
 import { asyncHandler } from '../utils/async-handler'
 import Joi from 'joi'
+import { storyboardImportSchema, storyboardToScenes } from '@invideo-studio/shared'
 
 const router = Router()
 const aiService = new AIService()
+const pipelineService = new PipelineService(renderService)
+const usageService = new UsageService()
 
 // Request validation schemas
 const scriptGenerationSchema = Joi.object({
@@ -39,9 +48,21 @@ const subtitleSchema = Joi.object({
   format: Joi.string().valid('srt', 'vtt', 'json').default('srt')
 })
 
+const pipelineSchema = scriptGenerationSchema.keys({
+  scenes: Joi.number().integer().min(1).max(20).default(5),
+  storyboardStyle: Joi.string().valid('cinematic', 'documentary', 'presentation', 'social').default('social'),
+  voice: Joi.string().valid('male', 'female', 'child', 'elderly').default('female'),
+  visualStyle: Joi.string().valid('realistic', 'illustration', 'abstract', 'minimal').default('realistic'),
+  mood: Joi.string().valid('professional', 'casual', 'energetic', 'calm', 'dramatic').default('energetic'),
+  aspectRatio: Joi.string().valid('16:9', '9:16', '1:1').default('9:16'),
+  captions: Joi.boolean().default(true),
+  render: Joi.boolean().default(false)
+})
+
 // Generate script from topic
-router.post('/script', 
+router.post('/script',
   requireAuth,
+  requirePermission('ai:use'),
   validateRequest(scriptGenerationSchema),
   asyncHandler(async (req, res) => {
     const { topic, style, duration, audience, tone, additionalContext } = req.body
@@ -74,6 +95,7 @@ router.post('/script',
 // Generate storyboard from script
 router.post('/storyboard',
   requireAuth,
+  requirePermission('ai:use'),
   validateRequest(storyboardSchema),
   asyncHandler(async (req, res) => {
     const { script, scenes, style, transitions } = req.body
@@ -101,9 +123,29 @@ router.post('/storyboard',
   })
 )
 
+// Convert a storyboard into editor scenes to append to a project
+router.post('/storyboard/import',
+  requireAuth,
+  requirePermission('ai:use'),
+  validateSchema(storyboardImportSchema),
+  asyncHandler(async (req, res) => {
+    const { storyboard, width, height } = req.body
+    const scenes = storyboardToScenes(storyboard, { width, height })
+
+    res.json({
+      success: true,
+      data: {
+        scenes,
+        duration: scenes.reduce((total, scene) => total + scene.duration, 0)
+      }
+    })
+  })
+)
+
 // Generate voice from text
 router.post('/voice',
   requireAuth,
+  requirePermission('ai:use'),
   validateRequest(voiceGenerationSchema),
   asyncHandler(async (req, res) => {
     const { text, voice, speed, pitch, emotion } = req.body
@@ -124,6 +166,7 @@ router.post('/voice',
         duration: audioResult.duration,
         format: audioResult.format,
         fileSize: audioResult.fileSize,
+        timing: audioResult.timing,
         metadata: {
           voice,
           speed,
@@ -139,6 +182,7 @@ router.post('/voice',
 // Generate subtitles from audio
 router.post('/subtitles',
   requireAuth,
+  requirePermission('ai:use'),
   validateRequest(subtitleSchema),
   asyncHandler(async (req, res) => {
     const { audioUrl, language, format } = req.body
@@ -156,6 +200,7 @@ router.post('/subtitles',
         subtitles: subtitles.content,
         format: subtitles.format,
         language: subtitles.language,
+        words: subtitles.words,
         metadata: {
           duration: subtitles.duration,
           segmentCount: subtitles.segments.length,
@@ -167,6 +212,53 @@ router.post('/subtitles',
   })
 )
 
+// Turn a topic into a complete project (script, storyboard, voice-over,
+// captions and visuals) as a background job, optionally rendering a draft
+router.post('/pipeline',
+  requireAuth,
+  requirePermission('ai:use'),
+  validateRequest(pipelineSchema),
+  asyncHandler(async (req, res) => {
+    const jobId = await pipelineService.queuePipeline(req.body, req.user.id)
+
+    res.json({
+      success: true,
+      data: {
+        jobId,
+        message: 'Script-to-video pipeline queued successfully'
+      }
+    })
+  })
+)
+
+// Get pipeline job status, including each step and the project once assembled
+router.get('/pipeline/:jobId',
+  requireAuth,
+  requirePermission('ai:use'),
+  asyncHandler(async (req, res) => {
+    const status = await pipelineService.getPipelineStatus(req.params.jobId, req.user.id)
+
+    res.json({
+      success: true,
+      data: status
+    })
+  })
+)
+
+// Resume a failed pipeline job from the step that failed
+router.post('/pipeline/:jobId/resume',
+  requireAuth,
+  requirePermission('ai:use'),
+  asyncHandler(async (req, res) => {
+    const status = await pipelineService.resumePipeline(req.params.jobId, req.user.id)
+
+    res.json({
+      success: true,
+      data: status
+    })
+  })
+)
+
 // Get AI service status
 router.get('/status', asyncHandler(async (req, res) => {
   const status = await aiService.getServiceStatus()
@@ -180,18 +272,21 @@ router.get('/status', asyncHandler(async (req, res) => {
   })
 }))
 
-// Get AI usage statistics for user
+// Get AI usage statistics for user (also served with the ledger under /api/usage)
 router.get('/usage',
   requireAuth,
+  requirePermission('usage:read'),
   asyncHandler(async (req, res) => {
-    const usage = await aiService.getUserUsage(req.user.id)
-    
+    const [balance, usage] = await Promise.all([
+      usageService.getBalance(req.user.id),
+      usageService.getUsage(req.user.id)
+    ])
+
     res.json({
       success: true,
       data: {
-        usage,
-        limits: await aiService.getUserLimits(req.user.id),
-        resetDate: await aiService.getUsageResetDate(req.user.id)
+        ...balance,
+        usage
       }
     })
   })
@@ -200,6 +295,7 @@ router.get('/usage',
 // Smart asset recommendations based on script/content
 router.post('/asset-recommendations',
   requireAuth,
+  requirePermission('ai:use'),
   validateRequest(Joi.object({
     content: Joi.string().required().min(10).max(1000),
     type: Joi.string().valid('video', 'image', 'audio').default('image'),
@@ -232,6 +328,7 @@ router.post('/asset-recommendations',
 // Generate thumbnail suggestions
 router.post('/thumbnails',
   requireAuth,
+  requirePermission('ai:use'),
   validateRequest(Joi.object({
     title: Joi.string().required().min(5).max(100),
     description: Joi.string().max(500).optional(),
@@ -263,4 +360,22 @@ router.post('/thumbnails',
   })
 )
 
+// The model kept returning output that did not match the expected JSON, even
+// after being asked to correct it
+router.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+  if (!(error instanceof AIOutputError)) return next(error)
+
+  res.status(502).json({
+    error: 'AI Output Error',
+    code: error.code,
+    message: error.message,
+    operation: error.operation,
+    attempts: error.attempts,
+    details: error.issues,
+    timestamp: new Date().toISOString()
+  })
+})
+
+router.use(handleInsufficientCredits)
+
 export { router as aiRoutes }
\ No newline at end of file
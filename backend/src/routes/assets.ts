@@ -0,0 +1,211 @@
+import express, { Router, Request, Response, NextFunction } from 'express'
+import multer from 'multer'
+import path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { AssetService, MAX_UPLOAD_SIZE, UPLOAD_CHUNK_SIZE } from '../services/asset-service'
+import { validateSchema } from '../middleware/validate-schema'
+import { requireAuth, requirePermission } from '../middleware/auth'
+import { asyncHandler } from '../utils/async-handler'
+import { assetTypeSchema, resumableUploadSchema } from '@invideo-studio/shared'
+
+const router = Router()
+const assetService = new AssetService()
+
+const MAX_PAGE_SIZE = 100
+
+// A file the upload rules turn away before it is written to disk
+class UploadRejectedError extends Error {}
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, callback) => {
+      assetService.getIncomingDir()
+        .then(dir => callback(null, dir))
+        .catch(error => callback(error, ''))
+    },
+    filename: (req, file, callback) => {
+      callback(null, `${uuidv4()}${path.extname(file.originalname).toLowerCase()}`)
+    }
+  }),
+  limits: {
+    fileSize: MAX_UPLOAD_SIZE,
+    files: 1
+  },
+  fileFilter: (req, file, callback) => {
+    const problem = assetService.validateUpload(file.originalname, file.mimetype)
+    if (problem) {
+      return callback(new UploadRejectedError(problem))
+    }
+    callback(null, true)
+  }
+})
+
+// Receive the multipart `file` field, answering upload problems with a 4xx
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE'
+      return res.status(tooLarge ? 413 : 400).json({
+        error: 'Upload Error',
+        message: tooLarge ? `Files can be at most ${Math.floor(MAX_UPLOAD_SIZE / 1024 / 1024)}MB` : error.message
+      })
+    }
+    if (error instanceof UploadRejectedError) {
+      return res.status(400).json({ error: 'Upload Error', message: error.message })
+    }
+    next(error)
+  })
+}
+
+// List the user's uploaded assets, newest first (?type=image|video|audio, search, page, pageSize)
+router.get('/',
+  requireAuth,
+  requirePermission('assets:read'),
+  asyncHandler(async (req, res) => {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1)
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 50, 1), MAX_PAGE_SIZE)
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : undefined
+
+    let type
+    if (req.query.type !== undefined) {
+      const parsed = assetTypeSchema.safeParse(req.query.type)
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Validation Error', message: 'Type must be image, video or audio' })
+      }
+      type = parsed.data
+    }
+
+    const result = await assetService.listAssets(req.user.id, { page, pageSize, type, search })
+
+    res.json({
+      success: true,
+      data: result
+    })
+  })
+)
+
+// Upload a whole file as multipart form data; it is ingested in the background
+router.post('/upload',
+  requireAuth,
+  requirePermission('assets:write'),
+  receiveFile,
+  asyncHandler(async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: 'Validation Error', message: 'Send the file in a "file" field' })
+    }
+
+    const asset = await assetService.createAsset(req.user.id, {
+      path: req.file.path,
+      name: req.file.originalname,
+      mimeType: req.file.mimetype,
+      size: req.file.size
+    })
+
+    res.status(202).json({
+      success: true,
+      data: asset
+    })
+  })
+)
+
+// Start a resumable upload
+router.post('/uploads',
+  requireAuth,
+  requirePermission('assets:write'),
+  validateSchema(resumableUploadSchema),
+  asyncHandler(async (req, res) => {
+    const { fileName, mimeType, size } = req.body
+    const problem = assetService.validateUpload(fileName, mimeType, size)
+    if (problem) {
+      return res.status(size > MAX_UPLOAD_SIZE ? 413 : 400).json({ error: 'Upload Error', message: problem })
+    }
+
+    const session = await assetService.startUpload(req.user.id, req.body)
+
+    res.status(201).json({
+      success: true,
+      data: session
+    })
+  })
+)
+
+// Which chunks of a resumable upload have arrived
+router.get('/uploads/:uploadId',
+  requireAuth,
+  requirePermission('assets:read'),
+  asyncHandler(async (req, res) => {
+    const session = await assetService.getUpload(req.params.uploadId, req.user.id)
+
+    res.json({
+      success: true,
+      data: session
+    })
+  })
+)
+
+// Send one chunk of a resumable upload as application/octet-stream
+router.put('/uploads/:uploadId/chunks/:index',
+  requireAuth,
+  requirePermission('assets:write'),
+  express.raw({ type: 'application/octet-stream', limit: UPLOAD_CHUNK_SIZE }),
+  asyncHandler(async (req, res) => {
+    const index = parseInt(req.params.index)
+    if (!(index >= 0) || !Buffer.isBuffer(req.body)) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Send the chunk as application/octet-stream to a non-negative chunk index'
+      })
+    }
+
+    const progress = await assetService.saveChunk(req.params.uploadId, req.user.id, index, req.body)
+
+    res.json({
+      success: true,
+      data: progress
+    })
+  })
+)
+
+// Finish a resumable upload once every chunk has arrived; it is ingested in the background
+router.post('/uploads/:uploadId/complete',
+  requireAuth,
+  requirePermission('assets:write'),
+  asyncHandler(async (req, res) => {
+    const asset = await assetService.completeUpload(req.params.uploadId, req.user.id)
+
+    res.status(202).json({
+      success: true,
+      data: asset
+    })
+  })
+)
+
+// Get an asset, including its ingestion status
+router.get('/:id',
+  requireAuth,
+  requirePermission('assets:read'),
+  asyncHandler(async (req, res) => {
+    const asset = await assetService.getAsset(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      data: asset
+    })
+  })
+)
+
+// Delete an asset and its stored files
+router.delete('/:id',
+  requireAuth,
+  requirePermission('assets:write'),
+  asyncHandler(async (req, res) => {
+    await assetService.deleteAsset(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      message: 'Asset deleted successfully'
+    })
+  })
+)
+
+export { router as assetRoutes }
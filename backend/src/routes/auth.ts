@@ -0,0 +1,94 @@
+import { Router } from 'express'
+import { ApiKeyService } from '../services/api-key-service'
+import { validateSchema } from '../middleware/validate-schema'
+import { requireAuth, requireSession } from '../middleware/auth'
+import { asyncHandler } from '../utils/async-handler'
+import { API_KEY_PERMISSIONS, apiKeyCreateSchema } from '@invideo-studio/shared'
+
+const router = Router()
+const apiKeyService = new ApiKeyService()
+
+// Who the request is authenticated as, and with what permissions
+router.get('/me',
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const { apiKey, ...user } = req.user
+
+    res.json({
+      success: true,
+      data: {
+        user,
+        method: apiKey ? 'api_key' : 'session',
+        workspaceId: apiKey?.workspaceId,
+        permissions: apiKey ? apiKey.permissions : API_KEY_PERMISSIONS
+      }
+    })
+  })
+)
+
+// Permissions an API key can be given
+router.get('/api-keys/permissions', (req, res) => {
+  res.json({
+    success: true,
+    data: { permissions: API_KEY_PERMISSIONS }
+  })
+})
+
+// API keys of the user's workspace, without their secrets
+router.get('/api-keys',
+  requireAuth,
+  requireSession,
+  asyncHandler(async (req, res) => {
+    const keys = await apiKeyService.listKeys(req.user.id)
+
+    res.json({
+      success: true,
+      data: { keys }
+    })
+  })
+)
+
+// Create an API key; its secret is only in this response
+router.post('/api-keys',
+  requireAuth,
+  requireSession,
+  validateSchema(apiKeyCreateSchema),
+  asyncHandler(async (req, res) => {
+    const key = await apiKeyService.createKey(req.user.id, req.body)
+
+    res.status(201).json({
+      success: true,
+      data: key
+    })
+  })
+)
+
+// Give an API key a new secret; the old one stops working
+router.post('/api-keys/:id/rotate',
+  requireAuth,
+  requireSession,
+  asyncHandler(async (req, res) => {
+    const key = await apiKeyService.rotateKey(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      data: key
+    })
+  })
+)
+
+// Revoke an API key
+router.delete('/api-keys/:id',
+  requireAuth,
+  requireSession,
+  asyncHandler(async (req, res) => {
+    await apiKeyService.revokeKey(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      message: 'API key revoked successfully'
+    })
+  })
+)
+
+export { router as authRoutes }
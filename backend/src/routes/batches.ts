@@ -0,0 +1,117 @@
+import { Router } from 'express'
+import { BatchService } from '../services/batch-service'
+import { renderService } from '../services/instances'
+import { formatManifestCsv } from '../services/batch/manifest'
+import { validateSchema } from '../middleware/validate-schema'
+import { requireAuth, requirePermission } from '../middleware/auth'
+import { handleInsufficientCredits } from '../middleware/insufficient-credits'
+import { asyncHandler } from '../utils/async-handler'
+import { batchRequestSchema } from '@invideo-studio/shared'
+
+const router = Router()
+const batchService = new BatchService(renderService)
+
+// Render one variant of a template or project per row of JSON or CSV data
+router.post('/',
+  requireAuth,
+  requirePermission('render:write'),
+  validateSchema(batchRequestSchema),
+  asyncHandler(async (req, res) => {
+    const source = await batchService.getSource(req.body, req.user.id)
+
+    const { voiceOver } = req.body
+    if (voiceOver && !source.variables.some(variable => variable.name === voiceOver.variable)) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: `Voice-over variable "${voiceOver.variable}" is not a variable of ${source.name}`
+      })
+    }
+
+    const batchId = await batchService.queueBatch(req.body, source, req.user.id)
+
+    res.json({
+      success: true,
+      data: {
+        batchId,
+        total: req.body.rows.length,
+        message: 'Batch queued successfully'
+      }
+    })
+  })
+)
+
+// Aggregate progress of a batch and the status of each row
+router.get('/:id',
+  requireAuth,
+  requirePermission('render:read'),
+  asyncHandler(async (req, res) => {
+    const progress = await batchService.getBatchProgress(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      data: progress
+    })
+  })
+)
+
+// Each row's outcome with the values it was given (?format=csv for a spreadsheet)
+router.get('/:id/manifest',
+  requireAuth,
+  requirePermission('render:read'),
+  asyncHandler(async (req, res) => {
+    const manifest = await batchService.getManifest(req.params.id, req.user.id)
+
+    if (req.query.format === 'csv') {
+      res.set({
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="batch-${req.params.id}.csv"`
+      })
+      return res.send(formatManifestCsv(manifest))
+    }
+
+    res.json({
+      success: true,
+      data: manifest
+    })
+  })
+)
+
+// ZIP of the batch's finished videos with its manifest
+router.get('/:id/download',
+  requireAuth,
+  requirePermission('render:read'),
+  asyncHandler(async (req, res) => {
+    // Looked up first so a missing batch is still an error response
+    await batchService.getBatchProgress(req.params.id, req.user.id)
+
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="batch-${req.params.id}.zip"`
+    })
+
+    try {
+      await batchService.writeArchive(req.params.id, req.user.id, res)
+    } catch (error) {
+      // Too late for an error response; a cut-off archive tells the client it failed
+      res.destroy(error)
+    }
+  })
+)
+
+// Cancel a batch: rows not yet rendered are dropped, finished videos are kept
+router.delete('/:id',
+  requireAuth,
+  requirePermission('render:write'),
+  asyncHandler(async (req, res) => {
+    const progress = await batchService.cancelBatch(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      data: progress
+    })
+  })
+)
+
+router.use(handleInsufficientCredits)
+
+export { router as batchRoutes }
@@ -0,0 +1,190 @@
+import { Router } from 'express'
+import { ProjectService } from '../services/project-service'
+import { validateRequest } from '../middleware/validate-request'
+import { validateSchema } from '../middleware/validate-schema'
+import { requireAuth, requirePermission } from '../middleware/auth'
+import { asyncHandler } from '../utils/async-handler'
+import Joi from 'joi'
+import { projectSaveSchema } from '@invideo-studio/shared'
+
+const router = Router()
+const projectService = new ProjectService()
+
+const MAX_PAGE_SIZE = 100
+
+function parseVersion(value: unknown): number | undefined {
+  const version = parseInt(value as string)
+  return version > 0 ? version : undefined
+}
+
+// List the user's projects, most recently edited first
+router.get('/',
+  requireAuth,
+  requirePermission('projects:read'),
+  asyncHandler(async (req, res) => {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1)
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 20, 1), MAX_PAGE_SIZE)
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : undefined
+
+    const result = await projectService.listProjects(req.user.id, { page, pageSize, search })
+
+    res.json({
+      success: true,
+      data: result
+    })
+  })
+)
+
+// Create a project; its first version is saved with it
+router.post('/',
+  requireAuth,
+  requirePermission('projects:write'),
+  validateSchema(projectSaveSchema),
+  asyncHandler(async (req, res) => {
+    const { project, message } = req.body
+    const created = await projectService.createProject(req.user.id, project, message)
+
+    res.status(201).json({
+      success: true,
+      data: created
+    })
+  })
+)
+
+// Get a project's latest version
+router.get('/:id',
+  requireAuth,
+  requirePermission('projects:read'),
+  asyncHandler(async (req, res) => {
+    const project = await projectService.getProject(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      data: project
+    })
+  })
+)
+
+// Save a project as its next version
+router.put('/:id',
+  requireAuth,
+  requirePermission('projects:write'),
+  validateSchema(projectSaveSchema),
+  asyncHandler(async (req, res) => {
+    const { project, message } = req.body
+    const saved = await projectService.updateProject(req.params.id, req.user.id, project, message)
+
+    res.json({
+      success: true,
+      data: saved
+    })
+  })
+)
+
+// Delete a project and its version history
+router.delete('/:id',
+  requireAuth,
+  requirePermission('projects:write'),
+  asyncHandler(async (req, res) => {
+    await projectService.deleteProject(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      message: 'Project deleted successfully'
+    })
+  })
+)
+
+// Copy a project into a new one
+router.post('/:id/duplicate',
+  requireAuth,
+  requirePermission('projects:write'),
+  validateRequest(Joi.object({
+    name: Joi.string().min(1).max(200).optional()
+  })),
+  asyncHandler(async (req, res) => {
+    const project = await projectService.duplicateProject(req.params.id, req.user.id, req.body.name)
+
+    res.status(201).json({
+      success: true,
+      data: project
+    })
+  })
+)
+
+// List a project's versions, newest first
+router.get('/:id/versions',
+  requireAuth,
+  requirePermission('projects:read'),
+  asyncHandler(async (req, res) => {
+    const versions = await projectService.listVersions(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      data: {
+        versions,
+        total: versions.length
+      }
+    })
+  })
+)
+
+// Get the project as it was at a version
+router.get('/:id/versions/:version',
+  requireAuth,
+  requirePermission('projects:read'),
+  asyncHandler(async (req, res) => {
+    const version = parseVersion(req.params.version)
+    if (!version) {
+      return res.status(400).json({ error: 'Validation Error', message: 'Version must be a positive integer' })
+    }
+
+    const project = await projectService.getVersion(req.params.id, req.user.id, version)
+
+    res.json({
+      success: true,
+      data: project
+    })
+  })
+)
+
+// Summarize what changed from a version to another (?to=, default the latest)
+router.get('/:id/versions/:version/diff',
+  requireAuth,
+  requirePermission('projects:read'),
+  asyncHandler(async (req, res) => {
+    const version = parseVersion(req.params.version)
+    const to = req.query.to === undefined ? undefined : parseVersion(req.query.to)
+    if (!version || (req.query.to !== undefined && !to)) {
+      return res.status(400).json({ error: 'Validation Error', message: 'Versions must be positive integers' })
+    }
+
+    const diff = await projectService.diffVersions(req.params.id, req.user.id, version, to)
+
+    res.json({
+      success: true,
+      data: diff
+    })
+  })
+)
+
+// Restore a version by saving it as the latest
+router.post('/:id/versions/:version/restore',
+  requireAuth,
+  requirePermission('projects:write'),
+  asyncHandler(async (req, res) => {
+    const version = parseVersion(req.params.version)
+    if (!version) {
+      return res.status(400).json({ error: 'Validation Error', message: 'Version must be a positive integer' })
+    }
+
+    const project = await projectService.restoreVersion(req.params.id, req.user.id, version)
+
+    res.json({
+      success: true,
+      data: project
+    })
+  })
+)
+
+export { router as projectRoutes }
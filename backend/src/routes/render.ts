@@ -1,60 +1,23 @@
 import { Router } from 'express'
-import { RenderService } from '../services/render-service'
+import { renderService } from '../services/instances'
 import { validateRequest } from '../middleware/validate-request'
-import { requireAuth } from '../middleware/auth'
+import { validateSchema } from '../middleware/validate-schema'
+import { requireAuth, requirePermission, requireRole } from '../middleware/auth'
+import { handleInsufficientCredits } from '../middleware/insufficient-credits'
 import { asyncHandler } from '../utils/async-handler'
 import Joi from 'joi'
+import { renderJobRequestSchema, RenderProgress, FINAL_RENDER_STAGES } from '@invideo-studio/shared'
 
 const router = Router()
-const renderService = new RenderService()
 
-// Validation schemas
-const renderJobSchema = Joi.object({
-  projectId: Joi.string().required(),
-  scenes: Joi.array().items(
-    Joi.object({
-      id: Joi.string().required(),
-      duration: Joi.number().positive().required(),
-      layers: Joi.array().items(
-        Joi.object({
-          id: Joi.string().required(),
-          type: Joi.string().valid('video', 'image', 'text', 'audio').required(),
-          startTime: Joi.number().min(0).required(),
-          duration: Joi.number().positive().required(),
-          x: Joi.number().default(0),
-          y: Joi.number().default(0),
-          width: Joi.number().positive().required(),
-          height: Joi.number().positive().required(),
-          content: Joi.string().optional(),
-          source: Joi.string().optional(),
-          style: Joi.object().optional(),
-          effects: Joi.array().optional()
-        })
-      ).required(),
-      transitions: Joi.array().items(
-        Joi.object({
-          type: Joi.string().valid('fade', 'cut', 'slide', 'zoom', 'wipe').required(),
-          duration: Joi.number().positive().required()
-        })
-      ).optional()
-    })
-  ).min(1).required(),
-  settings: Joi.object({
-    width: Joi.number().positive().default(1920),
-    height: Joi.number().positive().default(1080),
-    frameRate: Joi.number().positive().default(30),
-    bitrate: Joi.string().optional(),
-    audioSampleRate: Joi.number().positive().default(44100),
-    quality: Joi.string().valid('draft', 'standard', 'high', 'ultra').default('standard')
-  }).required(),
-  outputFormat: Joi.string().valid('mp4', 'mov', 'avi', 'webm').default('mp4'),
-  quality: Joi.string().valid('draft', 'standard', 'high', 'ultra').default('standard')
-})
+// Keeps proxies from closing idle event streams
+const SSE_HEARTBEAT_INTERVAL = 15000
 
 // Queue a new render job
 router.post('/queue',
   requireAuth,
-  validateRequest(renderJobSchema),
+  requirePermission('render:write'),
+  validateSchema(renderJobRequestSchema),
   asyncHandler(async (req, res) => {
     const renderJobData = {
       ...req.body,
@@ -68,7 +31,7 @@ router.post('/queue',
       data: {
         jobId,
         message: 'Render job queued successfully',
-        estimatedTime: `${Math.ceil(renderJobData.scenes.length * 2)} minutes`
+        estimatedSeconds: renderService.estimateRenderTime(renderJobData)
       }
     })
   })
@@ -77,9 +40,10 @@ router.post('/queue',
 // Get render job status
 router.get('/status/:jobId',
   requireAuth,
+  requirePermission('render:read'),
   asyncHandler(async (req, res) => {
     const { jobId } = req.params
-    const status = await renderService.getRenderStatus(jobId)
+    const status = await renderService.getRenderStatus(jobId, req.user.id)
 
     res.json({
       success: true,
@@ -88,12 +52,74 @@ router.get('/status/:jobId',
   })
 )
 
+// Stream render job progress as Server-Sent Events
+router.get('/events/:jobId',
+  requireAuth,
+  requirePermission('render:read'),
+  asyncHandler(async (req, res) => {
+    const { jobId } = req.params
+
+    // Listen before reading the current progress so a job finishing in
+    // between is not missed; events from then are held until it is sent
+    const pending: RenderProgress[] = []
+    let send = (progress: RenderProgress) => {
+      pending.push(progress)
+    }
+    const unsubscribe = renderService.subscribeToProgress(jobId, progress => send(progress))
+
+    let initial: RenderProgress
+    try {
+      initial = await renderService.getRenderProgress(jobId, req.user.id)
+    } catch (error) {
+      unsubscribe()
+      throw error
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps the compression middleware from buffering the stream
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    })
+    res.flushHeaders()
+
+    let closed = false
+    let lastSent = ''
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_INTERVAL)
+
+    const close = () => {
+      if (closed) return
+      closed = true
+      clearInterval(heartbeat)
+      unsubscribe()
+      res.end()
+    }
+
+    send = (progress: RenderProgress) => {
+      // The held events may repeat what the current progress already says
+      const data = JSON.stringify(progress)
+      if (closed || data === lastSent) return
+      lastSent = data
+
+      res.write(`event: progress\ndata: ${data}\n\n`)
+      if (FINAL_RENDER_STAGES.includes(progress.stage)) {
+        close()
+      }
+    }
+
+    req.on('close', close)
+    for (const progress of [initial, ...pending]) send(progress)
+  })
+)
+
 // Cancel render job
 router.delete('/cancel/:jobId',
   requireAuth,
+  requirePermission('render:write'),
   asyncHandler(async (req, res) => {
     const { jobId } = req.params
-    await renderService.cancelRender(jobId)
+    await renderService.cancelRender(jobId, req.user.id)
 
     res.json({
       success: true,
@@ -105,6 +131,7 @@ router.delete('/cancel/:jobId',
 // Get user's render jobs
 router.get('/jobs',
   requireAuth,
+  requirePermission('render:read'),
   asyncHandler(async (req, res) => {
     const jobs = await renderService.getUserRenderJobs(req.user.id)
 
@@ -118,11 +145,11 @@ router.get('/jobs',
   })
 )
 
-// Get render queue statistics (admin only)
+// Get render queue statistics (admin only; see also /api/admin/render/overview)
 router.get('/queue/stats',
   requireAuth,
+  requireRole('admin'),
   asyncHandler(async (req, res) => {
-    // TODO: Add admin check middleware
     const stats = await renderService.getQueueStats()
 
     res.json({
@@ -135,6 +162,7 @@ router.get('/queue/stats',
 // Generate video thumbnail
 router.post('/thumbnail',
   requireAuth,
+  requirePermission('render:write'),
   validateRequest(Joi.object({
     videoUrl: Joi.string().uri().required(),
     timestamp: Joi.number().min(0).default(1)
@@ -258,4 +286,6 @@ router.get('/presets', asyncHandler(async (req, res) => {
   })
 }))
 
+router.use(handleInsufficientCredits)
+
 export { router as renderRoutes }
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { Router } from 'express'
+import { StockService } from '../services/stock-service'
+import { requireAuth, requirePermission } from '../middleware/auth'
+import { asyncHandler } from '../utils/async-handler'
+import { stockSearchSchema } from '@invideo-studio/shared'
+
+const router = Router()
+const stockService = new StockService()
+
+// Search stock photos or videos across providers (?query, type, page, perPage, providers)
+router.get('/search',
+  requireAuth,
+  requirePermission('assets:read'),
+  asyncHandler(async (req, res) => {
+    const parsed = stockSearchSchema.safeParse(req.query)
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid search parameters',
+        details: parsed.error.issues.map(issue => ({
+          path: issue.path.join('.'),
+          message: issue.message
+        }))
+      })
+    }
+
+    if (!stockService.getProviders().length) {
+      return res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'Stock search is not configured'
+      })
+    }
+
+    const result = await stockService.search(parsed.data)
+
+    res.json({
+      success: true,
+      data: result
+    })
+  })
+)
+
+// Providers that can be searched
+router.get('/providers',
+  requireAuth,
+  requirePermission('assets:read'),
+  asyncHandler(async (req, res) => {
+    res.json({
+      success: true,
+      data: {
+        providers: stockService.getProviders()
+      }
+    })
+  })
+)
+
+export { router as stockRoutes }
@@ -0,0 +1,148 @@
+import { Router } from 'express'
+import { TemplateService } from '../services/template-service'
+import { validateSchema } from '../middleware/validate-schema'
+import { requireAuth, requirePermission } from '../middleware/auth'
+import { asyncHandler } from '../utils/async-handler'
+import {
+  templateCategorySchema,
+  templateInputSchema,
+  templateInstantiateSchema,
+  validateTemplateValues
+} from '@invideo-studio/shared'
+
+const router = Router()
+const templateService = new TemplateService()
+
+const MAX_PAGE_SIZE = 100
+
+// List templates the user can use, most recently updated first (?category, search, mine, page, pageSize)
+router.get('/',
+  requireAuth,
+  requirePermission('templates:read'),
+  asyncHandler(async (req, res) => {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1)
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 24, 1), MAX_PAGE_SIZE)
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : undefined
+    const mine = req.query.mine === 'true'
+
+    let category
+    if (req.query.category !== undefined) {
+      const parsed = templateCategorySchema.safeParse(req.query.category)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation Error',
+          message: `Category must be one of ${templateCategorySchema.options.join(', ')}`
+        })
+      }
+      category = parsed.data
+    }
+
+    const result = await templateService.listTemplates(req.user.id, { page, pageSize, category, search, mine })
+
+    res.json({
+      success: true,
+      data: result
+    })
+  })
+)
+
+// Template categories with how many templates each holds
+router.get('/categories',
+  requireAuth,
+  requirePermission('templates:read'),
+  asyncHandler(async (req, res) => {
+    const categories = await templateService.getCategories(req.user.id)
+
+    res.json({
+      success: true,
+      data: { categories }
+    })
+  })
+)
+
+// Save a project as a template of the user's
+router.post('/',
+  requireAuth,
+  requirePermission('templates:write'),
+  validateSchema(templateInputSchema),
+  asyncHandler(async (req, res) => {
+    const template = await templateService.createTemplate(req.user.id, req.body)
+
+    res.status(201).json({
+      success: true,
+      data: template
+    })
+  })
+)
+
+// Get a template with its project
+router.get('/:id',
+  requireAuth,
+  requirePermission('templates:read'),
+  asyncHandler(async (req, res) => {
+    const template = await templateService.getTemplate(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      data: template
+    })
+  })
+)
+
+// Replace one of the user's templates
+router.put('/:id',
+  requireAuth,
+  requirePermission('templates:write'),
+  validateSchema(templateInputSchema),
+  asyncHandler(async (req, res) => {
+    const template = await templateService.updateTemplate(req.params.id, req.user.id, req.body)
+
+    res.json({
+      success: true,
+      data: template
+    })
+  })
+)
+
+// Delete one of the user's templates; projects made from it are kept
+router.delete('/:id',
+  requireAuth,
+  requirePermission('templates:write'),
+  asyncHandler(async (req, res) => {
+    await templateService.deleteTemplate(req.params.id, req.user.id)
+
+    res.json({
+      success: true,
+      message: 'Template deleted successfully'
+    })
+  })
+)
+
+// Fill a template's variables in and save the result as a new project
+router.post('/:id/instantiate',
+  requireAuth,
+  requirePermission('projects:write'),
+  validateSchema(templateInstantiateSchema),
+  asyncHandler(async (req, res) => {
+    const { values, name } = req.body
+    const template = await templateService.getTemplate(req.params.id, req.user.id)
+
+    const issues = validateTemplateValues(template.variables, values)
+    if (issues.length) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Template values are invalid',
+        details: issues.map(issue => ({ path: `values.${issue.variable}`, message: issue.message }))
+      })
+    }
+
+    const project = await templateService.instantiate(template, req.user.id, values, name)
+
+    res.status(201).json({
+      success: true,
+      data: project
+    })
+  })
+)
+
+export { router as templateRoutes }
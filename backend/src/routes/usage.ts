@@ -0,0 +1,79 @@
+import { Router } from 'express'
+import { UsageService } from '../services/usage-service'
+import { METERED_OPERATIONS } from '../services/usage/pricing'
+import { validateRequest } from '../middleware/validate-request'
+import { requireAuth, requirePermission } from '../middleware/auth'
+import { asyncHandler } from '../utils/async-handler'
+import Joi from 'joi'
+
+const router = Router()
+const usageService = new UsageService()
+
+// Inputs an operation is priced on: the text sent to the model or voiced,
+// seconds of audio to transcribe, or seconds of video to render at a quality
+const estimateSchema = Joi.object({
+  operation: Joi.string().valid(...METERED_OPERATIONS).required(),
+  text: Joi.string().max(10000).allow('').optional(),
+  duration: Joi.number().min(0).max(3600).when('operation', {
+    is: Joi.valid('subtitle_generation', 'render'),
+    then: Joi.required(),
+    otherwise: Joi.optional()
+  }),
+  quality: Joi.string().valid('draft', 'standard', 'high', 'ultra').default('standard')
+})
+
+// Credit balance and usage for the current billing period
+router.get('/',
+  requireAuth,
+  requirePermission('usage:read'),
+  asyncHandler(async (req, res) => {
+    const [balance, usage] = await Promise.all([
+      usageService.getBalance(req.user.id),
+      usageService.getUsage(req.user.id)
+    ])
+
+    res.json({
+      success: true,
+      data: {
+        ...balance,
+        usage
+      }
+    })
+  })
+)
+
+// Most recent credit ledger entries
+router.get('/ledger',
+  requireAuth,
+  requirePermission('usage:read'),
+  asyncHandler(async (req, res) => {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200)
+    const entries = await usageService.getLedger(req.user.id, limit)
+
+    res.json({
+      success: true,
+      data: {
+        entries,
+        total: entries.length
+      }
+    })
+  })
+)
+
+// Pre-flight cost of an AI or render operation against the user's balance
+router.post('/estimate',
+  requireAuth,
+  requirePermission('usage:read'),
+  validateRequest(estimateSchema),
+  asyncHandler(async (req, res) => {
+    const { operation, text, duration, quality } = req.body
+    const estimate = await usageService.estimate(req.user.id, operation, { text, duration, quality })
+
+    res.json({
+      success: true,
+      data: estimate
+    })
+  })
+)
+
+export { router as usageRoutes }
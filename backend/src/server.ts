@@ -1,9 +1,11 @@
+// Load environment variables first: services read them when their modules load
+import 'dotenv/config'
+
 import express from 'express'
 import cors from 'cors'
 import helmet from 'helmet'
 import compression from 'compression'
 import morgan from 'morgan'
-import dotenv from 'dotenv'
 import { createServer } from 'http'
 
 // Import routes
@@ -13,8 +15,12 @@ import { projectRoutes } from './routes/projects'
 import { aiRoutes } from './routes/ai'
 import { renderRoutes } from './routes/render'
 import { assetRoutes } from './routes/assets'
+import { stockRoutes } from './routes/stock'
 import { templateRoutes } from './routes/templates'
+import { batchRoutes } from './routes/batches'
+import { adminRoutes } from './routes/admin'
 import { webhookRoutes } from './routes/webhooks'
+import { usageRoutes } from './routes/usage'
 
 // Import middleware
 import { errorHandler } from './middleware/error-handler'
@@ -22,9 +28,6 @@ import { rateLimiter } from './middleware/rate-limiter'
 import { validateEnv } from './utils/validate-env'
 import { logger } from './utils/logger'
 
-// Load environment variables
-dotenv.config()
-
 // Validate required environment variables
 validateEnv()
 
@@ -74,8 +77,12 @@ app.use('/api/projects', projectRoutes)
 app.use('/api/ai', aiRoutes)
 app.use('/api/render', renderRoutes)
 app.use('/api/assets', assetRoutes)
+app.use('/api/stock', stockRoutes)
 app.use('/api/templates', templateRoutes)
+app.use('/api/batches', batchRoutes)
+app.use('/api/admin', adminRoutes)
 app.use('/api/webhooks', webhookRoutes)
+app.use('/api/usage', usageRoutes)
 
 // API documentation
 app.get('/api', (req, res) => {
@@ -90,8 +97,12 @@ app.get('/api', (req, res) => {
       ai: '/api/ai',
       render: '/api/render',
       assets: '/api/assets',
+      stock: '/api/stock',
       templates: '/api/templates',
-      webhooks: '/api/webhooks'
+      batches: '/api/batches',
+      admin: '/api/admin',
+      webhooks: '/api/webhooks',
+      usage: '/api/usage'
     },
     documentation: '/api/docs'
   })
@@ -0,0 +1,100 @@
+import { storyboardOutputSchema } from '../ai/output-schemas'
+import { AIService } from '../ai-service'
+
+// Runs the service end to end against the offline mock provider; only
+// storage and the credit ledger are stubbed
+const mockUploadFile = jest.fn()
+const mockUsage = {
+  assertCredits: jest.fn(),
+  record: jest.fn(),
+  getUserTier: jest.fn()
+}
+
+jest.mock('../supabase-service', () => ({
+  SupabaseService: jest.fn().mockImplementation(() => ({ uploadFile: mockUploadFile }))
+}))
+
+jest.mock('../usage-service', () => ({
+  InsufficientCreditsError: class InsufficientCreditsError extends Error {},
+  UsageService: jest.fn().mockImplementation(() => mockUsage)
+}))
+
+describe('AIService with the mock provider', () => {
+  const env = process.env
+  let service: AIService
+
+  beforeAll(() => {
+    process.env = { ...env, AI_PROVIDER: 'mock' }
+    delete process.env.AI_TEXT_PROVIDER
+    delete process.env.AI_SPEECH_PROVIDER
+    delete process.env.AI_TRANSCRIPTION_PROVIDER
+    service = new AIService()
+  })
+
+  afterAll(() => {
+    process.env = env
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockUsage.getUserTier.mockResolvedValue('free')
+    mockUploadFile.mockResolvedValue('https://storage.example.com/audio/voice.wav')
+  })
+
+  it('generates a script and charges its tokens', async () => {
+    const script = await service.generateScript({
+      topic: 'Hooks that stop the scroll',
+      style: 'educational',
+      duration: 30,
+      audience: 'creators',
+      tone: 'upbeat',
+      userId: 'user-1'
+    })
+
+    expect(script.content).toContain('first three seconds')
+    expect(script.wordCount).toBeGreaterThan(0)
+    expect(script.estimatedDuration).toBeGreaterThan(0)
+    expect(mockUsage.record).toHaveBeenCalledWith('user-1', 'script_generation', expect.objectContaining({
+      quantity: expect.any(Number)
+    }))
+  })
+
+  it('generates the same schema-valid storyboard every time', async () => {
+    const options = {
+      script: 'Did you know most people decide in three seconds?',
+      targetScenes: 3,
+      style: 'educational',
+      includeTransitions: true,
+      userId: 'user-1'
+    }
+
+    const storyboard = await service.generateStoryboard(options)
+
+    expect(storyboardOutputSchema.safeParse(storyboard).success).toBe(true)
+    expect(storyboard.scenes.map(scene => scene.title)).toEqual(['The Hook', 'The Tip', 'Call to Action'])
+    expect(storyboard.transitions).toHaveLength(2)
+    expect(await service.generateStoryboard(options)).toEqual(storyboard)
+  })
+
+  it('generates a voice-over timed to its words', async () => {
+    const text = 'Open with a question your audience asks'
+    const voice = await service.generateVoice({
+      text,
+      voice: 'female',
+      speed: 1,
+      pitch: 1,
+      emotion: 'neutral',
+      userId: 'user-1'
+    })
+
+    expect(mockUploadFile).toHaveBeenCalledWith('audio', expect.stringMatching(/\.wav$/), expect.any(Buffer), 'audio/wav')
+    expect(voice.url).toBe('https://storage.example.com/audio/voice.wav')
+    expect(voice.format).toBe('wav')
+    // Seven words at the mock voice's 150 words per minute
+    expect(voice.duration).toBeCloseTo(2.8, 1)
+    expect(voice.timing).toBeDefined()
+    expect(mockUsage.record).toHaveBeenCalledWith('user-1', 'voice_generation', expect.objectContaining({
+      quantity: text.length
+    }))
+  })
+})
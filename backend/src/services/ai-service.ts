@@ -1,7 +1,21 @@
-import OpenAI from 'openai'
-import axios from 'axios'
 import { SupabaseService } from './supabase-service'
+import { InsufficientCreditsError, UsageService } from './usage-service'
+import { MAX_OUTPUT_TOKENS } from './usage/pricing'
 import { logger } from '../utils/logger'
+import { AIOutputError, generateStructuredOutput } from './ai/structured-output'
+import { AICapability, AIProviders, CharacterTiming, getAIProviders, validateAIProviders } from './ai/providers'
+import {
+  WORDS_PER_MINUTE,
+  estimateSpeechDuration,
+  getNarrationTiming,
+  probeAudioDuration,
+  probeMediaDuration
+} from './ai/narration-timing'
+import {
+  assetRecommendationsOutputSchema,
+  storyboardOutputSchema,
+  thumbnailSuggestionsOutputSchema
+} from './ai/output-schemas'
 
 interface ScriptGenerationOptions {
   topic: string
@@ -37,25 +51,25 @@ interface SubtitleGenerationOptions {
   userId: string
 }
 
+const SUBSCRIPTION_TIERS = ['free', 'pro', 'enterprise']
+
 export class AIService {
-  private openai: OpenAI
   private supabase: SupabaseService
-  private elevenlabsApiKey: string
+  private usage: UsageService
 
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
     this.supabase = new SupabaseService()
-    this.elevenlabsApiKey = process.env.ELEVENLABS_API_KEY || ''
+    this.usage = new UsageService()
+    validateAIProviders(SUBSCRIPTION_TIERS)
   }
 
   async generateScript(options: ScriptGenerationOptions) {
     const { topic, style, duration, audience, tone, additionalContext, userId } = options
 
     try {
-      // Check user limits
-      await this.checkUserLimits(userId, 'script_generation')
+      await this.usage.assertCredits(userId, 'script_generation', {
+        text: [topic, additionalContext].filter(Boolean).join('\n')
+      })
 
       const prompt = this.buildScriptPrompt({
         topic,
@@ -66,8 +80,9 @@ export class AIService {
         additionalContext
       })
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { text } = await this.getProviders(userId)
+      const completion = await text.generate({
+        operation: 'script',
         messages: [
           {
             role: 'system',
@@ -79,20 +94,18 @@ export class AIService {
             content: prompt
           }
         ],
-        max_tokens: 2000,
+        maxTokens: MAX_OUTPUT_TOKENS.script_generation,
         temperature: 0.7
       })
 
-      const scriptContent = completion.choices[0]?.message?.content || ''
+      const scriptContent = completion.content
       
       // Analyze the generated script
       const analysis = await this.analyzeScript(scriptContent)
       
-      // Track usage
-      await this.trackUsage(userId, 'script_generation', {
-        topic,
-        wordCount: analysis.wordCount,
-        tokensUsed: completion.usage?.total_tokens || 0
+      await this.usage.record(userId, 'script_generation', {
+        quantity: completion.tokensUsed,
+        metadata: { topic, wordCount: analysis.wordCount }
       })
 
       return {
@@ -104,6 +117,7 @@ export class AIService {
       }
     } catch (error) {
       logger.error('Script generation failed:', error)
+      if (error instanceof InsufficientCreditsError) throw error
       throw new Error('Failed to generate script')
     }
   }
@@ -112,7 +126,7 @@ export class AIService {
     const { script, targetScenes, style, includeTransitions, userId } = options
 
     try {
-      await this.checkUserLimits(userId, 'storyboard_generation')
+      await this.usage.assertCredits(userId, 'storyboard_generation', { text: script })
 
       const prompt = `
         Create a detailed storyboard for the following script, breaking it into ${targetScenes} scenes.
@@ -152,38 +166,37 @@ export class AIService {
         }
       `
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { text } = await this.getProviders(userId)
+      const { data: storyboard, tokensUsed } = await generateStructuredOutput(text, {
+        operation: 'storyboard',
+        schema: storyboardOutputSchema,
         messages: [
           {
             role: 'system',
-            content: 'You are a professional storyboard artist and video director. Create detailed, actionable storyboards.'
+            content: 'You are a professional storyboard artist and video director. Create detailed, actionable storyboards. Respond with JSON only.'
           },
           {
             role: 'user',
             content: prompt
           }
         ],
-        max_tokens: 3000,
+        maxTokens: MAX_OUTPUT_TOKENS.storyboard_generation,
         temperature: 0.5
       })
 
-      const storyboardJson = completion.choices[0]?.message?.content || '{}'
-      const storyboard = JSON.parse(storyboardJson)
-
-      // Add transitions if requested
-      if (includeTransitions) {
-        storyboard.transitions = this.generateTransitions(storyboard.scenes)
-      }
-
-      await this.trackUsage(userId, 'storyboard_generation', {
-        sceneCount: storyboard.scenes?.length || 0,
-        tokensUsed: completion.usage?.total_tokens || 0
+      await this.usage.record(userId, 'storyboard_generation', {
+        quantity: tokensUsed,
+        metadata: { sceneCount: storyboard.scenes.length }
       })
 
-      return storyboard
+      return {
+        ...storyboard,
+        // Add transitions if requested
+        transitions: includeTransitions ? this.generateTransitions(storyboard.scenes) : undefined
+      }
     } catch (error) {
       logger.error('Storyboard generation failed:', error)
+      if (error instanceof AIOutputError || error instanceof InsufficientCreditsError) throw error
       throw new Error('Failed to generate storyboard')
     }
   }
@@ -192,71 +205,38 @@ export class AIService {
     const { text, voice, speed, pitch, emotion, userId } = options
 
     try {
-      await this.checkUserLimits(userId, 'voice_generation')
+      await this.usage.assertCredits(userId, 'voice_generation', { text })
 
-      if (!this.elevenlabsApiKey) {
-        throw new Error('ElevenLabs API key not configured')
-      }
-
-      // Map voice options to ElevenLabs voice IDs
-      const voiceMap = {
-        'male': 'pNInz6obpgDQGcFmaJgB', // Adam
-        'female': 'EXAVITQu4vr4xnSDxMaL', // Bella
-        'child': 'yoZ06aMxZJJ28mfd3POQ', // Sam
-        'elderly': 'pqHfZKP75CvOlQylNhV4' // Bill
-      }
-
-      const voiceId = voiceMap[voice as keyof typeof voiceMap] || voiceMap.female
-
-      const response = await axios.post(
-        `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`,
-        {
-          text,
-          model_id: 'eleven_monolingual_v1',
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.75,
-            style: emotion === 'neutral' ? 0 : 0.5,
-            use_speaker_boost: true
-          }
-        },
-        {
-          headers: {
-            'Accept': 'audio/mpeg',
-            'Content-Type': 'application/json',
-            'xi-api-key': this.elevenlabsApiKey
-          },
-          responseType: 'arraybuffer'
-        }
-      )
+      const { speech } = await this.getProviders(userId)
+      const audio = await speech.synthesize({ text, voice, speed, pitch, emotion })
 
       // Upload audio to Supabase Storage
-      const fileName = `voice_${userId}_${Date.now()}.mp3`
+      const fileName = `voice_${userId}_${Date.now()}.${audio.format}`
       const audioUrl = await this.supabase.uploadFile(
         'audio',
         fileName,
-        Buffer.from(response.data),
-        'audio/mpeg'
+        audio.audio,
+        audio.contentType
       )
 
-      // Estimate duration (rough calculation: ~150 words per minute)
-      const wordCount = text.split(' ').length
-      const estimatedDuration = Math.ceil((wordCount / 150) * 60)
+      const duration = await this.getAudioDuration(audio.audio, audio.format, audio.alignment, text)
+      const timing = getNarrationTiming(text, duration, audio.alignment)
 
-      await this.trackUsage(userId, 'voice_generation', {
-        characterCount: text.length,
-        voice,
-        duration: estimatedDuration
+      await this.usage.record(userId, 'voice_generation', {
+        quantity: text.length,
+        metadata: { voice, duration }
       })
 
       return {
         url: audioUrl,
-        duration: estimatedDuration,
-        format: 'mp3',
-        fileSize: response.data.byteLength
+        duration,
+        format: audio.format,
+        fileSize: audio.audio.byteLength,
+        timing
       }
     } catch (error) {
       logger.error('Voice generation failed:', error)
+      if (error instanceof InsufficientCreditsError) throw error
       throw new Error('Failed to generate voice')
     }
   }
@@ -265,40 +245,35 @@ export class AIService {
     const { audioUrl, language, format, userId } = options
 
     try {
-      await this.checkUserLimits(userId, 'subtitle_generation')
-
-      // Download audio file
-      const audioResponse = await axios.get(audioUrl, { responseType: 'stream' })
-      
-      // Create transcription using Whisper
-      const transcription = await this.openai.audio.transcriptions.create({
-        file: audioResponse.data,
-        model: 'whisper-1',
-        language,
-        response_format: 'verbose_json',
-        timestamp_granularities: ['segment']
+      // Charged by the length of the audio, so find that out first
+      const audioDuration = await probeMediaDuration(audioUrl).catch(error => {
+        logger.warn(`Could not probe ${audioUrl} before transcribing it:`, error)
+        return 0
       })
+      await this.usage.assertCredits(userId, 'subtitle_generation', { duration: audioDuration })
+
+      const { transcription: transcriber } = await this.getProviders(userId)
+      const transcription = await transcriber.transcribe({ audioUrl, language })
 
       // Format subtitles based on requested format
       let formattedSubtitles: string
       switch (format) {
         case 'srt':
-          formattedSubtitles = this.formatAsSRT(transcription.segments || [])
+          formattedSubtitles = this.formatAsSRT(transcription.segments)
           break
         case 'vtt':
-          formattedSubtitles = this.formatAsVTT(transcription.segments || [])
+          formattedSubtitles = this.formatAsVTT(transcription.segments)
           break
         case 'json':
           formattedSubtitles = JSON.stringify(transcription.segments, null, 2)
           break
         default:
-          formattedSubtitles = this.formatAsSRT(transcription.segments || [])
+          formattedSubtitles = this.formatAsSRT(transcription.segments)
       }
 
-      await this.trackUsage(userId, 'subtitle_generation', {
-        duration: transcription.duration,
-        language,
-        segmentCount: transcription.segments?.length || 0
+      await this.usage.record(userId, 'subtitle_generation', {
+        quantity: transcription.duration || audioDuration,
+        metadata: { language, segmentCount: transcription.segments.length }
       })
 
       return {
@@ -306,80 +281,39 @@ export class AIService {
         format,
         language,
         duration: transcription.duration,
-        segments: transcription.segments || [],
-        averageConfidence: this.calculateAverageConfidence(transcription.segments || []),
+        segments: transcription.segments,
+        words: transcription.words,
+        averageConfidence: this.calculateAverageConfidence(transcription.segments),
         detectedLanguage: transcription.language
       }
     } catch (error) {
       logger.error('Subtitle generation failed:', error)
+      if (error instanceof InsufficientCreditsError) throw error
       throw new Error('Failed to generate subtitles')
     }
   }
 
   async getServiceStatus() {
-    const status = {
-      openai: false,
-      elevenlabs: false,
-      timestamp: new Date().toISOString()
-    }
+    const providers = getAIProviders()
+    const capabilities: AICapability[] = ['text', 'speech', 'transcription']
 
-    try {
-      // Test OpenAI
-      await this.openai.models.list()
-      status.openai = true
-    } catch (error) {
-      logger.warn('OpenAI service check failed:', error)
-    }
+    const checks = await Promise.all(capabilities.map(async capability => {
+      const provider = providers[capability]
+      let available = false
 
-    try {
-      // Test ElevenLabs
-      if (this.elevenlabsApiKey) {
-        await axios.get('https://api.elevenlabs.io/v1/voices', {
-          headers: { 'xi-api-key': this.elevenlabsApiKey }
-        })
-        status.elevenlabs = true
+      try {
+        available = await provider.checkStatus()
+      } catch (error) {
+        logger.warn(`${provider.name} ${capability} service check failed:`, error)
       }
-    } catch (error) {
-      logger.warn('ElevenLabs service check failed:', error)
-    }
 
-    return status
-  }
+      return [capability, { provider: provider.name, available }] as const
+    }))
 
-  async getUserUsage(userId: string) {
-    // Get usage from database
-    const { data, error } = await this.supabase.client
-      .from('ai_usage')
-      .select('*')
-      .eq('user_id', userId)
-      .gte('created_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()) // Last 30 days
-
-    if (error) {
-      logger.error('Failed to get user usage:', error)
-      return {}
+    return {
+      ...Object.fromEntries(checks),
+      timestamp: new Date().toISOString()
     }
-
-    return this.aggregateUsage(data || [])
-  }
-
-  async getUserLimits(userId: string) {
-    // Get user subscription tier to determine limits
-    const { data: user } = await this.supabase.client
-      .from('users')
-      .select('subscription_tier')
-      .eq('id', userId)
-      .single()
-
-    const tier = user?.subscription_tier || 'free'
-    
-    return this.getLimitsByTier(tier)
-  }
-
-  async getUsageResetDate(userId: string) {
-    // For monthly limits, reset on the 1st of each month
-    const now = new Date()
-    const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1)
-    return nextMonth.toISOString()
   }
 
   async getAssetRecommendations(options: {
@@ -390,6 +324,8 @@ export class AIService {
     userId: string
   }) {
     try {
+      await this.usage.assertCredits(options.userId, 'asset_recommendation', { text: options.content })
+
       const prompt = `
         Based on this content: "${options.content}"
         
@@ -413,28 +349,30 @@ export class AIService {
         }
       `
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { text } = await this.getProviders(options.userId)
+      const { data, tokensUsed } = await generateStructuredOutput(text, {
+        operation: 'asset recommendation',
+        schema: assetRecommendationsOutputSchema,
         messages: [
           {
             role: 'system',
-            content: 'You are an expert in visual content curation and asset selection for video production.'
+            content: 'You are an expert in visual content curation and asset selection for video production. Respond with JSON only.'
           },
           {
             role: 'user',
             content: prompt
           }
         ],
-        max_tokens: 1000,
+        maxTokens: MAX_OUTPUT_TOKENS.asset_recommendation,
         temperature: 0.7
       })
 
-      const result = JSON.parse(completion.choices[0]?.message?.content || '{}')
-      result.confidence = 0.85 // Mock confidence score
+      await this.usage.record(options.userId, 'asset_recommendation', { quantity: tokensUsed })
 
-      return result
+      return { ...data, confidence: 0.85 } // Mock confidence score
     } catch (error) {
       logger.error('Asset recommendation failed:', error)
+      if (error instanceof AIOutputError || error instanceof InsufficientCreditsError) throw error
       throw new Error('Failed to get asset recommendations')
     }
   }
@@ -448,6 +386,10 @@ export class AIService {
     userId: string
   }) {
     try {
+      await this.usage.assertCredits(options.userId, 'thumbnail_suggestion', {
+        text: [options.title, options.description].filter(Boolean).join('\n')
+      })
+
       const prompt = `
         Create thumbnail design suggestions for a video with:
         Title: "${options.title}"
@@ -479,31 +421,61 @@ export class AIService {
         }
       `
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { text } = await this.getProviders(options.userId)
+      const { data, tokensUsed } = await generateStructuredOutput(text, {
+        operation: 'thumbnail suggestion',
+        schema: thumbnailSuggestionsOutputSchema,
         messages: [
           {
             role: 'system',
-            content: 'You are a professional graphic designer specializing in video thumbnails and visual marketing.'
+            content: 'You are a professional graphic designer specializing in video thumbnails and visual marketing. Respond with JSON only.'
           },
           {
             role: 'user',
             content: prompt
           }
         ],
-        max_tokens: 1500,
+        maxTokens: MAX_OUTPUT_TOKENS.thumbnail_suggestion,
         temperature: 0.8
       })
 
-      return JSON.parse(completion.choices[0]?.message?.content || '{}')
+      await this.usage.record(options.userId, 'thumbnail_suggestion', { quantity: tokensUsed })
+
+      return data
     } catch (error) {
       logger.error('Thumbnail suggestion failed:', error)
+      if (error instanceof AIOutputError || error instanceof InsufficientCreditsError) throw error
       throw new Error('Failed to generate thumbnail suggestions')
     }
   }
 
   // Private helper methods
 
+  /**
+   * Measured length of generated speech. Falls back to the provider's timings,
+   * then to the narration pace, if the file can't be probed.
+   */
+  private async getAudioDuration(
+    audio: Buffer,
+    format: string,
+    alignment: CharacterTiming[] | undefined,
+    text: string
+  ): Promise<number> {
+    try {
+      return await probeAudioDuration(audio, format)
+    } catch (error) {
+      logger.warn('Could not probe generated speech, estimating its duration:', error)
+      return alignment?.length
+        ? Math.max(...alignment.map(character => character.end))
+        : estimateSpeechDuration(text)
+    }
+  }
+
+  // Providers can differ by subscription tier, e.g. a cheaper model for free users
+  private async getProviders(userId: string): Promise<AIProviders> {
+    return getAIProviders(await this.usage.getUserTier(userId))
+  }
+
   private buildScriptPrompt(options: {
     topic: string
     style: string
@@ -527,7 +499,7 @@ export class AIService {
       2. Be engaging and well-paced for video content
       3. Include natural speech patterns and pauses
       4. End with a clear call-to-action
-      5. Be approximately ${Math.floor(options.duration / 4)} words (250 words per minute speaking rate)
+      5. Be approximately ${Math.round((options.duration / 60) * WORDS_PER_MINUTE)} words (${WORDS_PER_MINUTE} words per minute speaking rate)
       
       Format the script with clear dialogue and brief stage directions in parentheses.
     `
@@ -536,7 +508,7 @@ export class AIService {
   private async analyzeScript(script: string) {
     const words = script.split(/\s+/).filter(word => word.length > 0)
     const wordCount = words.length
-    const estimatedDuration = Math.ceil((wordCount / 250) * 60) // 250 words per minute
+    const estimatedDuration = Math.ceil(estimateSpeechDuration(script))
     
     // Extract potential scene markers
     const suggestedScenes = this.extractSceneMarkers(script)
@@ -629,63 +601,4 @@ export class AIService {
     
     return totalConfidence / segments.length
   }
-
-  private async checkUserLimits(userId: string, operation: string) {
-    const usage = await this.getUserUsage(userId)
-    const limits = await this.getUserLimits(userId)
-    
-    const currentUsage = usage[operation] || 0
-    const limit = limits[operation] || 0
-    
-    if (currentUsage >= limit) {
-      throw new Error(`Usage limit exceeded for ${operation}. Upgrade your plan for higher limits.`)
-    }
-  }
-
-  private async trackUsage(userId: string, operation: string, metadata: any) {
-    await this.supabase.client
-      .from('ai_usage')
-      .insert({
-        user_id: userId,
-        operation,
-        metadata,
-        created_at: new Date().toISOString()
-      })
-  }
-
-  private aggregateUsage(usageData: any[]) {
-    const aggregated: { [key: string]: number } = {}
-    
-    usageData.forEach(record => {
-      const operation = record.operation
-      aggregated[operation] = (aggregated[operation] || 0) + 1
-    })
-    
-    return aggregated
-  }
-
-  private getLimitsByTier(tier: string) {
-    const limits = {
-      free: {
-        script_generation: 5,
-        storyboard_generation: 3,
-        voice_generation: 10,
-        subtitle_generation: 5
-      },
-      pro: {
-        script_generation: 50,
-        storyboard_generation: 30,
-        voice_generation: 100,
-        subtitle_generation: 50
-      },
-      enterprise: {
-        script_generation: 500,
-        storyboard_generation: 300,
-        voice_generation: 1000,
-        subtitle_generation: 500
-      }
-    }
-    
-    return limits[tier as keyof typeof limits] || limits.free
-  }
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import ffmpeg from 'fluent-ffmpeg'
+import { CharacterTiming } from './providers'
+
+// Narration pace the scripts are written for and durations are estimated at
+export const WORDS_PER_MINUTE = 150
+
+export interface TimedText {
+  text: string
+  start: number // Seconds from the start of the audio
+  end: number
+}
+
+export interface NarrationTiming {
+  // 'aligned' when the speech provider reported when each character is
+  // spoken, 'estimated' when the text was spread evenly over the audio
+  source: 'aligned' | 'estimated'
+  sentences: TimedText[]
+  words: TimedText[]
+}
+
+export function estimateSpeechDuration(text: string): number {
+  const wordCount = text.split(/\s+/).filter(Boolean).length
+  return (wordCount / WORDS_PER_MINUTE) * 60
+}
+
+/**
+ * Length in seconds of a media file or URL
+ */
+export function probeMediaDuration(source: string): Promise<number> {
+  return new Promise<number>((resolve, reject) => {
+    ffmpeg.ffprobe(source, (err, metadata) => {
+      const duration = Number(metadata?.format?.duration)
+      if (err || !(duration > 0)) {
+        reject(err || new Error('Media has no duration'))
+      } else {
+        resolve(duration)
+      }
+    })
+  })
+}
+
+/**
+ * Length in seconds of generated audio, read from the file itself
+ */
+export async function probeAudioDuration(audio: Buffer, format: string): Promise<number> {
+  const file = path.join(os.tmpdir(), `probe_${Date.now()}_${Math.random().toString(36).slice(2, 11)}.${format}`)
+  await fs.writeFile(file, audio)
+
+  try {
+    return await probeMediaDuration(file)
+  } finally {
+    await fs.rm(file, { force: true })
+  }
+}
+
+/**
+ * Spans of `text` matching `pattern`, with their character offsets
+ */
+function findSpans(text: string, pattern: RegExp): { text: string, from: number, to: number }[] {
+  return Array.from(text.matchAll(pattern))
+    .map(match => {
+      const leading = match[0].length - match[0].trimStart().length
+      const span = match[0].trim()
+      const from = match.index! + leading
+      return { text: span, from, to: from + span.length - 1 }
+    })
+    .filter(span => span.text)
+}
+
+/**
+ * When each sentence and word of the narration is spoken. Uses the provider's
+ * per-character timings when they line up with the text, otherwise spreads
+ * the characters evenly over the audio.
+ */
+export function getNarrationTiming(text: string, duration: number, characters?: CharacterTiming[]): NarrationTiming {
+  const aligned = Boolean(characters?.length) && characters!.length === text.length
+  const timings: CharacterTiming[] = aligned
+    ? characters!
+    : Array.from(text, (_, index) => ({
+      start: (index / text.length) * duration,
+      end: ((index + 1) / text.length) * duration
+    }))
+
+  const toTimedText = (span: { text: string, from: number, to: number }): TimedText => ({
+    text: span.text,
+    start: Math.min(timings[span.from].start, duration),
+    end: Math.min(Math.max(timings[span.to].end, timings[span.from].start), duration)
+  })
+
+  return {
+    source: aligned ? 'aligned' : 'estimated',
+    sentences: findSpans(text, /[^.!?]+(?:[.!?]+["')\]]*|$)/g).map(toTimedText),
+    words: findSpans(text, /\S+/g).map(toTimedText)
+  }
+}
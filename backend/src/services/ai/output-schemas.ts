@@ -0,0 +1,52 @@
+import { z } from 'zod'
+
+// Shapes the prompts ask the model for. Responses are checked against these
+// before anything else reads them.
+
+export const storyboardOutputSchema = z.object({
+  scenes: z.array(z.object({
+    number: z.number().int().positive().optional(),
+    title: z.string().min(1),
+    duration: z.number().positive(), // Seconds
+    visualDescription: z.string().min(1),
+    cameraAngle: z.string().optional(),
+    dialogue: z.string(),
+    background: z.string().optional(),
+    props: z.array(z.string()).optional(),
+    transition: z.string().optional()
+  })).min(1),
+  totalDuration: z.number().positive().optional(),
+  visualSuggestions: z.array(z.string()).default([])
+})
+
+export const assetRecommendationsOutputSchema = z.object({
+  searchTerms: z.array(z.string().min(1)).min(1),
+  assets: z.array(z.object({
+    description: z.string().min(1),
+    keywords: z.array(z.string()).default([]),
+    style: z.string().optional(),
+    mood: z.string().optional()
+  })).default([]),
+  alternatives: z.array(z.string()).default([])
+})
+
+export const thumbnailSuggestionsOutputSchema = z.object({
+  designs: z.array(z.object({
+    layout: z.string().min(1),
+    textPlacement: z.string(),
+    visualElements: z.array(z.string()).default([]),
+    colorScheme: z.array(z.string()).default([]),
+    typography: z.string()
+  })).min(1),
+  templates: z.array(z.string()).default([]),
+  colorPalettes: z.array(z.object({
+    name: z.string(),
+    colors: z.array(z.string()).min(1),
+    mood: z.string().optional()
+  })).default([]),
+  textVariations: z.array(z.string()).default([])
+})
+
+export type StoryboardOutput = z.infer<typeof storyboardOutputSchema>
+export type AssetRecommendationsOutput = z.infer<typeof assetRecommendationsOutputSchema>
+export type ThumbnailSuggestionsOutput = z.infer<typeof thumbnailSuggestionsOutputSchema>
@@ -0,0 +1,79 @@
+import axios from 'axios'
+import { SpeechProvider, SpeechRequest, SpeechResult } from './types'
+
+interface TimestampedSpeech {
+  audio_base64: string
+  alignment: {
+    characters: string[]
+    character_start_times_seconds: number[]
+    character_end_times_seconds: number[]
+  } | null
+}
+
+// Map voice options to ElevenLabs voice IDs
+const VOICE_IDS: Record<string, string> = {
+  male: 'pNInz6obpgDQGcFmaJgB', // Adam
+  female: 'EXAVITQu4vr4xnSDxMaL', // Bella
+  child: 'yoZ06aMxZJJ28mfd3POQ', // Sam
+  elderly: 'pqHfZKP75CvOlQylNhV4' // Bill
+}
+
+export class ElevenLabsSpeechProvider implements SpeechProvider {
+  readonly name = 'elevenlabs'
+  private apiKey: string
+
+  constructor(private model: string = 'eleven_monolingual_v1') {
+    this.apiKey = process.env.ELEVENLABS_API_KEY || ''
+  }
+
+  async synthesize(request: SpeechRequest): Promise<SpeechResult> {
+    if (!this.apiKey) {
+      throw new Error('ElevenLabs API key not configured')
+    }
+
+    const voiceId = VOICE_IDS[request.voice] || VOICE_IDS.female
+
+    // The timestamped endpoint also reports when each character is spoken
+    const response = await axios.post<TimestampedSpeech>(
+      `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/with-timestamps`,
+      {
+        text: request.text,
+        model_id: this.model,
+        voice_settings: {
+          stability: 0.5,
+          similarity_boost: 0.75,
+          style: request.emotion === 'neutral' ? 0 : 0.5,
+          use_speaker_boost: true
+        }
+      },
+      {
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          'xi-api-key': this.apiKey
+        }
+      }
+    )
+
+    const { audio_base64, alignment } = response.data
+
+    return {
+      audio: Buffer.from(audio_base64, 'base64'),
+      format: 'mp3',
+      contentType: 'audio/mpeg',
+      alignment: alignment?.characters.map((_, index) => ({
+        start: alignment.character_start_times_seconds[index],
+        end: alignment.character_end_times_seconds[index]
+      }))
+    }
+  }
+
+  async checkStatus(): Promise<boolean> {
+    if (!this.apiKey) return false
+
+    await axios.get('https://api.elevenlabs.io/v1/voices', {
+      headers: { 'xi-api-key': this.apiKey }
+    })
+    return true
+  }
+}
@@ -0,0 +1,91 @@
+import { AICapability, AIProviders } from './types'
+import { OpenAITextProvider, OpenAITranscriptionProvider } from './openai'
+import { ElevenLabsSpeechProvider } from './elevenlabs'
+import { MockSpeechProvider, MockTextProvider, MockTranscriptionProvider } from './mock'
+
+export * from './types'
+
+type ProviderFactories = {
+  [C in AICapability]?: (model?: string) => AIProviders[C]
+}
+
+// The capabilities each provider offers
+const PROVIDERS: Record<string, ProviderFactories> = {
+  openai: {
+    text: model => new OpenAITextProvider(model),
+    transcription: model => new OpenAITranscriptionProvider(model)
+  },
+  elevenlabs: {
+    speech: model => new ElevenLabsSpeechProvider(model)
+  },
+  mock: {
+    text: () => new MockTextProvider(),
+    speech: () => new MockSpeechProvider(),
+    transcription: () => new MockTranscriptionProvider()
+  }
+}
+
+const DEFAULT_PROVIDERS: Record<AICapability, string> = {
+  text: 'openai',
+  speech: 'elevenlabs',
+  transcription: 'openai'
+}
+
+const CAPABILITIES: AICapability[] = ['text', 'speech', 'transcription']
+
+const instances = new Map<string, AIProviders[AICapability]>()
+
+/**
+ * A setting for a subscription tier: `NAME_PRO` when set, else `NAME`
+ */
+function getSetting(name: string, tier: string): string | undefined {
+  return process.env[`${name}_${tier.toUpperCase()}`] || process.env[name] || undefined
+}
+
+/**
+ * Provider for one capability. `AI_TEXT_PROVIDER` (and the speech and
+ * transcription equivalents) picks it explicitly; otherwise `AI_PROVIDER` is
+ * used for every capability it offers, and the default for the rest.
+ */
+function getProvider<C extends AICapability>(capability: C, tier: string): AIProviders[C] {
+  const key = capability.toUpperCase()
+  const fallback = getSetting('AI_PROVIDER', tier)
+  const name = getSetting(`AI_${key}_PROVIDER`, tier)
+    || (fallback && PROVIDERS[fallback]?.[capability] ? fallback : DEFAULT_PROVIDERS[capability])
+
+  const factory = PROVIDERS[name]?.[capability] as ProviderFactories[C] | undefined
+  if (!factory) {
+    throw new Error(`AI provider "${name}" does not support ${capability}`)
+  }
+
+  const model = getSetting(`AI_${key}_MODEL`, tier)
+  const instanceKey = `${capability}:${name}:${model || ''}`
+  if (!instances.has(instanceKey)) {
+    instances.set(instanceKey, factory(model))
+  }
+
+  return instances.get(instanceKey) as AIProviders[C]
+}
+
+/**
+ * Providers serving a subscription tier, as configured by the environment
+ */
+export function getAIProviders(tier: string = 'free'): AIProviders {
+  return {
+    text: getProvider('text', tier),
+    speech: getProvider('speech', tier),
+    transcription: getProvider('transcription', tier)
+  }
+}
+
+/**
+ * Check that a configuration names only known providers, so a typo fails at
+ * startup rather than on the first request
+ */
+export function validateAIProviders(tiers: string[]): void {
+  for (const tier of tiers) {
+    for (const capability of CAPABILITIES) {
+      getProvider(capability, tier)
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import {
+  CharacterTiming,
+  SpeechProvider,
+  SpeechRequest,
+  SpeechResult,
+  TextProvider,
+  TextRequest,
+  TextResult,
+  Transcription,
+  TranscriptionProvider,
+  TranscriptionRequest
+} from './types'
+
+// Offline stand-ins for every capability. Responses depend only on the
+// request, so runs are repeatable without keys or network access.
+
+const MOCK_SCRIPT = `(Upbeat music fades in)
+
+Did you know most people decide whether to keep watching in the first three seconds?
+
+(Cut to a creator at their desk)
+
+Here is how to make those seconds count. Open with a question your audience already asks themselves.
+
+(Show a split screen of two thumbnails)
+
+Then deliver one clear idea per scene, and keep every shot moving.
+
+(Zoom in on the creator)
+
+Try it on your next video, and follow for more quick tips.`
+
+const MOCK_STORYBOARD = {
+  scenes: [
+    {
+      number: 1,
+      title: 'The Hook',
+      duration: 5,
+      visualDescription: 'Close-up of a phone screen scrolling through a video feed',
+      cameraAngle: 'close-up',
+      dialogue: 'Did you know most people decide whether to keep watching in the first three seconds?',
+      background: 'Dimly lit bedroom',
+      props: ['phone'],
+      transition: 'fade'
+    },
+    {
+      number: 2,
+      title: 'The Tip',
+      duration: 8,
+      visualDescription: 'A creator at a desk speaking to camera',
+      cameraAngle: 'medium shot',
+      dialogue: 'Open with a question your audience already asks themselves, then deliver one clear idea per scene.',
+      background: 'Bright home studio',
+      props: ['laptop', 'ring light'],
+      transition: 'slide'
+    },
+    {
+      number: 3,
+      title: 'Call to Action',
+      duration: 5,
+      visualDescription: 'The creator pointing at an on-screen follow button',
+      cameraAngle: 'medium close-up',
+      dialogue: 'Try it on your next video, and follow for more quick tips.',
+      background: 'Bright home studio',
+      props: ['follow button graphic']
+    }
+  ],
+  totalDuration: 18,
+  visualSuggestions: ['Keep a consistent warm color grade', 'Use bold captions on every scene']
+}
+
+const MOCK_ASSET_RECOMMENDATIONS = {
+  searchTerms: ['content creator', 'home studio', 'smartphone scrolling'],
+  assets: [
+    {
+      description: 'Creator talking to camera in a bright room',
+      keywords: ['creator', 'vlog', 'studio'],
+      style: 'realistic',
+      mood: 'energetic'
+    }
+  ],
+  alternatives: ['office desk', 'city timelapse']
+}
+
+const MOCK_THUMBNAIL_SUGGESTIONS = {
+  designs: [
+    {
+      layout: 'Face on the left, headline on the right',
+      textPlacement: 'right third',
+      visualElements: ['surprised face', 'arrow'],
+      colorScheme: ['#facc15', '#111827', '#ffffff'],
+      typography: 'Heavy sans-serif, all caps'
+    }
+  ],
+  templates: ['bold-headline'],
+  colorPalettes: [
+    {
+      name: 'High contrast',
+      colors: ['#facc15', '#111827', '#ffffff'],
+      mood: 'energetic'
+    }
+  ],
+  textVariations: ['3 SECONDS', 'STOP THE SCROLL']
+}
+
+// Responses for the operations AIService asks for, by `TextRequest.operation`
+const MOCK_RESPONSES: Record<string, string> = {
+  'script': MOCK_SCRIPT,
+  'storyboard': JSON.stringify(MOCK_STORYBOARD, null, 2),
+  'asset recommendation': JSON.stringify(MOCK_ASSET_RECOMMENDATIONS, null, 2),
+  'thumbnail suggestion': JSON.stringify(MOCK_THUMBNAIL_SUGGESTIONS, null, 2)
+}
+
+const MOCK_TRANSCRIPT = 'Did you know most people decide whether to keep watching in the first three seconds?'
+
+// Speaking rate of the mock voice and transcript: 150 words per minute
+const SECONDS_PER_WORD = 0.4
+const SAMPLE_RATE = 16000
+
+const VOICE_FREQUENCIES: Record<string, number> = {
+  male: 140,
+  female: 220,
+  child: 300,
+  elderly: 120
+}
+
+function countTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * 16-bit mono PCM WAV of a sine tone, faded in and out so it doesn't click
+ */
+function createToneWav(frequency: number, duration: number): Buffer {
+  const sampleCount = Math.round(duration * SAMPLE_RATE)
+  const fadeSamples = Math.round(0.01 * SAMPLE_RATE)
+  const dataSize = sampleCount * 2
+  const wav = Buffer.alloc(44 + dataSize)
+
+  wav.write('RIFF', 0)
+  wav.writeUInt32LE(36 + dataSize, 4)
+  wav.write('WAVE', 8)
+  wav.write('fmt ', 12)
+  wav.writeUInt32LE(16, 16) // fmt chunk size
+  wav.writeUInt16LE(1, 20) // PCM
+  wav.writeUInt16LE(1, 22) // Mono
+  wav.writeUInt32LE(SAMPLE_RATE, 24)
+  wav.writeUInt32LE(SAMPLE_RATE * 2, 28) // Byte rate
+  wav.writeUInt16LE(2, 32) // Block align
+  wav.writeUInt16LE(16, 34) // Bits per sample
+  wav.write('data', 36)
+  wav.writeUInt32LE(dataSize, 40)
+
+  for (let i = 0; i < sampleCount; i++) {
+    const fade = Math.min(1, i / fadeSamples, (sampleCount - i) / fadeSamples)
+    const sample = Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * 0.3 * fade
+    wav.writeInt16LE(Math.round(sample * 32767), 44 + i * 2)
+  }
+
+  return wav
+}
+
+export class MockTextProvider implements TextProvider {
+  readonly name = 'mock'
+  readonly model = 'mock'
+
+  async generate(request: TextRequest): Promise<TextResult> {
+    const content = MOCK_RESPONSES[request.operation] ?? `Mock ${request.operation} response.`
+    const prompt = request.messages.map(message => message.content).join('\n')
+
+    return {
+      content,
+      tokensUsed: countTokens(prompt) + countTokens(content)
+    }
+  }
+
+  async checkStatus(): Promise<boolean> {
+    return true
+  }
+}
+
+/**
+ * Each word takes the same time, spread over its characters; the spaces
+ * between words take none
+ */
+function alignCharacters(text: string, secondsPerWord: number): CharacterTiming[] {
+  const timings: CharacterTiming[] = []
+  let time = 0
+
+  for (const match of text.matchAll(/(\s*)(\S*)/g)) {
+    const [, space, word] = match
+    timings.push(...Array.from(space, () => ({ start: time, end: time })))
+    timings.push(...Array.from(word, (_, index) => ({
+      start: time + (index / word.length) * secondsPerWord,
+      end: time + ((index + 1) / word.length) * secondsPerWord
+    })))
+    if (word) time += secondsPerWord
+  }
+
+  return timings
+}
+
+export class MockSpeechProvider implements SpeechProvider {
+  readonly name = 'mock'
+
+  async synthesize(request: SpeechRequest): Promise<SpeechResult> {
+    const secondsPerWord = SECONDS_PER_WORD / request.speed
+    const wordCount = request.text.split(/\s+/).filter(Boolean).length
+    const duration = Math.max(1, wordCount * secondsPerWord)
+    const frequency = (VOICE_FREQUENCIES[request.voice] || VOICE_FREQUENCIES.female) * request.pitch
+
+    return {
+      audio: createToneWav(frequency, duration),
+      format: 'wav',
+      contentType: 'audio/wav',
+      alignment: alignCharacters(request.text, secondsPerWord)
+    }
+  }
+
+  async checkStatus(): Promise<boolean> {
+    return true
+  }
+}
+
+export class MockTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'mock'
+
+  // The audio is never fetched; every file "says" the same sentence
+  async transcribe(request: TranscriptionRequest): Promise<Transcription> {
+    const words = MOCK_TRANSCRIPT.split(' ').map((text, index) => ({
+      text,
+      start: index * SECONDS_PER_WORD,
+      end: (index + 1) * SECONDS_PER_WORD
+    }))
+    const duration = words[words.length - 1].end
+
+    return {
+      text: MOCK_TRANSCRIPT,
+      language: request.language,
+      duration,
+      segments: [{ start: 0, end: duration, text: MOCK_TRANSCRIPT, confidence: 1 }],
+      words
+    }
+  }
+
+  async checkStatus(): Promise<boolean> {
+    return true
+  }
+}
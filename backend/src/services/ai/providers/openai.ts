@@ -0,0 +1,91 @@
+import OpenAI from 'openai'
+import axios from 'axios'
+import {
+  TextProvider,
+  TextRequest,
+  TextResult,
+  Transcription,
+  TranscriptionProvider,
+  TranscriptionRequest
+} from './types'
+
+let client: OpenAI | null = null
+
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY
+    })
+  }
+  return client
+}
+
+async function checkClient(): Promise<boolean> {
+  if (!process.env.OPENAI_API_KEY) return false
+  await getClient().models.list()
+  return true
+}
+
+export class OpenAITextProvider implements TextProvider {
+  readonly name = 'openai'
+
+  constructor(readonly model: string = 'gpt-4') {}
+
+  async generate(request: TextRequest): Promise<TextResult> {
+    const completion = await getClient().chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+    })
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      tokensUsed: completion.usage?.total_tokens || 0
+    }
+  }
+
+  checkStatus(): Promise<boolean> {
+    return checkClient()
+  }
+}
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai'
+
+  constructor(private model: string = 'whisper-1') {}
+
+  async transcribe(request: TranscriptionRequest): Promise<Transcription> {
+    // Download audio file
+    const audioResponse = await axios.get(request.audioUrl, { responseType: 'stream' })
+
+    const transcription = await getClient().audio.transcriptions.create({
+      file: audioResponse.data,
+      model: this.model,
+      language: request.language,
+      response_format: 'verbose_json',
+      // Word timings drive the editor's animated captions
+      timestamp_granularities: ['word', 'segment']
+    })
+
+    return {
+      text: transcription.text,
+      language: transcription.language,
+      duration: transcription.duration,
+      segments: (transcription.segments || []).map(segment => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text
+      })),
+      words: (transcription.words || []).map(word => ({
+        text: word.word,
+        start: word.start,
+        end: word.end
+      }))
+    }
+  }
+
+  checkStatus(): Promise<boolean> {
+    return checkClient()
+  }
+}
@@ -0,0 +1,90 @@
+export type AICapability = 'text' | 'speech' | 'transcription'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface TextRequest {
+  operation: string // What is being generated, e.g. 'script' or 'storyboard'
+  messages: ChatMessage[]
+  maxTokens: number
+  temperature: number
+}
+
+export interface TextResult {
+  content: string
+  tokensUsed: number
+}
+
+export interface SpeechRequest {
+  text: string
+  voice: string // 'male' | 'female' | 'child' | 'elderly'
+  speed: number
+  pitch: number
+  emotion: string
+}
+
+export interface CharacterTiming {
+  start: number
+  end: number
+}
+
+export interface SpeechResult {
+  audio: Buffer
+  format: string // File extension, e.g. 'mp3'
+  contentType: string
+  // When each character of the request text is spoken, if the provider reports it
+  alignment?: CharacterTiming[]
+}
+
+export interface TranscriptionRequest {
+  audioUrl: string
+  language: string
+}
+
+export interface TranscriptSegment {
+  start: number
+  end: number
+  text: string
+  confidence?: number
+}
+
+export interface TranscriptWord {
+  text: string
+  start: number
+  end: number
+}
+
+export interface Transcription {
+  text: string
+  language: string
+  duration: number
+  segments: TranscriptSegment[]
+  words: TranscriptWord[]
+}
+
+interface Provider {
+  readonly name: string
+  // Whether the provider is configured and reachable
+  checkStatus(): Promise<boolean>
+}
+
+export interface TextProvider extends Provider {
+  readonly model: string
+  generate(request: TextRequest): Promise<TextResult>
+}
+
+export interface SpeechProvider extends Provider {
+  synthesize(request: SpeechRequest): Promise<SpeechResult>
+}
+
+export interface TranscriptionProvider extends Provider {
+  transcribe(request: TranscriptionRequest): Promise<Transcription>
+}
+
+export interface AIProviders {
+  text: TextProvider
+  speech: SpeechProvider
+  transcription: TranscriptionProvider
+}
@@ -0,0 +1,130 @@
+import { ZodTypeAny, z } from 'zod'
+import { logger } from '../../utils/logger'
+import { ChatMessage, TextProvider } from './providers'
+
+export interface OutputIssue {
+  path: string
+  message: string
+}
+
+/**
+ * The model's response still did not match the expected schema after every
+ * repair attempt. Carries the problems so clients can be told what went wrong.
+ */
+export class AIOutputError extends Error {
+  readonly code = 'AI_OUTPUT_INVALID'
+
+  constructor(
+    readonly operation: string,
+    readonly issues: OutputIssue[],
+    readonly attempts: number
+  ) {
+    super(`The AI returned an invalid ${operation} after ${attempts} ${attempts === 1 ? 'attempt' : 'attempts'}`)
+    this.name = 'AIOutputError'
+  }
+}
+
+export interface StructuredOutputOptions<T extends ZodTypeAny> {
+  operation: string // What is being generated, for errors and logs
+  schema: T
+  messages: ChatMessage[]
+  maxTokens: number
+  temperature: number
+  maxAttempts?: number
+}
+
+export interface StructuredOutput<T> {
+  data: T
+  attempts: number
+  tokensUsed: number
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3
+
+/**
+ * Pull the JSON object out of a model response that may wrap it in prose or
+ * a markdown code fence
+ */
+export function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  const text = fenced ? fenced[1] : content
+
+  // Every response format is a JSON object
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text.trim()
+}
+
+/**
+ * Parse and validate a response, returning the problems instead of throwing
+ */
+function parseOutput<T extends ZodTypeAny>(content: string, schema: T): { data: z.infer<T> } | { issues: OutputIssue[] } {
+  let json: unknown
+  try {
+    json = JSON.parse(extractJson(content))
+  } catch (error) {
+    return { issues: [{ path: '', message: `Not valid JSON: ${(error as Error).message}` }] }
+  }
+
+  const result = schema.safeParse(json)
+  if (result.success) {
+    return { data: result.data }
+  }
+
+  return {
+    issues: result.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    }))
+  }
+}
+
+function describeIssues(issues: OutputIssue[]): string {
+  return issues
+    .map(issue => `- ${issue.path || '(root)'}: ${issue.message}`)
+    .join('\n')
+}
+
+/**
+ * Ask the model for JSON matching `schema`. A response that is not valid JSON
+ * or does not match is sent back with the problems listed so the model can
+ * correct it, up to `maxAttempts` requests in all.
+ */
+export async function generateStructuredOutput<T extends ZodTypeAny>(
+  provider: TextProvider,
+  options: StructuredOutputOptions<T>
+): Promise<StructuredOutput<z.infer<T>>> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+  const messages = [...options.messages]
+  let tokensUsed = 0
+  let issues: OutputIssue[] = []
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const completion = await provider.generate({
+      operation: options.operation,
+      messages,
+      maxTokens: options.maxTokens,
+      temperature: options.temperature
+    })
+    tokensUsed += completion.tokensUsed
+
+    const content = completion.content
+    const result = parseOutput(content, options.schema)
+    if ('data' in result) {
+      return { data: result.data, attempts: attempt, tokensUsed }
+    }
+
+    issues = result.issues
+    logger.warn(`Invalid ${options.operation} from the AI (attempt ${attempt}/${maxAttempts}):\n${describeIssues(issues)}`)
+
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response did not match the required JSON format:\n${describeIssues(issues)}\n\nReply with only the corrected JSON, no other text.`
+      }
+    )
+  }
+
+  throw new AIOutputError(options.operation, issues, maxAttempts)
+}
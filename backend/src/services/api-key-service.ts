@@ -0,0 +1,255 @@
+import { v4 as uuidv4 } from 'uuid'
+import { ApiKey, ApiKeyCreate, ApiKeyPermission, ApiKeyWithSecret } from '@invideo-studio/shared'
+import { SupabaseService } from './supabase-service'
+import { logger } from '../utils/logger'
+import { generateKey, getDisplayPrefix, hashKey } from './api-key/keys'
+
+interface ApiKeyRow {
+  id: string
+  workspace_id: string
+  user_id: string // Who created it
+  name: string
+  prefix: string
+  key_hash: string
+  permissions: ApiKeyPermission[]
+  last_used_at: string | null
+  expires_at: string | null
+  rotated_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+interface WorkspaceRow {
+  id: string
+  owner_id: string
+  name: string
+  created_at: string
+}
+
+/**
+ * Who a request made with an API key acts as. Everything in this API is owned
+ * by users, so a key acts as its workspace's owner, limited to its permissions.
+ */
+export interface ApiKeyIdentity {
+  keyId: string
+  workspaceId: string
+  userId: string
+  permissions: ApiKeyPermission[]
+}
+
+const API_KEYS_TABLE = 'api_keys'
+const WORKSPACES_TABLE = 'workspaces'
+
+// last_used_at is only rewritten when it is older than this, not on every request
+const LAST_USED_RESOLUTION = 60 * 1000
+
+const LISTED_COLUMNS = 'id, workspace_id, name, prefix, permissions, last_used_at, expires_at, rotated_at, created_at'
+
+export class ApiKeyService {
+  private supabase: SupabaseService
+
+  constructor() {
+    this.supabase = new SupabaseService()
+  }
+
+  /**
+   * The user's workspace, created the first time it is needed. Each user has
+   * one, which their API keys belong to.
+   */
+  async getWorkspace(userId: string): Promise<WorkspaceRow> {
+    const existing = await this.findWorkspace(userId)
+    if (existing) return existing
+
+    const { error } = await this.supabase.client
+      .from(WORKSPACES_TABLE)
+      .insert({
+        id: uuidv4(),
+        owner_id: userId,
+        name: 'Personal',
+        created_at: new Date().toISOString()
+      })
+
+    // A concurrent request may have created it first; owner_id is unique
+    const workspace = await this.findWorkspace(userId)
+    if (!workspace) {
+      logger.error('Failed to create workspace:', error)
+      throw new Error('Failed to create workspace')
+    }
+    return workspace
+  }
+
+  async listKeys(userId: string): Promise<ApiKey[]> {
+    const workspace = await this.getWorkspace(userId)
+
+    const { data, error } = await this.supabase.client
+      .from(API_KEYS_TABLE)
+      .select(LISTED_COLUMNS)
+      .eq('workspace_id', workspace.id)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Failed to list API keys:', error)
+      throw new Error('Failed to list API keys')
+    }
+
+    return (data || []).map(row => this.toApiKey(row))
+  }
+
+  /**
+   * Create a key in the user's workspace. Its secret is in the result and can't be read again.
+   */
+  async createKey(userId: string, input: ApiKeyCreate): Promise<ApiKeyWithSecret> {
+    const workspace = await this.getWorkspace(userId)
+    const key = generateKey()
+
+    const { data, error } = await this.supabase.client
+      .from(API_KEYS_TABLE)
+      .insert({
+        id: uuidv4(),
+        workspace_id: workspace.id,
+        user_id: userId,
+        name: input.name,
+        prefix: getDisplayPrefix(key),
+        key_hash: hashKey(key),
+        permissions: input.permissions,
+        expires_at: input.expiresAt?.toISOString() || null,
+        created_at: new Date().toISOString()
+      })
+      .select(LISTED_COLUMNS)
+      .single()
+
+    if (error || !data) {
+      logger.error('Failed to create API key:', error)
+      throw new Error('Failed to create API key')
+    }
+
+    return { ...this.toApiKey(data), key }
+  }
+
+  /**
+   * Replace a key's secret, keeping its name and permissions. The old secret stops working at once.
+   */
+  async rotateKey(keyId: string, userId: string): Promise<ApiKeyWithSecret> {
+    await this.getKeyRow(keyId, userId)
+    const key = generateKey()
+
+    const { data, error } = await this.supabase.client
+      .from(API_KEYS_TABLE)
+      .update({
+        prefix: getDisplayPrefix(key),
+        key_hash: hashKey(key),
+        rotated_at: new Date().toISOString()
+      })
+      .eq('id', keyId)
+      .select(LISTED_COLUMNS)
+      .single()
+
+    if (error || !data) {
+      logger.error('Failed to rotate API key:', error)
+      throw new Error('Failed to rotate API key')
+    }
+
+    return { ...this.toApiKey(data), key }
+  }
+
+  async revokeKey(keyId: string, userId: string) {
+    await this.getKeyRow(keyId, userId)
+
+    const { error } = await this.supabase.client
+      .from(API_KEYS_TABLE)
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', keyId)
+
+    if (error) {
+      logger.error('Failed to revoke API key:', error)
+      throw new Error('Failed to revoke API key')
+    }
+  }
+
+  /**
+   * Who a key acts as, or null if it is unknown, revoked or expired
+   */
+  async authenticate(key: string): Promise<ApiKeyIdentity | null> {
+    const { data: row, error } = await this.supabase.client
+      .from(API_KEYS_TABLE)
+      .select('*, workspace:workspaces(owner_id)')
+      .eq('key_hash', hashKey(key))
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to look up API key:', error)
+      throw new Error('Failed to authenticate API key')
+    }
+    if (!row || !row.workspace) return null
+    if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) return null
+
+    if (!row.last_used_at || Date.now() - new Date(row.last_used_at).getTime() > LAST_USED_RESOLUTION) {
+      this.touchKey(row.id)
+    }
+
+    return {
+      keyId: row.id,
+      workspaceId: row.workspace_id,
+      userId: row.workspace.owner_id,
+      permissions: row.permissions || []
+    }
+  }
+
+  // Recorded in the background so it doesn't hold up the request
+  private touchKey(keyId: string) {
+    this.supabase.client
+      .from(API_KEYS_TABLE)
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', keyId)
+      .then(({ error }) => {
+        if (error) logger.warn(`Failed to record use of API key ${keyId}:`, error)
+      })
+  }
+
+  private async findWorkspace(userId: string): Promise<WorkspaceRow | null> {
+    const { data, error } = await this.supabase.client
+      .from(WORKSPACES_TABLE)
+      .select('*')
+      .eq('owner_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to read workspace:', error)
+      throw new Error('Failed to read workspace')
+    }
+    return data
+  }
+
+  private async getKeyRow(keyId: string, userId: string): Promise<ApiKeyRow> {
+    const workspace = await this.getWorkspace(userId)
+
+    const { data, error } = await this.supabase.client
+      .from(API_KEYS_TABLE)
+      .select('*')
+      .eq('id', keyId)
+      .eq('workspace_id', workspace.id)
+      .is('revoked_at', null)
+      .single()
+
+    if (error || !data) {
+      throw new Error('API key not found')
+    }
+    return data
+  }
+
+  private toApiKey(row: Omit<ApiKeyRow, 'user_id' | 'key_hash' | 'revoked_at'>): ApiKey {
+    return {
+      id: row.id,
+      workspaceId: row.workspace_id,
+      name: row.name,
+      prefix: row.prefix,
+      permissions: row.permissions || [],
+      lastUsedAt: row.last_used_at,
+      expiresAt: row.expires_at,
+      rotatedAt: row.rotated_at,
+      createdAt: row.created_at
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { generateKey, getDisplayPrefix, hashKey, hasPermission, isApiKey } from '../keys'
+
+describe('generateKey', () => {
+  it('makes prefixed keys of 256 random bits', () => {
+    const key = generateKey()
+
+    expect(key).toMatch(/^ivs_[A-Za-z0-9_-]{43}$/)
+    expect(generateKey()).not.toBe(key)
+  })
+})
+
+describe('hashKey', () => {
+  it('hashes a key the same way every time, without revealing it', () => {
+    const key = generateKey()
+    const hash = hashKey(key)
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(hashKey(key)).toBe(hash)
+    expect(hash).not.toContain(key.slice(4))
+  })
+
+  it('gives different keys different hashes', () => {
+    expect(hashKey(generateKey())).not.toBe(hashKey(generateKey()))
+  })
+})
+
+describe('isApiKey', () => {
+  it('tells API keys apart from session tokens', () => {
+    expect(isApiKey(generateKey())).toBe(true)
+    expect(isApiKey('eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.e30.signature')).toBe(false)
+  })
+})
+
+describe('getDisplayPrefix', () => {
+  it('keeps the key prefix and the first characters of the secret', () => {
+    const key = generateKey()
+    expect(getDisplayPrefix(key)).toBe(key.slice(0, 12))
+  })
+})
+
+describe('hasPermission', () => {
+  it('lets sessions do everything', () => {
+    expect(hasPermission(undefined, 'render:write')).toBe(true)
+  })
+
+  it('limits keys to the permissions they were given', () => {
+    const apiKey = { permissions: ['render:read' as const, 'projects:read' as const] }
+
+    expect(hasPermission(apiKey, 'render:read')).toBe(true)
+    expect(hasPermission(apiKey, 'render:write')).toBe(false)
+    expect(hasPermission({ permissions: [] }, 'usage:read')).toBe(false)
+  })
+})
@@ -0,0 +1,38 @@
+import crypto from 'crypto'
+import { ApiKeyPermission } from '@invideo-studio/shared'
+
+const KEY_PREFIX = 'ivs_'
+
+// Enough of the key to recognise it in a list without weakening it
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8
+
+/**
+ * Whether a bearer token is one of our API keys rather than a session JWT
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(KEY_PREFIX)
+}
+
+// Keys are 256 random bits, so a fast hash is as good as a slow one and keeps lookups cheap
+export function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+export function generateKey(): string {
+  return `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+}
+
+/**
+ * The start of a key, stored to tell keys apart in a list
+ */
+export function getDisplayPrefix(key: string): string {
+  return key.slice(0, DISPLAY_PREFIX_LENGTH)
+}
+
+/**
+ * Whether a request may do something that needs a permission. Signed-in users
+ * (no API key) have every permission; keys only those they were given.
+ */
+export function hasPermission(apiKey: { permissions: ApiKeyPermission[] } | undefined, permission: ApiKeyPermission): boolean {
+  return !apiKey || apiKey.permissions.includes(permission)
+}
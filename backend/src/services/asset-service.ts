@@ -0,0 +1,580 @@
+import { Queue, Worker, Job, UnrecoverableError } from 'bullmq'
+import IORedis from 'ioredis'
+import fs from 'fs/promises'
+import { createReadStream, createWriteStream } from 'fs'
+import { pipeline } from 'stream/promises'
+import path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  AssetStatus,
+  AssetType,
+  MediaAsset,
+  MediaMetadata,
+  ResumableUpload,
+  getAssetType
+} from '@invideo-studio/shared'
+import { SupabaseService } from './supabase-service'
+import { probeMedia } from './assets/probe'
+import {
+  createThumbnail,
+  extractPoster,
+  renderWaveform,
+  needsProxy,
+  transcodeProxy
+} from './assets/previews'
+import { logger } from '../utils/logger'
+import { escapeLike } from '../utils/escape-like'
+
+interface IngestJob {
+  assetId: string
+  userId: string
+  type: AssetType
+  file: string
+  mimeType: string
+}
+
+// A resumable upload in progress, kept in Redis until it completes or expires
+interface UploadSession {
+  userId: string
+  fileName: string
+  mimeType: string
+  size: number
+  chunkSize: number
+  totalChunks: number
+}
+
+interface AssetRow {
+  id: string
+  user_id: string
+  type: AssetType
+  status: AssetStatus
+  name: string
+  mime_type: string
+  size: number
+  url: string | null
+  thumbnail_url: string | null
+  poster_url: string | null
+  proxy_url: string | null
+  metadata: MediaMetadata | null
+  error: string | null
+  created_at: string
+}
+
+export interface AssetListOptions {
+  page: number
+  pageSize: number
+  type?: AssetType
+  search?: string
+}
+
+export interface UploadedFile {
+  path: string
+  name: string
+  mimeType: string
+  size: number
+}
+
+const INGEST_QUEUE = 'asset-ingest'
+const ASSETS_TABLE = 'assets'
+const ASSET_BUCKET = 'assets'
+
+const RETRY_OPTIONS = {
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 5000
+  }
+}
+
+// Resumable uploads arrive in chunks of this size; only the last may be shorter
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024
+
+// Abandoned resumable uploads are forgotten after a day
+const UPLOAD_TTL = 24 * 60 * 60
+
+const redisConnection = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3
+}
+
+// MAX_FILE_SIZE is written like '100MB'
+function parseSize(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/)
+  if (!match) {
+    throw new Error(`Invalid file size: ${value}`)
+  }
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[match[2] || 'b'])
+}
+
+export const MAX_UPLOAD_SIZE = parseSize(process.env.MAX_FILE_SIZE || '100MB')
+
+const ALLOWED_EXTENSIONS = new Set(
+  (process.env.ALLOWED_FILE_TYPES || 'mp4,mov,avi,jpg,jpeg,png,gif,mp3,wav')
+    .split(',')
+    .map(extension => extension.trim().toLowerCase())
+    .filter(Boolean)
+)
+
+function getExtension(fileName: string): string {
+  return path.extname(fileName).slice(1).toLowerCase()
+}
+
+function getUploadKey(uploadId: string): string {
+  return `${INGEST_QUEUE}:upload:${uploadId}`
+}
+
+function getChunksKey(uploadId: string): string {
+  return `${INGEST_QUEUE}:upload:${uploadId}:chunks`
+}
+
+function toAsset(row: AssetRow): MediaAsset {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    name: row.name,
+    url: row.url,
+    thumbnailUrl: row.thumbnail_url,
+    posterUrl: row.poster_url,
+    proxyUrl: row.proxy_url,
+    metadata: row.metadata,
+    error: row.error,
+    createdAt: row.created_at
+  }
+}
+
+/**
+ * Uploaded images, video and audio. Files arrive whole (multipart) or in
+ * resumable chunks, are stored as-is, then ingested in the background: probed,
+ * given a thumbnail (and a poster and editing proxy for video) and marked ready.
+ */
+export class AssetService {
+  private queue: Queue<IngestJob>
+  private worker?: Worker<IngestJob>
+  private redis: IORedis
+  private supabase: SupabaseService
+  private workDir: string
+
+  constructor() {
+    this.supabase = new SupabaseService()
+    // Uploads are written by the API and ingested by the workers, so this
+    // must be a volume shared by both
+    this.workDir = process.env.ASSET_WORK_DIR || '/app/cache/uploads'
+    this.queue = new Queue(INGEST_QUEUE, {
+      connection: redisConnection
+    })
+    this.redis = new IORedis(redisConnection)
+  }
+
+  /**
+   * Start ingesting uploaded assets in this process. Called by the standalone
+   * worker (`src/worker.ts`) alongside the render workers.
+   */
+  startWorkers() {
+    this.worker = new Worker<IngestJob>(INGEST_QUEUE, async (job) => {
+      await this.processIngestJob(job)
+    }, {
+      connection: redisConnection,
+      concurrency: parseInt(process.env.ASSET_CONCURRENCY || '1')
+    })
+
+    this.worker.on('completed', (job) => {
+      logger.info(`Asset ${job.data.assetId} ingested`)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      logger.error(`Asset ingest job ${job?.id} failed:`, err)
+    })
+  }
+
+  async close() {
+    await this.worker?.close()
+    await this.queue.close()
+    this.redis.disconnect()
+  }
+
+  /**
+   * Directory multipart uploads are written to before they become assets
+   */
+  async getIncomingDir(): Promise<string> {
+    const dir = path.join(this.workDir, 'incoming')
+    await fs.mkdir(dir, { recursive: true })
+    return dir
+  }
+
+  /**
+   * Why a file can't be uploaded, or undefined when it can
+   */
+  validateUpload(fileName: string, mimeType: string, size?: number): string | undefined {
+    if (!ALLOWED_EXTENSIONS.has(getExtension(fileName))) {
+      return `Allowed file types are ${Array.from(ALLOWED_EXTENSIONS).join(', ')}`
+    }
+    if (!getAssetType(mimeType)) {
+      return 'Only image, video and audio files can be uploaded'
+    }
+    if (size !== undefined && size > MAX_UPLOAD_SIZE) {
+      return `Files can be at most ${Math.floor(MAX_UPLOAD_SIZE / 1024 / 1024)}MB`
+    }
+    return undefined
+  }
+
+  /**
+   * Turn a file received in full into an asset and queue its ingestion. The
+   * file is moved into the asset's working directory.
+   */
+  async createAsset(userId: string, upload: UploadedFile): Promise<MediaAsset> {
+    const type = getAssetType(upload.mimeType)
+    if (!type) {
+      throw new Error(`Unsupported file type: ${upload.mimeType}`)
+    }
+
+    const id = uuidv4()
+    const assetDir = this.getAssetDir(id)
+    const file = path.join(assetDir, `source${path.extname(upload.name).toLowerCase()}`)
+    await fs.mkdir(assetDir, { recursive: true })
+    await fs.rename(upload.path, file)
+
+    const now = new Date().toISOString()
+    const { data, error } = await this.supabase.client
+      .from(ASSETS_TABLE)
+      .insert({
+        id,
+        user_id: userId,
+        type,
+        status: 'processing',
+        name: upload.name,
+        mime_type: upload.mimeType,
+        size: upload.size,
+        created_at: now,
+        updated_at: now
+      })
+      .select('*')
+      .single()
+
+    if (error || !data) {
+      logger.error('Failed to create asset:', error)
+      await this.cleanup(assetDir)
+      throw new Error('Failed to create asset')
+    }
+
+    await this.queue.add('ingest-asset', {
+      assetId: id,
+      userId,
+      type,
+      file,
+      mimeType: upload.mimeType
+    }, {
+      jobId: id,
+      removeOnComplete: 100,
+      removeOnFail: 100,
+      ...RETRY_OPTIONS
+    })
+
+    return toAsset(data)
+  }
+
+  /**
+   * Start a resumable upload. Chunks can then be sent in any order, and
+   * resent, until the upload is completed.
+   */
+  async startUpload(userId: string, upload: ResumableUpload) {
+    const uploadId = uuidv4()
+    const session: UploadSession = {
+      userId,
+      fileName: upload.fileName,
+      mimeType: upload.mimeType,
+      size: upload.size,
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      totalChunks: Math.ceil(upload.size / UPLOAD_CHUNK_SIZE)
+    }
+
+    await fs.mkdir(this.getUploadDir(uploadId), { recursive: true })
+    await this.redis.set(getUploadKey(uploadId), JSON.stringify(session), 'EX', UPLOAD_TTL)
+
+    return {
+      uploadId,
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      received: [] as number[]
+    }
+  }
+
+  /**
+   * Which chunks of a resumable upload have arrived, so a client can resume it
+   */
+  async getUpload(uploadId: string, userId: string) {
+    const session = await this.getUploadSession(uploadId, userId)
+    const received = (await this.redis.smembers(getChunksKey(uploadId)))
+      .map(index => parseInt(index))
+      .sort((a, b) => a - b)
+
+    return {
+      uploadId,
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      received
+    }
+  }
+
+  async saveChunk(uploadId: string, userId: string, index: number, data: Buffer) {
+    const session = await this.getUploadSession(uploadId, userId)
+
+    if (index >= session.totalChunks) {
+      throw new Error(`Chunk ${index} is out of range`)
+    }
+
+    const expectedSize = index === session.totalChunks - 1
+      ? session.size - session.chunkSize * (session.totalChunks - 1)
+      : session.chunkSize
+    if (data.length !== expectedSize) {
+      throw new Error(`Chunk ${index} should be ${expectedSize} bytes, got ${data.length}`)
+    }
+
+    await fs.writeFile(path.join(this.getUploadDir(uploadId), String(index)), data)
+    await this.redis.multi()
+      .sadd(getChunksKey(uploadId), index)
+      .expire(getChunksKey(uploadId), UPLOAD_TTL)
+      .expire(getUploadKey(uploadId), UPLOAD_TTL)
+      .exec()
+
+    return {
+      uploadId,
+      received: await this.redis.scard(getChunksKey(uploadId)),
+      totalChunks: session.totalChunks
+    }
+  }
+
+  /**
+   * Join a resumable upload's chunks and turn the file into an asset
+   */
+  async completeUpload(uploadId: string, userId: string): Promise<MediaAsset> {
+    const session = await this.getUploadSession(uploadId, userId)
+    const received = await this.redis.scard(getChunksKey(uploadId))
+    if (received < session.totalChunks) {
+      throw new Error(`Upload is incomplete: ${received} of ${session.totalChunks} chunks received`)
+    }
+
+    // Only one request can complete the upload
+    const claimed = await this.redis.del(getUploadKey(uploadId))
+    if (!claimed) {
+      throw new Error('Upload not found')
+    }
+    await this.redis.del(getChunksKey(uploadId))
+
+    const uploadDir = this.getUploadDir(uploadId)
+    const file = path.join(uploadDir, 'joined')
+
+    try {
+      const output = createWriteStream(file)
+      for (let index = 0; index < session.totalChunks; index++) {
+        await pipeline(createReadStream(path.join(uploadDir, String(index))), output, { end: false })
+      }
+      output.end()
+      await new Promise<void>((resolve, reject) => output.on('finish', resolve).on('error', reject))
+
+      return await this.createAsset(userId, {
+        path: file,
+        name: session.fileName,
+        mimeType: session.mimeType,
+        size: session.size
+      })
+    } finally {
+      await this.cleanup(uploadDir)
+    }
+  }
+
+  async listAssets(userId: string, options: AssetListOptions) {
+    const from = (options.page - 1) * options.pageSize
+
+    let query = this.supabase.client
+      .from(ASSETS_TABLE)
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(from, from + options.pageSize - 1)
+
+    if (options.type) {
+      query = query.eq('type', options.type)
+    }
+    if (options.search) {
+      query = query.ilike('name', `%${escapeLike(options.search)}%`)
+    }
+
+    const { data, error, count } = await query
+    if (error) {
+      logger.error('Failed to list assets:', error)
+      throw new Error('Failed to list assets')
+    }
+
+    return {
+      assets: (data || []).map(toAsset),
+      page: options.page,
+      pageSize: options.pageSize,
+      total: count || 0
+    }
+  }
+
+  async getAsset(assetId: string, userId: string): Promise<MediaAsset> {
+    return toAsset(await this.getAssetRow(assetId, userId))
+  }
+
+  /**
+   * Delete an asset and its stored files. Projects that use it keep their
+   * copy of its URL, which stops resolving.
+   */
+  async deleteAsset(assetId: string, userId: string) {
+    await this.getAssetRow(assetId, userId)
+
+    const folder = `${userId}/${assetId}`
+    const storage = this.supabase.client.storage.from(ASSET_BUCKET)
+    const { data: files } = await storage.list(folder)
+    if (files?.length) {
+      await storage.remove(files.map(file => `${folder}/${file.name}`))
+    }
+
+    const { error } = await this.supabase.client
+      .from(ASSETS_TABLE)
+      .delete()
+      .eq('id', assetId)
+      .eq('user_id', userId)
+
+    if (error) {
+      logger.error('Failed to delete asset:', error)
+      throw new Error('Failed to delete asset')
+    }
+
+    // Stops an ingest that hasn't started yet
+    await this.queue.remove(assetId).catch(() => undefined)
+  }
+
+  private async processIngestJob(job: Job<IngestJob>) {
+    const { assetId } = job.data
+
+    try {
+      await this.ingest(job.data)
+      await this.cleanup(this.getAssetDir(assetId))
+    } catch (error) {
+      const isLastAttempt = error instanceof UnrecoverableError
+        || job.attemptsMade + 1 >= (job.opts.attempts || 1)
+
+      if (isLastAttempt) {
+        await this.updateAsset(assetId, { status: 'failed', error: error.message })
+        await this.cleanup(this.getAssetDir(assetId))
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Probe an asset, store it with its previews and mark it ready
+   */
+  private async ingest({ assetId, userId, type, file, mimeType }: IngestJob) {
+    let metadata: MediaMetadata
+    try {
+      metadata = await probeMedia(file, type)
+    } catch (error) {
+      // A file that can't be probed won't probe on a retry either
+      throw new UnrecoverableError(`Unreadable ${type} file: ${error.message}`)
+    }
+
+    const workDir = path.dirname(file)
+    const folder = `${userId}/${assetId}`
+    const update: Record<string, unknown> = { metadata }
+
+    update.url = await this.upload(`${folder}/original${path.extname(file)}`, await fs.readFile(file), mimeType)
+
+    if (type === 'image') {
+      update.thumbnail_url = await this.upload(`${folder}/thumbnail.jpg`, await createThumbnail(file), 'image/jpeg')
+    }
+
+    if (type === 'video') {
+      const posterFile = path.join(workDir, 'poster.jpg')
+      await extractPoster(file, metadata.duration!, posterFile)
+      const poster = await fs.readFile(posterFile)
+      update.poster_url = await this.upload(`${folder}/poster.jpg`, poster, 'image/jpeg')
+      update.thumbnail_url = await this.upload(`${folder}/thumbnail.jpg`, await createThumbnail(poster), 'image/jpeg')
+
+      if (needsProxy(metadata)) {
+        const proxyFile = path.join(workDir, 'proxy.mp4')
+        await transcodeProxy(file, proxyFile, metadata)
+        update.proxy_url = await this.upload(`${folder}/proxy.mp4`, await fs.readFile(proxyFile), 'video/mp4')
+      } else {
+        update.proxy_url = update.url
+      }
+    }
+
+    if (type === 'audio') {
+      const waveformFile = path.join(workDir, 'waveform.png')
+      await renderWaveform(file, waveformFile)
+      update.thumbnail_url = await this.upload(`${folder}/waveform.png`, await fs.readFile(waveformFile), 'image/png')
+    }
+
+    await this.updateAsset(assetId, { ...update, status: 'ready', error: null })
+  }
+
+  private async upload(name: string, buffer: Buffer, contentType: string): Promise<string> {
+    return await this.supabase.uploadFile(ASSET_BUCKET, name, buffer, contentType)
+  }
+
+  private async updateAsset(assetId: string, update: Record<string, unknown>) {
+    const { error } = await this.supabase.client
+      .from(ASSETS_TABLE)
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', assetId)
+
+    if (error) {
+      logger.error(`Failed to update asset ${assetId}:`, error)
+      throw new Error('Failed to update asset')
+    }
+  }
+
+  private async getAssetRow(assetId: string, userId: string): Promise<AssetRow> {
+    const { data, error } = await this.supabase.client
+      .from(ASSETS_TABLE)
+      .select('*')
+      .eq('id', assetId)
+      .eq('user_id', userId)
+      .single()
+
+    if (error || !data) {
+      throw new Error('Asset not found')
+    }
+
+    return data
+  }
+
+  private async getUploadSession(uploadId: string, userId: string): Promise<UploadSession> {
+    const stored = await this.redis.get(getUploadKey(uploadId))
+    const session: UploadSession | null = stored ? JSON.parse(stored) : null
+
+    if (!session || session.userId !== userId) {
+      throw new Error('Upload not found')
+    }
+
+    return session
+  }
+
+  private getAssetDir(assetId: string): string {
+    return path.join(this.workDir, assetId)
+  }
+
+  private getUploadDir(uploadId: string): string {
+    return path.join(this.workDir, 'resumable', uploadId)
+  }
+
+  private async cleanup(dir: string) {
+    try {
+      await fs.rm(dir, { recursive: true, force: true })
+    } catch (error) {
+      logger.warn(`Failed to clean up ${dir}: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import ffmpeg from 'fluent-ffmpeg'
+import sharp from 'sharp'
+import { MediaMetadata } from '@invideo-studio/shared'
+
+// Thumbnails fit inside this box; the asset library shows them at 2x its cell size
+export const THUMBNAIL_SIZE = 320
+
+// Proxies are scaled down to this height; the editor preview is rarely larger
+export const PROXY_HEIGHT = 540
+
+const WAVEFORM_SIZE = '640x160'
+const WAVEFORM_COLOR = '#3b82f6'
+
+function runFfmpeg(command: ffmpeg.FfmpegCommand): Promise<void> {
+  return new Promise((resolve, reject) => {
+    command
+      .on('end', () => resolve())
+      .on('error', reject)
+      .run()
+  })
+}
+
+/**
+ * A small JPEG preview of an image, turned upright by its EXIF orientation
+ */
+export async function createThumbnail(input: string | Buffer): Promise<Buffer> {
+  return sharp(input)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#000000' })
+    .jpeg({ quality: 80 })
+    .toBuffer()
+}
+
+/**
+ * A full-size still from early in a video, a little way past any fade in
+ */
+export async function extractPoster(file: string, duration: number, outputFile: string): Promise<void> {
+  const timestamp = Math.min(duration * 0.1, 1)
+
+  await runFfmpeg(ffmpeg(file)
+    .inputOptions(['-ss', timestamp.toFixed(3)])
+    .outputOptions(['-frames:v', '1', '-q:v', '2'])
+    .output(outputFile))
+}
+
+/**
+ * An image of an audio file's waveform, used as its thumbnail
+ */
+export async function renderWaveform(file: string, outputFile: string): Promise<void> {
+  await runFfmpeg(ffmpeg(file)
+    .complexFilter(`[0:a]aformat=channel_layouts=mono,showwavespic=s=${WAVEFORM_SIZE}:colors=${WAVEFORM_COLOR}[wave]`)
+    .outputOptions(['-map', '[wave]', '-frames:v', '1'])
+    .output(outputFile))
+}
+
+/**
+ * Whether a video is already light enough to edit with as it is
+ */
+export function needsProxy(metadata: MediaMetadata): boolean {
+  return metadata.videoCodec !== 'h264'
+    || (metadata.height || 0) > PROXY_HEIGHT
+    || !metadata.format.includes('mp4')
+}
+
+/**
+ * Transcode a low-resolution H.264 copy of a video that seeks quickly in the
+ * editor. Exports still render from the original.
+ */
+export async function transcodeProxy(file: string, outputFile: string, metadata: MediaMetadata): Promise<void> {
+  const command = ffmpeg(file)
+    .videoFilters(`scale=-2:'min(${PROXY_HEIGHT},ih)'`)
+    .outputOptions([
+      '-c:v', 'libx264',
+      '-preset', 'veryfast',
+      '-crf', '28',
+      '-pix_fmt', 'yuv420p',
+      // A keyframe every second keeps scrubbing responsive
+      '-g', String(Math.max(Math.round(metadata.frameRate || 30), 1)),
+      '-movflags', '+faststart'
+    ])
+    .output(outputFile)
+
+  if (metadata.audioCodec) {
+    command.outputOptions(['-c:a', 'aac', '-b:a', '96k'])
+  } else {
+    command.noAudio()
+  }
+
+  await runFfmpeg(command)
+}
@@ -0,0 +1,84 @@
+import ffmpeg from 'fluent-ffmpeg'
+import sharp from 'sharp'
+import fs from 'fs/promises'
+import { AssetType, MediaMetadata } from '@invideo-studio/shared'
+
+// ffprobe reports frame rates as fractions, e.g. '30000/1001'
+function parseFrameRate(rate?: string): number | undefined {
+  if (!rate) return undefined
+
+  const [numerator, denominator = '1'] = rate.split('/')
+  const fps = parseFloat(numerator) / parseFloat(denominator)
+  return Number.isFinite(fps) && fps > 0 ? Math.round(fps * 1000) / 1000 : undefined
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'number' ? value : parseFloat(value as string)
+  return Number.isFinite(number) ? number : undefined
+}
+
+function ffprobe(file: string): Promise<ffmpeg.FfprobeData> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(file, (err, metadata) => err ? reject(err) : resolve(metadata))
+  })
+}
+
+/**
+ * Probe an uploaded file for what the editor and renderer need to know about it.
+ * Images are read with sharp; video and audio with ffprobe.
+ */
+export async function probeMedia(file: string, type: AssetType): Promise<MediaMetadata> {
+  const { size } = await fs.stat(file)
+
+  if (type === 'image') {
+    const image = await sharp(file).metadata()
+    if (!image.width || !image.height) {
+      throw new Error('Could not read the image dimensions')
+    }
+
+    return {
+      format: image.format || 'unknown',
+      size,
+      width: image.width,
+      height: image.height
+    }
+  }
+
+  const probe = await ffprobe(file)
+  const video = probe.streams.find(stream => stream.codec_type === 'video' && !stream.disposition?.attached_pic)
+  const audio = probe.streams.find(stream => stream.codec_type === 'audio')
+
+  if (type === 'video' && !video) {
+    throw new Error('The file has no video stream')
+  }
+  if (type === 'audio' && !audio) {
+    throw new Error('The file has no audio stream')
+  }
+
+  const duration = toNumber(probe.format.duration)
+  if (!duration) {
+    throw new Error('Could not read the media duration')
+  }
+
+  const metadata: MediaMetadata = {
+    format: probe.format.format_name || 'unknown',
+    size,
+    duration,
+    bitRate: toNumber(probe.format.bit_rate)
+  }
+
+  if (type === 'video' && video) {
+    metadata.width = video.width
+    metadata.height = video.height
+    metadata.frameRate = parseFrameRate(video.avg_frame_rate) || parseFrameRate(video.r_frame_rate)
+    metadata.videoCodec = video.codec_name
+  }
+
+  if (audio) {
+    metadata.audioCodec = audio.codec_name
+    metadata.audioChannels = audio.channels
+    metadata.sampleRate = toNumber(audio.sample_rate)
+  }
+
+  return metadata
+}
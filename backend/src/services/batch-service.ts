@@ -0,0 +1,463 @@
+import { Queue, Worker, Job } from 'bullmq'
+import IORedis from 'ioredis'
+import axios from 'axios'
+import { Writable } from 'stream'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  BatchProgress,
+  BatchRequest,
+  BatchRow,
+  BatchRowProgress,
+  BatchRowStatus,
+  BatchStatus,
+  FINAL_BATCH_ROW_STATUSES,
+  Project,
+  TemplateVariable,
+  compileRenderJob,
+  findTemplateVariables,
+  instantiateTemplate,
+  validateTemplateValues
+} from '@invideo-studio/shared'
+import { AIService } from './ai-service'
+import { RenderService } from './render-service'
+import { ProjectService } from './project-service'
+import { TemplateService } from './template-service'
+import { SupabaseService } from './supabase-service'
+import { InsufficientCreditsError } from './usage-service'
+import { logger } from '../utils/logger'
+import { BatchManifest, formatManifestCsv, getOutputFileName } from './batch/manifest'
+import { ZipWriter } from './batch/zip'
+
+/**
+ * What a batch makes its variants from, snapshotted when it is queued so that
+ * later edits to the template or project don't change rows still to come
+ */
+export interface BatchSource {
+  templateId?: string
+  projectId?: string
+  name: string
+  project: Project
+  variables: TemplateVariable[]
+}
+
+// Outcome of preparing one row: a saved project with its render queued, or why not
+interface BatchRowResult {
+  projectId?: string
+  renderJobId?: string
+  error?: string
+  cancelled?: boolean
+}
+
+interface RenderJobRow {
+  id: string
+  status: string
+  metadata: { outputUrl?: string, error?: string } | null
+}
+
+interface BatchJob extends Omit<BatchRequest, 'templateId' | 'projectId' | 'name'> {
+  userId: string
+  name: string
+  source: BatchSource
+  // Per row, filled in one row at a time so a retry carries on where it stopped
+  results: (BatchRowResult | null)[]
+}
+
+const BATCH_QUEUE = 'video-batch'
+
+const RETRY_OPTIONS = {
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 5000
+  }
+}
+
+// Batches are looked up for their outputs long after they finish
+const BATCH_RETENTION = 7 * 24 * 60 * 60
+
+const redisConnection = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD
+}
+
+const RENDER_STATUSES: Record<string, BatchRowStatus> = {
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'cancelled'
+}
+
+// Kept apart from the job's data, which the worker rewrites as rows are prepared
+function getCancelKey(batchId: string): string {
+  return `${BATCH_QUEUE}:cancelled:${batchId}`
+}
+
+function getRowName(batchName: string, index: number): string {
+  return `${batchName} #${index + 1}`
+}
+
+/**
+ * Renders many variants of one template or project, one per row of data. A
+ * batch is a queue job that fills each row in, saves it as a project and
+ * queues its render; the renders then run like any other, and the batch's
+ * progress is gathered from them.
+ */
+export class BatchService {
+  private queue: Queue<BatchJob>
+  private worker?: Worker<BatchJob>
+  private redis: IORedis
+  private supabase: SupabaseService
+  private aiService: AIService
+  private renderService: RenderService
+  private projectService: ProjectService
+  private templateService: TemplateService
+
+  // Renders are queued and read through the process's RenderService rather than one of its own
+  constructor(renderService: RenderService) {
+    this.supabase = new SupabaseService()
+    this.aiService = new AIService()
+    this.renderService = renderService
+    this.projectService = new ProjectService()
+    this.templateService = new TemplateService()
+    this.queue = new Queue(BATCH_QUEUE, {
+      connection: redisConnection
+    })
+    this.redis = new IORedis(redisConnection)
+  }
+
+  /**
+   * Start preparing queued batches in this process. Called by the standalone
+   * worker (`src/worker.ts`); the renders they queue go to the render workers.
+   */
+  startWorkers() {
+    this.worker = new Worker<BatchJob>(BATCH_QUEUE, async (job) => {
+      return await this.processBatchJob(job)
+    }, {
+      connection: redisConnection,
+      concurrency: parseInt(process.env.BATCH_CONCURRENCY || '1')
+    })
+
+    this.worker.on('completed', (job) => {
+      logger.info(`Batch ${job.id} queued renders for ${job.data.rows.length} rows`)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      logger.error(`Batch ${job?.id} failed:`, err)
+    })
+  }
+
+  async close() {
+    await this.worker?.close()
+    await this.queue.close()
+    this.redis.disconnect()
+  }
+
+  /**
+   * The template or project a batch request names, with the variables its rows fill.
+   * A project's placeholders all become required text variables.
+   */
+  async getSource(request: Pick<BatchRequest, 'templateId' | 'projectId'>, userId: string): Promise<BatchSource> {
+    if (request.templateId) {
+      const template = await this.templateService.getTemplate(request.templateId, userId)
+      return {
+        templateId: template.id,
+        name: template.name,
+        project: template.project,
+        variables: template.variables
+      }
+    }
+
+    const project = await this.projectService.getProject(request.projectId!, userId)
+    return {
+      projectId: project.id!,
+      name: project.name,
+      project,
+      variables: findTemplateVariables(project).map(name => ({
+        name,
+        type: 'text',
+        label: name,
+        required: true
+      }))
+    }
+  }
+
+  async queueBatch(request: BatchRequest, source: BatchSource, userId: string): Promise<string> {
+    const batchId = uuidv4()
+    const { templateId, projectId, name, ...options } = request
+
+    await this.queue.add('batch-render', {
+      ...options,
+      userId,
+      name: name || source.name,
+      source,
+      results: request.rows.map(() => null)
+    }, {
+      jobId: batchId,
+      removeOnComplete: { age: BATCH_RETENTION },
+      removeOnFail: { age: BATCH_RETENTION },
+      ...RETRY_OPTIONS
+    })
+
+    return batchId
+  }
+
+  /**
+   * Where every row of a batch has got to, and the batch as a whole
+   */
+  async getBatchProgress(batchId: string, userId: string): Promise<BatchProgress> {
+    const job = await this.getUserJob(batchId, userId)
+    const [state, cancelled] = await Promise.all([job.getState(), this.isCancelled(batchId)])
+    const rows = await this.getRowProgress(job, state, cancelled)
+
+    const counts = Object.fromEntries(
+      (['pending', 'queued', 'rendering', ...FINAL_BATCH_ROW_STATUSES] as BatchRowStatus[]).map(status => [status, 0])
+    ) as Record<BatchRowStatus, number>
+    rows.forEach(row => counts[row.status]++)
+
+    const finished = rows.every(row => FINAL_BATCH_ROW_STATUSES.includes(row.status))
+    let status: BatchStatus
+    if (state !== 'completed' && state !== 'failed') status = 'preparing'
+    else if (!finished) status = 'rendering'
+    else if (cancelled) status = 'cancelled'
+    else if (counts.completed === rows.length) status = 'completed'
+    else if (counts.completed === 0) status = 'failed'
+    else status = 'partial'
+
+    return {
+      id: batchId,
+      name: job.data.name,
+      status,
+      percent: rows.reduce((total, row) => total + row.percent, 0) / rows.length,
+      total: rows.length,
+      counts,
+      rows,
+      createdAt: job.timestamp
+    }
+  }
+
+  /**
+   * Every row's outcome alongside the values it was given
+   */
+  async getManifest(batchId: string, userId: string): Promise<BatchManifest> {
+    const progress = await this.getBatchProgress(batchId, userId)
+    const { data } = await this.getUserJob(batchId, userId)
+
+    return {
+      ...progress,
+      templateId: data.source.templateId,
+      projectId: data.source.projectId,
+      format: data.format,
+      rows: progress.rows.map(row => ({ ...row, values: data.rows[row.index] }))
+    }
+  }
+
+  /**
+   * Write a ZIP of the batch's finished videos with its manifest, as JSON and
+   * CSV, to the output. A video that can't be fetched is left out and its row
+   * says so.
+   */
+  async writeArchive(batchId: string, userId: string, output: Writable) {
+    const manifest = await this.getManifest(batchId, userId)
+    const zip = new ZipWriter(output)
+
+    for (const row of manifest.rows) {
+      if (row.status !== 'completed' || !row.outputUrl) continue
+
+      const file = getOutputFileName(row, manifest.total, manifest.format)
+      let video
+      try {
+        video = await axios.get(row.outputUrl, { responseType: 'stream' })
+      } catch (error) {
+        logger.warn(`Failed to fetch output of batch ${batchId} row ${row.index}:`, error)
+        row.error = 'The rendered video could not be added to the archive'
+        continue
+      }
+
+      await zip.addFile(file, video.data)
+      row.file = file
+    }
+
+    await zip.addFile('manifest.json', Buffer.from(JSON.stringify(manifest, null, 2)))
+    await zip.addFile('manifest.csv', Buffer.from(formatManifestCsv(manifest)))
+    await zip.finish()
+  }
+
+  /**
+   * Stop preparing rows and cancel the renders that have not finished.
+   * Finished videos are kept.
+   */
+  async cancelBatch(batchId: string, userId: string): Promise<BatchProgress> {
+    const job = await this.getUserJob(batchId, userId)
+    await this.redis.set(getCancelKey(batchId), '1', 'EX', BATCH_RETENTION)
+
+    // Rows prepared from here on are cancelled by the worker
+    const renderJobIds = (job.data.results || []).map(result => result?.renderJobId).filter(Boolean) as string[]
+    await Promise.all(renderJobIds.map(renderJobId => this.renderService.cancelRender(renderJobId, userId).catch(() => {
+      // Already finished
+    })))
+
+    return this.getBatchProgress(batchId, userId)
+  }
+
+  private async getUserJob(batchId: string, userId: string): Promise<Job<BatchJob>> {
+    const job = await this.queue.getJob(batchId)
+    if (!job || job.data.userId !== userId) {
+      throw new Error('Batch not found')
+    }
+    return job
+  }
+
+  private async isCancelled(batchId: string): Promise<boolean> {
+    return (await this.redis.exists(getCancelKey(batchId))) === 1
+  }
+
+  private async getRowProgress(job: Job<BatchJob>, state: string, cancelled: boolean): Promise<BatchRowProgress[]> {
+    const { results } = job.data
+    const renderJobIds = results.map(result => result?.renderJobId).filter(Boolean) as string[]
+
+    // Finished renders are read from the database; the queue only keeps the latest few
+    const { data: renderJobs, error } = renderJobIds.length
+      ? await this.supabase.client.from('render_jobs').select('id, status, metadata').in('id', renderJobIds)
+      : { data: [], error: null }
+
+    if (error) {
+      logger.error('Failed to read batch render jobs:', error)
+      throw new Error('Failed to read batch progress')
+    }
+    const renderJobsById = new Map<string, RenderJobRow>((renderJobs || []).map((renderJob: RenderJobRow) => [renderJob.id, renderJob]))
+
+    return Promise.all(job.data.rows.map(async (_, index): Promise<BatchRowProgress> => {
+      const result = results[index]
+      const row = { index, name: getRowName(job.data.name, index), projectId: result?.projectId, renderJobId: result?.renderJobId }
+
+      if (!result) {
+        // The batch gave up before reaching the row
+        if (state === 'failed') return { ...row, status: 'failed', percent: 100, error: job.failedReason }
+        if (cancelled) return { ...row, status: 'cancelled', percent: 100 }
+        return { ...row, status: 'pending', percent: 0 }
+      }
+      if (result.cancelled) return { ...row, status: 'cancelled', percent: 100 }
+      if (!result.renderJobId) return { ...row, status: 'failed', percent: 100, error: result.error }
+
+      // Not in the database yet, or not any more: read its progress from the queue below
+      const renderJob = renderJobsById.get(result.renderJobId)
+      const finalStatus = renderJob && RENDER_STATUSES[renderJob.status]
+      if (renderJob && finalStatus) {
+        return {
+          ...row,
+          status: finalStatus,
+          percent: 100,
+          outputUrl: renderJob.metadata?.outputUrl,
+          error: renderJob.metadata?.error
+        }
+      }
+
+      try {
+        const progress = await this.renderService.getRenderProgress(result.renderJobId, job.data.userId)
+        const status = RENDER_STATUSES[progress.stage] || (progress.stage === 'queued' ? 'queued' : 'rendering')
+        return {
+          ...row,
+          status,
+          percent: FINAL_BATCH_ROW_STATUSES.includes(status) ? 100 : progress.percent,
+          outputUrl: progress.outputUrl,
+          error: progress.error
+        }
+      } catch {
+        // Finished and removed from the queue before its status reached the database
+        return { ...row, status: 'queued', percent: 0 }
+      }
+    }))
+  }
+
+  private async processBatchJob(job: Job<BatchJob>) {
+    const { rows } = job.data
+
+    for (const [index, row] of rows.entries()) {
+      if (job.data.results[index]) continue
+
+      let result: BatchRowResult
+      if (await this.isCancelled(job.id as string)) {
+        result = { cancelled: true }
+      } else {
+        try {
+          result = await this.prepareRow(job, row, index)
+        } catch (error) {
+          logger.warn(`Batch ${job.id} row ${index} failed:`, error)
+          const message = error instanceof Error ? error.message : String(error)
+          result = { error: message }
+
+          // The rows after it would only fail the same way
+          if (error instanceof InsufficientCreditsError) {
+            const results = job.data.results.map(existing => existing || { error: message })
+            await job.updateData({ ...job.data, results })
+            break
+          }
+        }
+      }
+
+      const results = [...job.data.results]
+      results[index] = result
+      await job.updateData({ ...job.data, results })
+      await job.updateProgress({ prepared: index + 1, total: rows.length })
+    }
+
+    return { batchId: job.id }
+  }
+
+  /**
+   * Fill one row into the source, narrate its script if asked, save the result
+   * as a project and queue its render
+   */
+  private async prepareRow(job: Job<BatchJob>, row: BatchRow, index: number): Promise<BatchRowResult> {
+    const { userId, source, voiceOver } = job.data
+
+    // Only variables are filled in; any other columns are left to the caller
+    const values: Record<string, string> = {}
+    for (const variable of source.variables) {
+      if (row[variable.name] !== undefined) values[variable.name] = row[variable.name]
+    }
+
+    // The narration is generated below, so it can't be missing yet
+    const issues = validateTemplateValues(source.variables, values)
+      .filter(issue => issue.variable !== voiceOver?.variable)
+    if (issues.length) {
+      throw new Error(issues.map(issue => issue.message).join('; '))
+    }
+
+    let narration
+    const script = voiceOver && row[voiceOver.column]?.trim()
+    if (voiceOver && script) {
+      narration = await this.aiService.generateVoice({
+        text: script,
+        voice: voiceOver.voice,
+        speed: 1,
+        pitch: 1,
+        emotion: 'neutral',
+        userId
+      })
+      values[voiceOver.variable] = narration.url
+    }
+
+    const draft = instantiateTemplate(source, values, getRowName(job.data.name, index))
+    if (narration) this.fitNarration(draft, narration.url, narration.duration)
+
+    const project = await this.projectService.createProject(userId, draft, `Generated by batch ${job.data.name}`)
+    const renderJob = compileRenderJob(project, { quality: job.data.quality, format: job.data.format })
+    const renderJobId = await this.renderService.queueRender({ ...renderJob, userId })
+
+    return { projectId: project.id!, renderJobId }
+  }
+
+  /**
+   * Trim the audio layers playing a row's narration to its length, within their scenes
+   */
+  private fitNarration(project: Project, url: string, duration: number) {
+    for (const scene of project.scenes) {
+      for (const layer of scene.layers) {
+        if (layer.type === 'audio' && layer.data.source === url) {
+          layer.duration = Math.min(duration, scene.duration - layer.startTime)
+        }
+      }
+    }
+  }
+}
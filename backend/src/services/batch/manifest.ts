@@ -0,0 +1,55 @@
+import { BatchProgress, BatchRow, BatchRowProgress, OutputFormat } from '@invideo-studio/shared'
+
+export interface BatchManifestRow extends BatchRowProgress {
+  values: BatchRow // The row as it was given
+  file?: string // Path of the video within the batch archive
+}
+
+/**
+ * Record of what a batch produced from each of its rows, served on its own and
+ * included in the batch's archive
+ */
+export interface BatchManifest extends Omit<BatchProgress, 'rows'> {
+  templateId?: string
+  projectId?: string
+  format: OutputFormat
+  rows: BatchManifestRow[]
+}
+
+const MANIFEST_COLUMNS: (keyof BatchRowProgress | 'file')[] = [
+  'index', 'name', 'status', 'projectId', 'renderJobId', 'outputUrl', 'file', 'error'
+]
+
+// Prefixed so they cannot clash with the row's own columns
+const VALUE_PREFIX = 'value:'
+
+/**
+ * Where a row's video is stored in the batch archive. Numbered from 1 so the
+ * files sort in row order.
+ */
+export function getOutputFileName(row: BatchRowProgress, total: number, format: OutputFormat): string {
+  const number = String(row.index + 1).padStart(String(total).length, '0')
+  const slug = row.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+  return `videos/${number}${slug ? `-${slug}` : ''}.${format}`
+}
+
+function escapeCsv(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * The manifest as CSV: one line per row, with its input values after the
+ * outcome so it lines up with the spreadsheet it came from
+ */
+export function formatManifestCsv(manifest: BatchManifest): string {
+  const valueColumns = Array.from(new Set(manifest.rows.flatMap(row => Object.keys(row.values))))
+  const header = [...MANIFEST_COLUMNS, ...valueColumns.map(column => `${VALUE_PREFIX}${column}`)]
+
+  const lines = manifest.rows.map(row => [
+    ...MANIFEST_COLUMNS.map(column => row[column]),
+    ...valueColumns.map(column => row.values[column])
+  ].map(escapeCsv).join(','))
+
+  return [header.map(escapeCsv).join(','), ...lines].join('\r\n') + '\r\n'
+}
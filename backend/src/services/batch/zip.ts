@@ -0,0 +1,150 @@
+import { Readable, Writable } from 'stream'
+
+/**
+ * Minimal streaming ZIP writer. Entries are stored rather than deflated, which
+ * suits rendered videos (already compressed) and lets each entry be streamed
+ * straight through with its CRC and size written after it. No ZIP64, so an
+ * archive is limited to 4 GiB.
+ */
+
+const LOCAL_HEADER = 0x04034b50
+const DATA_DESCRIPTOR = 0x08074b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+
+const VERSION = 20
+// Bit 3: CRC and sizes follow the data; bit 11: names are UTF-8
+const FLAGS = 0x0808
+const MAX_SIZE = 0xffffffff
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+  }
+  return crc >>> 0
+})
+
+function updateCrc(crc: number, chunk: Buffer): number {
+  let value = crc ^ 0xffffffff
+  for (let index = 0; index < chunk.length; index++) {
+    value = CRC_TABLE[(value ^ chunk[index]) & 0xff] ^ (value >>> 8)
+  }
+  return (value ^ 0xffffffff) >>> 0
+}
+
+function toDosTime(date: Date): { time: number, date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+interface ZipEntry {
+  name: Buffer
+  crc: number
+  size: number
+  offset: number
+  time: number
+  date: number
+}
+
+export class ZipWriter {
+  private entries: ZipEntry[] = []
+  private offset = 0
+
+  constructor(private output: Writable) {}
+
+  /**
+   * Add a file, waiting until it has been written through
+   */
+  async addFile(name: string, source: Readable | Buffer, modified = new Date()) {
+    const { time, date } = toDosTime(modified)
+    const entry: ZipEntry = { name: Buffer.from(name, 'utf8'), crc: 0, size: 0, offset: this.offset, time, date }
+
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(LOCAL_HEADER, 0)
+    header.writeUInt16LE(VERSION, 4)
+    header.writeUInt16LE(FLAGS, 6)
+    header.writeUInt16LE(0, 8) // Stored
+    header.writeUInt16LE(time, 10)
+    header.writeUInt16LE(date, 12)
+    // CRC and sizes (14-25) are left zero and given in the data descriptor
+    header.writeUInt16LE(entry.name.length, 26)
+    await this.write(Buffer.concat([header, entry.name]))
+
+    const chunks = Buffer.isBuffer(source) ? [source] : source
+    for await (const chunk of chunks) {
+      const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)
+      entry.crc = updateCrc(entry.crc, data)
+      entry.size += data.length
+      await this.write(data)
+    }
+
+    const descriptor = Buffer.alloc(16)
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0)
+    descriptor.writeUInt32LE(entry.crc, 4)
+    descriptor.writeUInt32LE(entry.size, 8)
+    descriptor.writeUInt32LE(entry.size, 12)
+    await this.write(descriptor)
+
+    this.entries.push(entry)
+  }
+
+  /**
+   * Write the central directory and end the output
+   */
+  async finish() {
+    const directoryOffset = this.offset
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46)
+      header.writeUInt32LE(CENTRAL_HEADER, 0)
+      header.writeUInt16LE(VERSION, 4) // Made by
+      header.writeUInt16LE(VERSION, 6) // Needed to extract
+      header.writeUInt16LE(FLAGS, 8)
+      header.writeUInt16LE(0, 10)
+      header.writeUInt16LE(entry.time, 12)
+      header.writeUInt16LE(entry.date, 14)
+      header.writeUInt32LE(entry.crc, 16)
+      header.writeUInt32LE(entry.size, 20)
+      header.writeUInt32LE(entry.size, 24)
+      header.writeUInt16LE(entry.name.length, 28)
+      // Extra field, comment, disk number and attributes (30-41) are zero
+      header.writeUInt32LE(entry.offset, 42)
+      await this.write(Buffer.concat([header, entry.name]))
+    }
+
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0)
+    end.writeUInt16LE(this.entries.length, 8)
+    end.writeUInt16LE(this.entries.length, 10)
+    end.writeUInt32LE(this.offset - directoryOffset, 12)
+    end.writeUInt32LE(directoryOffset, 16)
+    await this.write(end)
+
+    await new Promise<void>(resolve => this.output.end(resolve))
+  }
+
+  private async write(data: Buffer) {
+    if (this.offset + data.length > MAX_SIZE) {
+      throw new Error('Archive is larger than 4 GiB')
+    }
+    this.offset += data.length
+
+    if (!this.output.write(data)) {
+      await new Promise<void>((resolve, reject) => {
+        const onDrain = () => {
+          this.output.off('error', onError)
+          resolve()
+        }
+        const onError = (error: Error) => {
+          this.output.off('drain', onDrain)
+          reject(error)
+        }
+        this.output.once('drain', onDrain)
+        this.output.once('error', onError)
+      })
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import { RenderService } from './render-service'
+
+/**
+ * The API process's one RenderService. Each instance opens its own queues,
+ * Redis connections and queue event stream, so every route and service that
+ * reads or queues renders shares this one.
+ */
+export const renderService = new RenderService()
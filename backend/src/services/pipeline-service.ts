@@ -0,0 +1,407 @@
+import { Queue, Worker, Job, UnrecoverableError } from 'bullmq'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  CaptionWord,
+  Project,
+  StockAsset,
+  StoryboardScene,
+  compileRenderJob,
+  storyboardSceneSchema
+} from '@invideo-studio/shared'
+import { AIService } from './ai-service'
+import { RenderService } from './render-service'
+import { ProjectService } from './project-service'
+import { StockService } from './stock-service'
+import { InsufficientCreditsError } from './usage-service'
+import { logger } from '../utils/logger'
+import {
+  AspectRatio,
+  Voiceover,
+  VisualMatch,
+  assembleProject
+} from './pipeline/assemble-project'
+
+// Steps of a script-to-video run, in the order they run
+export const PIPELINE_STEPS = ['script', 'storyboard', 'voiceover', 'captions', 'visuals', 'assemble', 'render'] as const
+
+export type PipelineStep = typeof PIPELINE_STEPS[number]
+
+export type PipelineStepStatus = 'pending' | 'active' | 'completed' | 'failed' | 'skipped'
+
+export interface PipelineRequest {
+  topic: string
+  style: string
+  duration: number
+  audience: string
+  tone: string
+  additionalContext?: string
+  scenes: number
+  storyboardStyle: string
+  voice: string
+  visualStyle: string
+  mood: string
+  aspectRatio: AspectRatio
+  captions: boolean // Transcribe each voice-over into word-timed captions
+  render: boolean // Queue a draft render of the assembled project
+}
+
+// Outputs of finished steps are written into the job as each completes, so a
+// retried or resumed job carries on after the last one that finished
+interface PipelineJob extends PipelineRequest {
+  userId: string
+  completedSteps: PipelineStep[]
+  script?: string
+  storyboard?: StoryboardScene[]
+  // Per storyboard scene, filled in one scene at a time
+  voiceovers?: (Voiceover | null)[]
+  sceneCaptions?: (CaptionWord[] | null)[]
+  visuals?: (VisualMatch | null)[]
+  projectId?: string // Chosen before the project is created
+  project?: Project
+  renderJobId?: string
+}
+
+interface PipelineProgress {
+  step: PipelineStep
+  percent: number
+}
+
+const PIPELINE_QUEUE = 'video-pipeline'
+
+const RETRY_OPTIONS = {
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 5000
+  }
+}
+
+const redisConnection = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD
+}
+
+// The asset recommendation endpoint accepts at most this much content
+const MAX_VISUAL_CONTENT = 1000
+
+// Stock search limits; only the first result is used
+const MAX_STOCK_QUERY = 100
+const STOCK_RESULTS = 6
+
+function isSkipped(data: PipelineRequest, step: PipelineStep): boolean {
+  return (step === 'captions' && !data.captions) || (step === 'render' && !data.render)
+}
+
+/**
+ * Turns a topic into an editor project in one request: script, storyboard,
+ * per-scene voice-over, captions and visuals, assembled into a `Project` and
+ * optionally rendered as a draft. Each run is a queue job whose steps can be
+ * followed, and a failed run resumes from the step that failed.
+ */
+export class PipelineService {
+  private queue: Queue<PipelineJob>
+  private worker?: Worker<PipelineJob>
+  private aiService: AIService
+  private renderService: RenderService
+  private projectService: ProjectService
+  private stockService: StockService
+
+  // Renders are queued through the process's RenderService rather than one of its own
+  constructor(renderService: RenderService) {
+    this.aiService = new AIService()
+    this.renderService = renderService
+    this.projectService = new ProjectService()
+    this.stockService = new StockService()
+    this.queue = new Queue(PIPELINE_QUEUE, {
+      connection: redisConnection
+    })
+  }
+
+  /**
+   * Start running queued pipelines in this process. Called by the standalone
+   * worker (`src/worker.ts`) alongside the render workers.
+   */
+  startWorkers() {
+    this.worker = new Worker<PipelineJob>(PIPELINE_QUEUE, async (job) => {
+      return await this.processPipelineJob(job)
+    }, {
+      connection: redisConnection,
+      concurrency: parseInt(process.env.PIPELINE_CONCURRENCY || '2')
+    })
+
+    this.worker.on('completed', (job) => {
+      logger.info(`Pipeline job ${job.id} completed for topic "${job.data.topic}"`)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      logger.error(`Pipeline job ${job?.id} failed:`, err)
+    })
+  }
+
+  async close() {
+    await this.worker?.close()
+    await this.queue.close()
+    await this.stockService.close()
+  }
+
+  async queuePipeline(request: PipelineRequest, userId: string): Promise<string> {
+    const jobId = uuidv4()
+
+    await this.queue.add('script-to-video', { ...request, userId, completedSteps: [] }, {
+      jobId,
+      removeOnComplete: 50,
+      // Failed runs are kept so they can be resumed
+      removeOnFail: 100,
+      ...RETRY_OPTIONS
+    })
+
+    return jobId
+  }
+
+  async getPipelineStatus(jobId: string, userId: string) {
+    const job = await this.getUserJob(jobId, userId)
+    const state = await job.getState()
+    const current = PIPELINE_STEPS.find(step => !job.data.completedSteps.includes(step) && !isSkipped(job.data, step))
+
+    const steps = PIPELINE_STEPS.map(step => {
+      let status: PipelineStepStatus = 'pending'
+      if (job.data.completedSteps.includes(step)) status = 'completed'
+      else if (isSkipped(job.data, step)) status = 'skipped'
+      else if (step === current && state === 'failed') status = 'failed'
+      else if (step === current && state === 'active') status = 'active'
+
+      return { step, status }
+    })
+
+    return {
+      id: jobId,
+      status: state,
+      step: current,
+      steps,
+      progress: state === 'completed' ? 100 : (job.progress as PipelineProgress)?.percent || 0,
+      attemptsMade: job.attemptsMade,
+      createdAt: job.timestamp,
+      finishedAt: job.finishedOn,
+      failedReason: job.failedReason,
+      script: job.data.script,
+      project: job.data.project,
+      renderJobId: job.data.renderJobId
+    }
+  }
+
+  /**
+   * Re-run a failed pipeline from the step that failed
+   */
+  async resumePipeline(jobId: string, userId: string) {
+    const job = await this.getUserJob(jobId, userId)
+    const state = await job.getState()
+    if (state !== 'failed') {
+      throw new Error('Only failed pipeline jobs can be resumed')
+    }
+
+    await job.retry('failed')
+    return this.getPipelineStatus(jobId, userId)
+  }
+
+  private async getUserJob(jobId: string, userId: string): Promise<Job<PipelineJob>> {
+    const job = await this.queue.getJob(jobId)
+    if (!job || job.data.userId !== userId) {
+      throw new Error('Pipeline job not found')
+    }
+    return job
+  }
+
+  private async processPipelineJob(job: Job<PipelineJob>) {
+    const steps = PIPELINE_STEPS.filter(step => !isSkipped(job.data, step))
+
+    for (const [index, step] of steps.entries()) {
+      if (job.data.completedSteps.includes(step)) continue
+
+      const progress: PipelineProgress = { step, percent: (index / steps.length) * 100 }
+      await job.updateProgress(progress)
+      logger.info(`Pipeline job ${job.id}: ${step}`)
+
+      try {
+        await this.runStep(job, step)
+      } catch (error) {
+        // Retrying won't help until the user has credits again; they can resume then
+        if (error instanceof InsufficientCreditsError) throw new UnrecoverableError(error.message)
+        throw error
+      }
+      await this.saveOutputs(job, { completedSteps: [...job.data.completedSteps, step] })
+    }
+
+    return {
+      project: job.data.project,
+      renderJobId: job.data.renderJobId
+    }
+  }
+
+  private async saveOutputs(job: Job<PipelineJob>, outputs: Partial<PipelineJob>) {
+    await job.updateData({ ...job.data, ...outputs })
+  }
+
+  private async runStep(job: Job<PipelineJob>, step: PipelineStep) {
+    const { userId } = job.data
+
+    switch (step) {
+      case 'script': {
+        const script = await this.aiService.generateScript({
+          topic: job.data.topic,
+          style: job.data.style,
+          duration: job.data.duration,
+          audience: job.data.audience,
+          tone: job.data.tone,
+          additionalContext: job.data.additionalContext,
+          userId
+        })
+        await this.saveOutputs(job, { script: script.content })
+        break
+      }
+
+      case 'storyboard': {
+        const storyboard = await this.aiService.generateStoryboard({
+          script: job.data.script!,
+          targetScenes: job.data.scenes,
+          style: job.data.storyboardStyle,
+          includeTransitions: true,
+          userId
+        })
+        const scenes = storyboard.scenes.map(scene => storyboardSceneSchema.parse(scene))
+        await this.saveOutputs(job, { storyboard: scenes })
+        break
+      }
+
+      case 'voiceover':
+        await this.forEachScene(job, 'voiceovers', async (scene) => {
+          if (!scene.dialogue) return null
+
+          const voice = await this.aiService.generateVoice({
+            text: scene.dialogue,
+            voice: job.data.voice,
+            speed: 1,
+            pitch: 1,
+            emotion: 'neutral',
+            userId
+          })
+          return {
+            url: voice.url,
+            duration: voice.duration,
+            // Provider timings make transcribing the voice-over unnecessary
+            words: voice.timing.source === 'aligned' ? voice.timing.words : undefined
+          }
+        })
+        break
+
+      case 'captions':
+        await this.forEachScene(job, 'sceneCaptions', async (_scene, index) => {
+          const voiceover = job.data.voiceovers?.[index]
+          if (!voiceover) return null
+          if (voiceover.words?.length) return voiceover.words
+
+          const subtitles = await this.aiService.generateSubtitles({
+            audioUrl: voiceover.url,
+            language: 'en',
+            format: 'json',
+            userId
+          })
+          return subtitles.words
+        })
+        break
+
+      case 'visuals':
+        await this.forEachScene(job, 'visuals', async (scene) => {
+          const content = (scene.visualDescription || scene.dialogue).slice(0, MAX_VISUAL_CONTENT)
+          if (!content) return null
+
+          const recommendations = await this.aiService.getAssetRecommendations({
+            content,
+            type: 'image',
+            style: job.data.visualStyle,
+            mood: job.data.mood,
+            userId
+          })
+          const searchTerms = recommendations.searchTerms || []
+          const asset = await this.findStockImage(searchTerms)
+          return {
+            description: recommendations.assets?.[0]?.description || scene.visualDescription,
+            searchTerms,
+            source: asset?.url,
+            attribution: asset?.attribution
+          }
+        })
+        break
+
+      case 'assemble': {
+        // Saved as a project of its own so it opens in the editor. Its id is
+        // recorded first, so a retry after creating it picks the project up
+        // rather than making another.
+        const projectId = job.data.projectId || uuidv4()
+        if (!job.data.projectId) await this.saveOutputs(job, { projectId })
+
+        const existing = await this.projectService.getProject(projectId, userId).catch(() => null)
+        const project = existing || await this.projectService.createProject(userId, assembleProject({
+          name: job.data.topic,
+          aspectRatio: job.data.aspectRatio,
+          storyboard: job.data.storyboard!,
+          voiceovers: job.data.voiceovers || [],
+          captions: job.data.sceneCaptions || [],
+          visuals: job.data.visuals || []
+        }), 'Generated from a script', projectId)
+        await this.saveOutputs(job, { project })
+        break
+      }
+
+      case 'render': {
+        const renderJob = compileRenderJob(job.data.project!, { quality: 'draft', format: 'mp4' })
+        const renderJobId = await this.renderService.queueRender({ ...renderJob, userId })
+        await this.saveOutputs(job, { renderJobId })
+        break
+      }
+    }
+  }
+
+  /**
+   * First stock image found for the search terms, trying each in turn. A scene
+   * keeps its placeholder when none is found or no stock provider is configured.
+   */
+  private async findStockImage(searchTerms: string[]): Promise<StockAsset | null> {
+    if (!this.stockService.getProviders().length) return null
+
+    for (const term of searchTerms) {
+      try {
+        const { results } = await this.stockService.search({
+          query: term.slice(0, MAX_STOCK_QUERY),
+          type: 'image',
+          page: 1,
+          perPage: STOCK_RESULTS
+        })
+        if (results.length) return results[0]
+      } catch (error) {
+        logger.warn(`Stock search for "${term}" failed:`, error)
+      }
+    }
+    return null
+  }
+
+  /**
+   * Run a per-scene step, saving each scene's result as it arrives so a retry
+   * only repeats the scenes that had not finished
+   */
+  private async forEachScene<K extends 'voiceovers' | 'sceneCaptions' | 'visuals'>(
+    job: Job<PipelineJob>,
+    key: K,
+    run: (scene: StoryboardScene, index: number) => Promise<NonNullable<PipelineJob[K]>[number]>
+  ) {
+    const storyboard = job.data.storyboard!
+
+    for (const [index, scene] of storyboard.entries()) {
+      const results: unknown[] = [...(job.data[key] || [])]
+      if (results[index] !== undefined) continue
+
+      results[index] = await run(scene, index)
+      await this.saveOutputs(job, { [key]: results })
+    }
+  }
+}
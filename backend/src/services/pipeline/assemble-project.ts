@@ -0,0 +1,70 @@
+import {
+  PROJECT_SCHEMA_VERSION,
+  CaptionWord,
+  Project,
+  StoryboardScene,
+  StoryboardVisual,
+  projectSchema,
+  storyboardToScenes
+} from '@invideo-studio/shared'
+
+export type AspectRatio = '16:9' | '9:16' | '1:1'
+
+export interface Voiceover {
+  url: string
+  duration: number
+  words?: CaptionWord[] // When the speech provider reported them
+}
+
+// The stock image found for a scene's description, when there was one
+export type VisualMatch = StoryboardVisual
+
+export interface ProjectDraft {
+  name: string
+  aspectRatio: AspectRatio
+  storyboard: StoryboardScene[]
+  // Per storyboard scene; null where the step produced nothing for it
+  voiceovers: (Voiceover | null)[]
+  captions: (CaptionWord[] | null)[]
+  visuals: (VisualMatch | null)[]
+}
+
+const FRAME_SIZES: Record<AspectRatio, { width: number, height: number }> = {
+  '16:9': { width: 1920, height: 1080 },
+  '9:16': { width: 1080, height: 1920 },
+  '1:1': { width: 1080, height: 1080 }
+}
+
+/**
+ * Assemble the outputs of a script-to-video run into an editor project: the
+ * storyboard's scenes, timed to their voice-overs, with captions over the
+ * matched visual (or a placeholder where none was found)
+ */
+export function assembleProject(draft: ProjectDraft): Project {
+  const frame = FRAME_SIZES[draft.aspectRatio]
+  const scenes = storyboardToScenes(draft.storyboard, frame, draft.storyboard.map((_, index) => {
+    const voiceover = draft.voiceovers[index]
+    return {
+      voiceover: voiceover && { source: voiceover.url, duration: voiceover.duration },
+      words: draft.captions[index],
+      visual: draft.visuals[index]
+    }
+  }))
+  const now = new Date()
+
+  return projectSchema.parse({
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    id: null,
+    name: draft.name,
+    ...frame,
+    frameRate: 30,
+    duration: scenes.reduce((total, scene) => total + scene.duration, 0),
+    scenes,
+    settings: {
+      quality: '1080p',
+      format: 'mp4'
+    },
+    createdAt: now,
+    updatedAt: now
+  })
+}
@@ -0,0 +1,316 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  Project,
+  ProjectDiff,
+  ProjectVersionSummary,
+  diffProjects,
+  migrateProject
+} from '@invideo-studio/shared'
+import { SupabaseService } from './supabase-service'
+import { logger } from '../utils/logger'
+import { escapeLike } from '../utils/escape-like'
+
+interface ProjectRow {
+  id: string
+  user_id: string
+  name: string
+  json_data: unknown
+  status: string
+  current_version: number
+  created_at: string
+  updated_at: string
+}
+
+interface VersionRow {
+  version: number
+  json_data: unknown
+  message: string | null
+  restored_from: number | null
+  created_at: string
+}
+
+export interface ProjectListOptions {
+  page: number
+  pageSize: number
+  search?: string
+}
+
+const PROJECTS_TABLE = 'projects'
+const VERSIONS_TABLE = 'project_versions'
+
+const SUMMARY_COLUMNS = 'id, name, status, current_version, created_at, updated_at'
+
+export class ProjectService {
+  private supabase: SupabaseService
+
+  constructor() {
+    this.supabase = new SupabaseService()
+  }
+
+  async listProjects(userId: string, options: ProjectListOptions) {
+    const from = (options.page - 1) * options.pageSize
+
+    let query = this.supabase.client
+      .from(PROJECTS_TABLE)
+      .select(SUMMARY_COLUMNS, { count: 'exact' })
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .range(from, from + options.pageSize - 1)
+
+    if (options.search) {
+      query = query.ilike('name', `%${escapeLike(options.search)}%`)
+    }
+
+    const { data, error, count } = await query
+    if (error) {
+      logger.error('Failed to list projects:', error)
+      throw new Error('Failed to list projects')
+    }
+
+    return {
+      projects: (data || []).map(row => ({
+        id: row.id,
+        name: row.name,
+        status: row.status,
+        version: row.current_version,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+      })),
+      page: options.page,
+      pageSize: options.pageSize,
+      total: count || 0
+    }
+  }
+
+  /**
+   * The project's latest version, upgraded to the current schema
+   */
+  async getProject(projectId: string, userId: string): Promise<Project> {
+    const row = await this.getProjectRow(projectId, userId)
+    return this.toProject(row)
+  }
+
+  /**
+   * Save a new project. Callers that may retry pass the id so a second attempt
+   * can't create a duplicate.
+   */
+  async createProject(userId: string, project: Project, message?: string, id: string = uuidv4()): Promise<Project> {
+    const now = new Date()
+    const saved: Project = { ...project, id, createdAt: now, updatedAt: now }
+
+    const { error } = await this.supabase.client
+      .from(PROJECTS_TABLE)
+      .insert({
+        id,
+        user_id: userId,
+        name: saved.name,
+        json_data: saved,
+        status: 'draft',
+        current_version: 1,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString()
+      })
+
+    if (error) {
+      logger.error('Failed to create project:', error)
+      throw new Error('Failed to create project')
+    }
+
+    await this.insertVersion(id, userId, 1, saved, { message: message || 'Created' })
+    return saved
+  }
+
+  /**
+   * Save a new version of the project. Earlier versions stay as they were.
+   */
+  async updateProject(projectId: string, userId: string, project: Project, message?: string): Promise<Project> {
+    const row = await this.getProjectRow(projectId, userId)
+    return this.saveVersion(row, userId, project, { message })
+  }
+
+  /**
+   * Delete the project. Its versions go with it: project_versions.project_id
+   * cascades on delete, so the history is never left without its project or
+   * removed while the project stays.
+   */
+  async deleteProject(projectId: string, userId: string) {
+    await this.getProjectRow(projectId, userId)
+
+    const { error } = await this.supabase.client
+      .from(PROJECTS_TABLE)
+      .delete()
+      .eq('id', projectId)
+      .eq('user_id', userId)
+
+    if (error) {
+      logger.error('Failed to delete project:', error)
+      throw new Error('Failed to delete project')
+    }
+  }
+
+  /**
+   * Copy the project's latest version into a new project with a history of its own
+   */
+  async duplicateProject(projectId: string, userId: string, name?: string): Promise<Project> {
+    const source = await this.getProject(projectId, userId)
+    return this.createProject(userId, { ...source, name: name || `${source.name} (copy)` }, `Duplicated from ${source.name}`)
+  }
+
+  async listVersions(projectId: string, userId: string): Promise<ProjectVersionSummary[]> {
+    await this.getProjectRow(projectId, userId)
+
+    const { data, error } = await this.supabase.client
+      .from(VERSIONS_TABLE)
+      .select('version, message, restored_from, created_at')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      logger.error('Failed to list project versions:', error)
+      throw new Error('Failed to list project versions')
+    }
+
+    return (data || []).map(row => ({
+      version: row.version,
+      message: row.message,
+      restoredFrom: row.restored_from,
+      createdAt: row.created_at
+    }))
+  }
+
+  async getVersion(projectId: string, userId: string, version: number): Promise<Project> {
+    await this.getProjectRow(projectId, userId)
+    const row = await this.getVersionRow(projectId, version)
+    return migrateProject(row.json_data)
+  }
+
+  /**
+   * What changed from one version to another; `to` defaults to the latest
+   */
+  async diffVersions(projectId: string, userId: string, from: number, to?: number): Promise<ProjectDiff & { from: number, to: number }> {
+    const row = await this.getProjectRow(projectId, userId)
+    const target = to ?? row.current_version
+
+    const [before, after] = await Promise.all([
+      this.getVersionRow(projectId, from),
+      this.getVersionRow(projectId, target)
+    ])
+
+    return {
+      from,
+      to: target,
+      ...diffProjects(migrateProject(before.json_data), migrateProject(after.json_data))
+    }
+  }
+
+  /**
+   * Make an old version the latest again by saving it as a new version, so
+   * the versions after it are kept and the restore can itself be undone
+   */
+  async restoreVersion(projectId: string, userId: string, version: number): Promise<Project> {
+    const row = await this.getProjectRow(projectId, userId)
+    const snapshot = migrateProject((await this.getVersionRow(projectId, version)).json_data)
+
+    return this.saveVersion(row, userId, snapshot, {
+      message: `Restored version ${version}`,
+      restoredFrom: version
+    })
+  }
+
+  private async saveVersion(
+    row: ProjectRow,
+    userId: string,
+    project: Project,
+    options: { message?: string, restoredFrom?: number }
+  ): Promise<Project> {
+    const now = new Date()
+    const version = row.current_version + 1
+    const saved: Project = {
+      ...project,
+      id: row.id,
+      createdAt: new Date(row.created_at),
+      updatedAt: now
+    }
+
+    // The (project_id, version) key rejects a concurrent save of the same version
+    await this.insertVersion(row.id, userId, version, saved, options)
+
+    const { error } = await this.supabase.client
+      .from(PROJECTS_TABLE)
+      .update({
+        name: saved.name,
+        json_data: saved,
+        current_version: version,
+        updated_at: now.toISOString()
+      })
+      .eq('id', row.id)
+      .eq('user_id', userId)
+
+    if (error) {
+      logger.error('Failed to save project:', error)
+      throw new Error('Failed to save project')
+    }
+
+    return saved
+  }
+
+  private async insertVersion(
+    projectId: string,
+    userId: string,
+    version: number,
+    project: Project,
+    options: { message?: string, restoredFrom?: number }
+  ) {
+    const { error } = await this.supabase.client
+      .from(VERSIONS_TABLE)
+      .insert({
+        project_id: projectId,
+        version,
+        json_data: project,
+        message: options.message || null,
+        restored_from: options.restoredFrom ?? null,
+        created_by: userId,
+        created_at: new Date().toISOString()
+      })
+
+    if (error) {
+      logger.error(`Failed to save version ${version} of project ${projectId}:`, error)
+      throw new Error('Failed to save project version')
+    }
+  }
+
+  private async getProjectRow(projectId: string, userId: string): Promise<ProjectRow> {
+    const { data, error } = await this.supabase.client
+      .from(PROJECTS_TABLE)
+      .select('*')
+      .eq('id', projectId)
+      .eq('user_id', userId)
+      .single()
+
+    if (error || !data) {
+      throw new Error('Project not found')
+    }
+
+    return data
+  }
+
+  private async getVersionRow(projectId: string, version: number): Promise<VersionRow> {
+    const { data, error } = await this.supabase.client
+      .from(VERSIONS_TABLE)
+      .select('version, json_data, message, restored_from, created_at')
+      .eq('project_id', projectId)
+      .eq('version', version)
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Version ${version} not found`)
+    }
+
+    return data
+  }
+
+  private toProject(row: ProjectRow): Project {
+    // Older saved projects are upgraded to the current schema on read
+    return migrateProject({ ...(row.json_data as object), id: row.id })
+  }
+}
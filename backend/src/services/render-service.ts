@@ -1,125 +1,326 @@
 import ffmpeg from 'fluent-ffmpeg'
-import { Queue, Worker, Job } from 'bullmq'
+import { Queue, QueueEvents, Worker, FlowProducer, Job, UnrecoverableError } from 'bullmq'
+import IORedis from 'ioredis'
 import { SupabaseService } from './supabase-service'
+import { UsageService } from './usage-service'
 import { logger } from '../utils/logger'
 import fs from 'fs/promises'
 import path from 'path'
 import { v4 as uuidv4 } from 'uuid'
 import sharp from 'sharp'
+import {
+  RenderJobRequest,
+  RenderScene as Scene,
+  RenderLayer as Layer,
+  RenderSettings,
+  RenderProgress,
+  RenderStage,
+  AudioRole,
+  FINAL_RENDER_STAGES,
+  ADMIN_JOB_STATES,
+  AdminJob,
+  AdminJobState,
+  AdminQueue,
+  QueueCounts,
+  RenderQueueOverview,
+  WorkerStats,
+  resolveBoundaryTransitions,
+  getTotalDuration,
+  getSceneOffsets
+} from '@invideo-studio/shared'
+import { hasOverlappingTransitions, buildTransitionFilter } from './render/transitions'
+import { compileKeyframes, isAnimated, getMaxValue, formatNumber } from './render/keyframes'
+import {
+  getTimemarkFraction,
+  getRenderingFraction,
+  getJobPercent,
+  estimateRemainingSeconds,
+  estimateRenderSeconds
+} from './render/progress'
+import {
+  AudioTrack,
+  TimeRange,
+  buildSceneAudioFilter,
+  buildBackgroundMusicFilter
+} from './render/audio-mix'
+import { SceneCache } from './render/scene-cache'
+import { RenderMetrics, getWorkerName } from './render/metrics'
+import { renderTextImage } from './render/text'
+import { rasterizeCaptionLayer } from './render/captions'
 
-interface RenderJob {
-  projectId: string
+interface RenderJob extends RenderJobRequest {
   userId: string
-  scenes: Scene[]
-  settings: RenderSettings
-  outputFormat: string
-  quality: string
+  cancelled?: boolean // Set when a cancel arrives while scenes are rendering
 }
 
-interface Scene {
-  id: string
-  duration: number
-  layers: Layer[]
-  transitions?: Transition[]
+// One scene of a render. Scenes are child jobs of the render so they can run
+// in parallel on any worker.
+interface SceneRenderJob {
+  renderJobId: string
+  sceneIndex: number
 }
 
-interface Layer {
-  id: string
-  type: 'video' | 'image' | 'text' | 'audio'
-  startTime: number
-  duration: number
-  x: number
-  y: number
-  width: number
-  height: number
-  content?: string
-  source?: string
-  style?: any
-  effects?: any[]
+interface SceneRenderResult {
+  sceneIndex: number
+  file: string
 }
 
-interface Transition {
-  type: 'fade' | 'cut' | 'slide' | 'zoom' | 'wipe'
-  duration: number
+// Called with the fraction (0-1) of an FFmpeg run that is done
+type ProgressCallback = (fraction: number) => void
+
+// FFmpeg reports progress several times a second; don't write every update to Redis
+const PROGRESS_REPORT_INTERVAL = 1000
+
+const RENDER_QUEUE = 'video-render'
+const SCENE_QUEUE = 'video-render-scenes'
+
+// Scenes retry on their own, so a render job's retries only repeat assembling its finished scenes
+const RETRY_OPTIONS = {
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 5000
+  }
+}
+
+// Cancelled jobs fail with this reason so they are not retried and clients can tell them apart
+const RENDER_CANCELLED = 'Render cancelled'
+
+// Pub/sub channel telling every worker process which active job to abort
+const CANCEL_CHANNEL = 'video-render:cancel'
+
+// Per-scene progress outlives a render only long enough to be cleaned up
+const SCENE_PROGRESS_TTL = 24 * 60 * 60
+
+const redisConnection = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD
+}
+
+// BullMQ job states mapped onto the stages reported to clients
+const STATE_STAGES: Record<string, RenderStage> = {
+  waiting: 'queued',
+  'waiting-children': 'queued',
+  prioritized: 'queued',
+  delayed: 'queued',
+  active: 'processing',
+  completed: 'completed',
+  failed: 'failed'
 }
 
-interface RenderSettings {
-  width: number
-  height: number
-  frameRate: number
-  bitrate?: string
-  audioSampleRate?: number
-  quality: 'draft' | 'standard' | 'high' | 'ultra'
+function getStage(job: Job<RenderJob>, state: string): RenderStage {
+  // Cancelling while scenes render fails the job through its cancelled scenes
+  if (state === 'failed' && (job.data.cancelled || job.failedReason === RENDER_CANCELLED)) return 'cancelled'
+  return STATE_STAGES[state] || 'queued'
+}
+
+function getSceneJobId(renderJobId: string, sceneIndex: number): string {
+  return `${renderJobId}-scene-${sceneIndex}`
+}
+
+function getSceneProgressKey(renderJobId: string): string {
+  return `${RENDER_QUEUE}:scene-progress:${renderJobId}`
+}
+
+// BullMQ fails a render whose scene ran out of attempts with "child <job key> failed"
+function getFailureMessage(failedReason: string): string {
+  return failedReason.startsWith('child ') ? 'A scene failed to render' : failedReason
 }
 
 export class RenderService {
-  private renderQueue: Queue
+  private renderQueue: Queue<RenderJob>
+  private sceneQueue: Queue<SceneRenderJob>
+  private flowProducer: FlowProducer
+  private queueEvents: QueueEvents
+  private redis: IORedis
+  private sceneCache: SceneCache
+  private metrics: RenderMetrics
+  private subscriber?: IORedis
+  private workers: Worker[] = []
   private supabase: SupabaseService
+  private usage: UsageService
   private tempDir: string
+  private renderDir: string
   private outputDir: string
 
   constructor() {
     this.supabase = new SupabaseService()
+    this.usage = new UsageService()
     this.tempDir = process.env.TEMP_DIR || '/app/temp'
+    // Scene files are handed from the workers that render them to the one that
+    // joins them, so this must be a volume shared by every worker process
+    this.renderDir = process.env.RENDER_WORK_DIR || '/app/cache/renders'
     this.outputDir = process.env.OUTPUT_DIR || '/app/uploads'
     
     // Initialize BullMQ
-    this.renderQueue = new Queue('video-render', {
-      connection: {
-        host: process.env.REDIS_HOST || 'localhost',
-        port: parseInt(process.env.REDIS_PORT || '6379'),
-        password: process.env.REDIS_PASSWORD
-      },
-      defaultJobOptions: {
-        removeOnComplete: 10,
-        removeOnFail: 5,
-        attempts: 3,
-        backoff: {
-          type: 'exponential',
-          delay: 5000
-        }
-      }
+    this.renderQueue = new Queue(RENDER_QUEUE, {
+      connection: redisConnection
+    })
+
+    // Only read from and managed here; scenes are added with their renders
+    this.sceneQueue = new Queue(SCENE_QUEUE, {
+      connection: redisConnection
+    })
+
+    // Adds each render together with its scenes as child jobs
+    this.flowProducer = new FlowProducer({
+      connection: redisConnection
     })
 
-    this.initializeWorker()
+    // Job lifecycle events from every worker, used to stream progress to clients
+    this.queueEvents = new QueueEvents(RENDER_QUEUE, {
+      connection: redisConnection
+    })
+    this.queueEvents.setMaxListeners(0)
+    this.redis = new IORedis(redisConnection)
+    this.sceneCache = new SceneCache(this.redis)
+    this.metrics = new RenderMetrics(this.redis)
   }
 
-  private initializeWorker() {
-    const worker = new Worker('video-render', async (job: Job<RenderJob>) => {
-      return await this.processRenderJob(job)
+  /**
+   * Start rendering queued jobs in this process. Called by the standalone worker
+   * (`src/worker.ts`) so renders scale separately from the API; run as many
+   * worker processes as needed.
+   */
+  startWorkers() {
+    const concurrency = parseInt(process.env.RENDER_CONCURRENCY || '2')
+    // Both workers of this process report under one name on the admin dashboard
+    const name = getWorkerName()
+
+    const sceneWorker = new Worker<SceneRenderJob, SceneRenderResult>(SCENE_QUEUE, async (job, _token, signal) => {
+      return await this.processSceneJob(job, signal)
     }, {
-      connection: {
-        host: process.env.REDIS_HOST || 'localhost',
-        port: parseInt(process.env.REDIS_PORT || '6379'),
-        password: process.env.REDIS_PASSWORD
-      },
-      concurrency: parseInt(process.env.RENDER_CONCURRENCY || '2')
+      connection: redisConnection,
+      concurrency,
+      name
+    })
+
+    // Picks up a render once all of its scenes have rendered
+    const renderWorker = new Worker<RenderJob>(RENDER_QUEUE, async (job, _token, signal) => {
+      return await this.processRenderJob(job, signal)
+    }, {
+      connection: redisConnection,
+      concurrency,
+      name
+    })
+
+    sceneWorker.on('failed', (job, err) => {
+      logger.error(`Scene ${job?.data.sceneIndex} of render job ${job?.data.renderJobId} failed:`, err)
+      if (!job) return
+
+      // A scene out of attempts (or cancelled) fails its render without the
+      // render's processor ever running, so nothing else finishes it
+      this.finishFailedRender(job.data.renderJobId).catch(error => {
+        logger.warn(`Failed to clean up render job ${job.data.renderJobId}:`, error)
+      })
     })
 
-    worker.on('completed', (job) => {
+    renderWorker.on('completed', (job) => {
       logger.info(`Render job ${job.id} completed for project ${job.data.projectId}`)
     })
 
-    worker.on('failed', (job, err) => {
+    renderWorker.on('failed', (job, err) => {
       logger.error(`Render job ${job?.id} failed:`, err)
+      if (!job) return
+
+      this.finishFailedRender(job.id as string).catch(error => {
+        logger.warn(`Failed to clean up render job ${job.id}:`, error)
+      })
     })
 
-    worker.on('progress', (job, progress) => {
-      logger.info(`Render job ${job.id} progress: ${progress}%`)
+    this.metrics.registerWorker(name, ['scene', 'render']).catch(error => {
+      logger.warn('Failed to register render worker metrics:', error)
     })
+
+    for (const worker of [sceneWorker, renderWorker]) {
+      worker.on('completed', job => this.recordWorkerJob(name, 'completed', job))
+      worker.on('failed', job => job && this.recordWorkerJob(name, 'failed', job))
+    }
+
+    renderWorker.on('progress', (job, progress) => {
+      const { stage, percent } = progress as RenderProgress
+      logger.info(`Render job ${job.id} ${stage}: ${Math.round(percent)}%`)
+    })
+
+    // Abort the job's processor (and with it any running FFmpeg) when it is
+    // cancelled, whichever process the cancel request arrived at
+    this.subscriber = new IORedis(redisConnection)
+    this.subscriber.subscribe(CANCEL_CHANNEL)
+    this.subscriber.on('message', (_channel, jobId) => {
+      if (renderWorker.cancelJob(jobId, RENDER_CANCELLED) || sceneWorker.cancelJob(jobId, RENDER_CANCELLED)) {
+        logger.info(`Cancelling render job ${jobId}`)
+      }
+    })
+
+    this.workers = [sceneWorker, renderWorker]
+  }
+
+  /**
+   * Let running jobs finish, then close every connection
+   */
+  async close() {
+    await Promise.all(this.workers.map(worker => worker.close()))
+    this.subscriber?.disconnect()
+
+    await Promise.all([
+      this.renderQueue.close(),
+      this.sceneQueue.close(),
+      this.flowProducer.close(),
+      this.queueEvents.close()
+    ])
+    this.redis.disconnect()
   }
 
   async queueRender(renderJob: RenderJob): Promise<string> {
-    const job = await this.renderQueue.add('render-video', renderJob, {
-      priority: this.getPriority(renderJob.settings.quality),
-      delay: 0
+    await this.usage.assertCredits(renderJob.userId, 'render', {
+      duration: getTotalDuration(renderJob.scenes),
+      quality: renderJob.settings.quality
+    })
+
+    return this.addRender(renderJob)
+  }
+
+  /**
+   * Add a render with its scenes to the queues and record it. Credits must
+   * already have been checked.
+   */
+  private async addRender(renderJob: RenderJob): Promise<string> {
+    const jobId = uuidv4()
+    const priority = this.getPriority(renderJob.settings.quality)
+
+    await this.flowProducer.add({
+      name: 'render-video',
+      queueName: RENDER_QUEUE,
+      data: renderJob,
+      opts: {
+        jobId,
+        priority,
+        removeOnComplete: 10,
+        removeOnFail: 5,
+        ...RETRY_OPTIONS
+      },
+      children: renderJob.scenes.map((_, sceneIndex) => ({
+        name: 'render-scene',
+        queueName: SCENE_QUEUE,
+        data: { renderJobId: jobId, sceneIndex },
+        opts: {
+          jobId: getSceneJobId(jobId, sceneIndex),
+          priority,
+          removeOnComplete: 50,
+          removeOnFail: 20,
+          // A scene that runs out of attempts fails the whole render
+          failParentOnFailure: true,
+          ...RETRY_OPTIONS
+        }
+      }))
     })
 
     // Store job info in database
     await this.supabase.client
       .from('render_jobs')
       .insert({
-        id: job.id,
+        id: jobId,
         project_id: renderJob.projectId,
         user_id: renderJob.userId,
         status: 'queued',
@@ -127,43 +328,111 @@ export class RenderService {
         created_at: new Date().toISOString()
       })
 
-    return job.id as string
+    return jobId
   }
 
-  async getRenderStatus(jobId: string) {
-    const job = await this.renderQueue.getJob(jobId)
-    if (!job) {
-      throw new Error('Render job not found')
-    }
+  async getRenderStatus(jobId: string, userId: string) {
+    const job = await this.getUserJob(jobId, userId)
 
     const state = await job.getState()
-    const progress = job.progress || 0
+    const stage = getStage(job, state)
+    const progress = FINAL_RENDER_STAGES.includes(stage) ? undefined : this.getRunningProgress(job)
 
     return {
       id: jobId,
       status: state,
-      progress,
+      stage: progress?.stage || stage,
+      progress: state === 'completed' ? 100 : progress?.percent || 0,
+      etaSeconds: progress?.etaSeconds,
       createdAt: job.timestamp,
       processedAt: job.processedOn,
       finishedAt: job.finishedOn,
-      failedReason: job.failedReason,
+      failedReason: job.failedReason && getFailureMessage(job.failedReason),
       returnValue: job.returnvalue
     }
   }
 
-  async cancelRender(jobId: string) {
-    const job = await this.renderQueue.getJob(jobId)
-    if (!job) {
-      throw new Error('Render job not found')
+  /**
+   * Up-front estimate of how long a job will take to render once a worker picks it up
+   */
+  estimateRenderTime(renderJob: RenderJobRequest): number {
+    return estimateRenderSeconds(getTotalDuration(renderJob.scenes), renderJob.settings.quality)
+  }
+
+  /**
+   * Current progress of a job, for clients that start listening part-way through
+   */
+  async getRenderProgress(jobId: string, userId: string): Promise<RenderProgress> {
+    const job = await this.getUserJob(jobId, userId)
+    return this.getJobProgress(job)
+  }
+
+  /**
+   * Listen for a job's progress until it finishes. Returns a function that
+   * removes the listeners. Check that the job is the user's before calling.
+   */
+  subscribeToProgress(jobId: string, listener: (progress: RenderProgress) => void): () => void {
+    const onProgress = (args: { jobId: string; data: unknown }) => {
+      if (args.jobId === jobId && typeof args.data === 'object') listener(args.data as RenderProgress)
+    }
+    // QueueEvents parses the return value even though it is typed as a string
+    const onCompleted = (args: { jobId: string; returnvalue: any }) => {
+      if (args.jobId === jobId) {
+        listener({ jobId, stage: 'completed', percent: 100, outputUrl: args.returnvalue?.outputUrl })
+      }
+    }
+    // Whether a failure was a cancellation is recorded on the job, so read it back
+    const onFailed = (args: { jobId: string; failedReason: string }) => {
+      if (args.jobId !== jobId) return
+      this.renderQueue.getJob(jobId)
+        .then(job => job ? this.getJobProgress(job) : { jobId, stage: 'failed' as const, percent: 0, error: getFailureMessage(args.failedReason) })
+        .then(listener, error => {
+          logger.warn(`Failed to read failed render job ${jobId}:`, error)
+        })
+    }
+    const onRemoved = (args: { jobId: string }) => {
+      if (args.jobId === jobId) listener({ jobId, stage: 'cancelled', percent: 0 })
     }
 
-    await job.remove()
-    
-    // Update database
-    await this.supabase.client
-      .from('render_jobs')
-      .update({ status: 'cancelled' })
-      .eq('id', jobId)
+    this.queueEvents.on('progress', onProgress)
+    this.queueEvents.on('completed', onCompleted)
+    this.queueEvents.on('failed', onFailed)
+    this.queueEvents.on('removed', onRemoved)
+
+    return () => {
+      this.queueEvents.off('progress', onProgress)
+      this.queueEvents.off('completed', onCompleted)
+      this.queueEvents.off('failed', onFailed)
+      this.queueEvents.off('removed', onRemoved)
+    }
+  }
+
+  async cancelRender(jobId: string, userId: string) {
+    const job = await this.getUserJob(jobId, userId)
+    const state = await job.getState()
+
+    if (state === 'completed' || state === 'failed') {
+      throw new Error('Render job has already finished')
+    }
+
+    if (state !== 'active') {
+      try {
+        // Removes the job's scenes too, unless one of them is already rendering
+        await job.remove()
+        // Scenes that already rendered left files and progress behind
+        await this.cleanupRender(jobId)
+        await this.updateJobStatus(jobId, 'cancelled')
+        return true
+      } catch {
+        // Scenes are rendering; stop them below
+      }
+    }
+
+    // The workers kill FFmpeg and skip scenes that have not started; the render
+    // job then fails, which cleans up and records the cancellation
+    await job.updateData({ ...job.data, cancelled: true })
+    const jobIds = [jobId, ...job.data.scenes.map((_, index) => getSceneJobId(jobId, index))]
+    await Promise.all(jobIds.map(id => this.redis.publish(CANCEL_CHANNEL, id)))
 
     return true
   }
@@ -182,47 +451,128 @@ export class RenderService {
     return data
   }
 
-  private async processRenderJob(job: Job<RenderJob>): Promise<any> {
-    const { projectId, userId, scenes, settings, outputFormat, quality } = job.data
-    
+  /**
+   * Render one scene of a render into the render's shared working directory
+   */
+  private async processSceneJob(job: Job<SceneRenderJob>, signal?: AbortSignal): Promise<SceneRenderResult> {
+    const { renderJobId, sceneIndex } = job.data
+    const renderJob = await this.renderQueue.getJob(renderJobId)
+
+    // Don't start scenes of a render that was cancelled or has already failed
+    if (!renderJob || renderJob.data.cancelled || await renderJob.isFailed()) {
+      throw new UnrecoverableError(RENDER_CANCELLED)
+    }
+
+    const { projectId, scenes, settings } = renderJob.data
+    const workDir = this.getWorkDir(renderJobId)
+    const progressKey = getSceneProgressKey(renderJobId)
+
+    // Create working directory
+    await fs.mkdir(workDir, { recursive: true })
+
+    // The first scene to start marks the render as started
+    if (await this.redis.hsetnx(progressKey, 'startedAt', Date.now())) {
+      await this.redis.expire(progressKey, SCENE_PROGRESS_TTL)
+      await this.updateJobStatus(renderJobId, 'processing')
+      logger.info(`Starting render job ${renderJobId} for project ${projectId}`)
+    }
+
     try {
-      // Update job status
-      await this.updateJobStatus(job.id as string, 'processing')
-      await job.updateProgress(5)
+      const scene = scenes[sceneIndex]
+      const cacheKey = this.sceneCache.getKey(scene, settings)
+      const file = path.join(workDir, `scene_${sceneIndex}.mp4`)
 
-      // Create working directory
-      const workDir = path.join(this.tempDir, `render_${job.id}`)
-      await fs.mkdir(workDir, { recursive: true })
+      // Unchanged scenes from an earlier export are reused as-is
+      if (await this.sceneCache.restore(cacheKey, file)) {
+        logger.info(`Scene ${sceneIndex} of render job ${renderJobId} restored from cache`)
+      } else {
+        await this.reportSceneProgress(renderJob, sceneIndex, 0)
+        await this.renderScene(scene, settings, workDir, sceneIndex, this.createProgressReporter(
+          renderJobId,
+          fraction => this.reportSceneProgress(renderJob, sceneIndex, fraction)
+        ), signal)
+        await this.sceneCache.store(cacheKey, file)
+      }
+      await this.reportSceneProgress(renderJob, sceneIndex, 1)
 
-      logger.info(`Starting render job ${job.id} for project ${projectId}`)
+      return { sceneIndex, file }
 
-      // Process each scene
-      const sceneFiles: string[] = []
-      for (let i = 0; i < scenes.length; i++) {
-        const scene = scenes[i]
-        const sceneFile = await this.renderScene(scene, settings, workDir, i)
-        sceneFiles.push(sceneFile)
-        
-        const progress = 5 + (i / scenes.length) * 80
-        await job.updateProgress(progress)
+    } catch (error) {
+      if (signal?.aborted) {
+        logger.info(`Scene ${sceneIndex} of render job ${renderJobId} cancelled`)
+        throw new UnrecoverableError(RENDER_CANCELLED)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Join a render's scenes once they have all rendered, mix in the music bed and upload the result
+   */
+  private async processRenderJob(job: Job<RenderJob>, signal?: AbortSignal): Promise<any> {
+    const { projectId, userId, scenes, settings, outputFormat } = job.data
+    const workDir = this.getWorkDir(job.id as string)
+
+    // Cancelled after its last scene finished, before it was picked up
+    if (job.data.cancelled) {
+      throw new UnrecoverableError(RENDER_CANCELLED)
+    }
+
+    try {
+      const startedAt = Number(await this.redis.hget(getSceneProgressKey(job.id as string), 'startedAt')) || job.processedOn || Date.now()
+
+      // Scene workers return their output files in whatever order they finished
+      const results = Object.values(await job.getChildrenValues<SceneRenderResult>())
+      const sceneFiles = results
+        .sort((a, b) => a.sceneIndex - b.sceneIndex)
+        .map(result => result.file)
+
+      logger.info(`Joining ${sceneFiles.length} scenes for render job ${job.id}`)
+
+      // Concatenate scenes, then mix the music bed; each is a share of the encoding stage
+      const encodingSteps = settings.backgroundMusic ? 2 : 1
+      signal?.throwIfAborted()
+      await this.reportProgress(job, 'encoding', 0, startedAt)
+      let finalOutput = await this.concatenateScenes(scenes, sceneFiles, settings, workDir, outputFormat, this.createProgressReporter(
+        job.id as string,
+        fraction => this.reportProgress(job, 'encoding', fraction / encodingSteps, startedAt)
+      ), signal)
+
+      // Lay the project's music bed under the whole video
+      if (settings.backgroundMusic) {
+        finalOutput = await this.mixBackgroundMusic(finalOutput, scenes, settings, workDir, outputFormat, this.createProgressReporter(
+          job.id as string,
+          fraction => this.reportProgress(job, 'encoding', (1 + fraction) / encodingSteps, startedAt)
+        ), signal)
       }
 
-      // Concatenate scenes
-      await job.updateProgress(85)
-      const finalOutput = await this.concatenateScenes(sceneFiles, settings, workDir, outputFormat)
+      // Last chance to stop before the video is published
+      signal?.throwIfAborted()
 
       // Upload to storage
-      await job.updateProgress(95)
+      await this.reportProgress(job, 'uploading', 0, startedAt)
       const publicUrl = await this.uploadFinalVideo(finalOutput, projectId, userId)
+      const fileSize = (await fs.stat(finalOutput)).size
 
       // Cleanup
-      await this.cleanup(workDir)
-      await job.updateProgress(100)
+      await this.cleanupRender(job.id as string)
+
+      // Charged once the video is published; failed and cancelled renders are free
+      await this.usage.record(userId, 'render', {
+        quantity: getTotalDuration(scenes) / 60,
+        quality: settings.quality,
+        metadata: { jobId: job.id, projectId }
+      })
+
+      this.metrics.recordRender(settings.quality, Date.now() - startedAt, getTotalDuration(scenes)).catch(error => {
+        logger.warn(`Failed to record render time of render job ${job.id}:`, error)
+      })
 
       // Update job status
       await this.updateJobStatus(job.id as string, 'completed', {
         outputUrl: publicUrl,
-        fileSize: (await fs.stat(finalOutput)).size
+        fileSize,
+        duration: getTotalDuration(scenes)
       })
 
       return {
@@ -233,72 +583,229 @@ export class RenderService {
       }
 
     } catch (error) {
-      logger.error(`Render job ${job.id} failed:`, error)
-      await this.updateJobStatus(job.id as string, 'failed', { error: error.message })
+      if (signal?.aborted) {
+        logger.info(`Render job ${job.id} cancelled`)
+        throw new UnrecoverableError(RENDER_CANCELLED)
+      }
       throw error
     }
   }
 
-  private async renderScene(scene: Scene, settings: RenderSettings, workDir: string, sceneIndex: number): Promise<string> {
+  /**
+   * Clean up after a render that will not be retried and record why it stopped.
+   * Does nothing while the render can still be retried or finish.
+   */
+  private async finishFailedRender(jobId: string) {
+    // Re-read the job for its final state and any cancellation flagged since it started
+    const job = await this.renderQueue.getJob(jobId)
+    if (!job || await job.getState() !== 'failed') return
+
+    await this.cleanupRender(jobId)
+
+    if (getStage(job, 'failed') === 'cancelled') {
+      logger.info(`Render job ${jobId} cancelled`)
+      await this.updateJobStatus(jobId, 'cancelled')
+    } else {
+      await this.updateJobStatus(jobId, 'failed', { error: getFailureMessage(job.failedReason) })
+    }
+  }
+
+  /**
+   * A render job, provided it belongs to the user
+   */
+  private async getUserJob(jobId: string, userId: string): Promise<Job<RenderJob>> {
+    const job = await this.renderQueue.getJob(jobId)
+    if (!job || job.data.userId !== userId) {
+      throw new Error('Render job not found')
+    }
+    return job
+  }
+
+  private async getJobProgress(job: Job<RenderJob>): Promise<RenderProgress> {
+    const jobId = job.id as string
+    const state = await job.getState()
+    const stage = getStage(job, state)
+
+    if (stage === 'completed') {
+      return { jobId, stage, percent: 100, outputUrl: job.returnvalue?.outputUrl }
+    }
+    if (stage === 'failed') {
+      return { jobId, stage, percent: 0, error: getFailureMessage(job.failedReason) }
+    }
+    if (stage === 'cancelled') {
+      return { jobId, stage, percent: 0 }
+    }
+    return this.getRunningProgress(job) || { jobId, stage, percent: 0 }
+  }
+
+  /**
+   * Progress snapshot of a render that has not finished, if a worker has reported one
+   */
+  private getRunningProgress(job: Job<RenderJob>): RenderProgress | undefined {
+    return typeof job.progress === 'object' ? job.progress as RenderProgress : undefined
+  }
+
+  /**
+   * Record how far along one scene is and publish the render's combined progress.
+   * Scenes render on different workers, so each one's fraction is kept in Redis.
+   */
+  private async reportSceneProgress(renderJob: Job<RenderJob>, sceneIndex: number, fraction: number) {
+    const progressKey = getSceneProgressKey(renderJob.id as string)
+    await this.redis.hset(progressKey, sceneIndex.toString(), fraction)
+    const values = await this.redis.hgetall(progressKey)
+
+    const { scenes } = renderJob.data
+    const fractions = scenes.map((_, index) => Number(values[index]) || 0)
+    const finished = fractions.filter(value => value >= 1).length
+
+    await this.reportProgress(
+      renderJob,
+      'rendering',
+      getRenderingFraction(scenes.map(scene => scene.duration), fractions),
+      Number(values.startedAt) || Date.now(),
+      { index: Math.min(finished, scenes.length - 1), total: scenes.length }
+    )
+  }
+
+  /**
+   * Publish a progress snapshot for a render. The ETA extrapolates the time spent
+   * since its first scene started rendering.
+   */
+  private async reportProgress(
+    job: Job<RenderJob>,
+    stage: RenderStage,
+    stageFraction: number,
+    startedAt: number,
+    scene?: RenderProgress['scene']
+  ) {
+    const percent = getJobPercent(stage, stageFraction)
+    const elapsedSeconds = (Date.now() - startedAt) / 1000
+
+    const progress: RenderProgress = {
+      jobId: job.id as string,
+      stage,
+      percent,
+      scene,
+      etaSeconds: estimateRemainingSeconds(elapsedSeconds, percent)
+    }
+    await job.updateProgress(progress)
+  }
+
+  /**
+   * Throttled FFmpeg progress handler for a render
+   */
+  private createProgressReporter(
+    jobId: string,
+    report: (fraction: number) => Promise<void>
+  ): ProgressCallback {
+    let lastReport = 0
+
+    return (fraction) => {
+      const now = Date.now()
+      if (now - lastReport < PROGRESS_REPORT_INTERVAL) return
+      lastReport = now
+
+      report(fraction).catch(error => {
+        logger.warn(`Failed to report progress for render job ${jobId}:`, error)
+      })
+    }
+  }
+
+  private async renderScene(
+    scene: Scene,
+    settings: RenderSettings,
+    workDir: string,
+    sceneIndex: number,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<string> {
     const sceneOutput = path.join(workDir, `scene_${sceneIndex}.mp4`)
+    const sampleRate = settings.audioSampleRate || 44100
+    const videosWithAudio = await this.findVideosWithAudio(scene.layers)
+    const layers = await this.rasterizeLayers(scene.layers, workDir, sceneIndex)
     
     return new Promise((resolve, reject) => {
       const command = ffmpeg()
-        .size(`${settings.width}x${settings.height}`)
-        .fps(settings.frameRate)
-        .videoBitrate(this.getBitrate(settings.quality))
         
       // Add background (black canvas)
-      command.input('color=black:size=' + settings.width + 'x' + settings.height + ':duration=' + scene.duration)
+      command.input(`color=black:size=${settings.width}x${settings.height}:rate=${settings.frameRate}:duration=${scene.duration}`)
+        .inputFormat('lavfi')
+
+      // Silent bed so every scene carries an audio stream for crossfades
+      command.input(`anullsrc=channel_layout=stereo:sample_rate=${sampleRate}`)
         .inputFormat('lavfi')
 
       // Process layers
-      let filterComplex = ''
-      let inputIndex = 1
+      const filters: string[] = []
+      const audioTracks: AudioTrack[] = []
+      let videoLabel = '0:v'
+      let inputIndex = 2
 
-      // Sort layers by z-index and start time
-      const sortedLayers = scene.layers.sort((a, b) => {
-        if (a.startTime !== b.startTime) return a.startTime - b.startTime
-        return (a.style?.zIndex || 0) - (b.style?.zIndex || 0)
-      })
+      // Paint in z-order; layers without a z-index keep their list order
+      const sortedLayers = [...layers].sort((a, b) => (a.style?.zIndex || 0) - (b.style?.zIndex || 0))
 
       for (const layer of sortedLayers) {
         switch (layer.type) {
           case 'image':
+            // Loop stills so size/rotation/opacity animations get a frame to work on
             command.input(layer.source!)
-            filterComplex += this.getImageFilter(layer, inputIndex, settings)
+              .inputOptions(['-loop', '1', '-t', (layer.duration || 5).toString()])
+            filters.push(this.getOverlayFilter(layer, inputIndex, videoLabel, settings))
+            videoLabel = `v${inputIndex}`
             inputIndex++
             break
             
           case 'video':
             command.input(layer.source!)
-            filterComplex += this.getVideoFilter(layer, inputIndex, settings)
+            filters.push(this.getOverlayFilter(layer, inputIndex, videoLabel, settings))
+            if (videosWithAudio.has(layer.id) && !layer.muted) {
+              audioTracks.push(this.getAudioTrack(layer, inputIndex, 'effect'))
+            }
+            videoLabel = `v${inputIndex}`
             inputIndex++
             break
             
-          case 'text':
-            filterComplex += this.getTextFilter(layer, settings)
+          case 'shape':
+            // Solid fill only; stroke and corner radius are preview-only for now
+            command.input(`color=c=${layer.style?.fill || 'white'}:size=${Math.round(layer.width)}x${Math.round(layer.height)}:rate=${settings.frameRate}:duration=${layer.duration || 5}`)
+              .inputFormat('lavfi')
+            filters.push(this.getOverlayFilter(layer, inputIndex, videoLabel, settings))
+            videoLabel = `v${inputIndex}`
+            inputIndex++
             break
-            
+
           case 'audio':
+            if (layer.muted) break
             command.input(layer.source!)
+            audioTracks.push(this.getAudioTrack(layer, inputIndex, 'music'))
             inputIndex++
             break
         }
       }
 
-      // Apply filters
-      if (filterComplex) {
-        command.complexFilter(filterComplex)
-      }
+      // Mix layer audio over the silent bed
+      filters.push(buildSceneAudioFilter(audioTracks, 1, scene.duration, sampleRate))
+      command.complexFilter(filters.join(';'))
 
       command
+        .outputOptions([
+          '-map', videoLabel === '0:v' ? '0:v' : `[${videoLabel}]`,
+          '-map', '[aout]',
+          '-t', scene.duration.toString(),
+          '-r', settings.frameRate.toString(),
+          '-c:v', 'libx264',
+          '-b:v', this.getBitrate(settings.quality),
+          '-pix_fmt', 'yuv420p',
+          '-c:a', 'aac',
+          '-ar', sampleRate.toString(),
+          '-ac', '2'
+        ])
         .output(sceneOutput)
         .on('start', () => {
           logger.info(`Rendering scene ${sceneIndex}...`)
         })
         .on('progress', (progress) => {
-          logger.debug(`Scene ${sceneIndex} progress: ${progress.percent}%`)
+          onProgress?.(getTimemarkFraction(progress.timemark, scene.duration))
         })
         .on('end', () => {
           logger.info(`Scene ${sceneIndex} rendered successfully`)
@@ -308,12 +815,78 @@ export class RenderService {
           logger.error(`Scene ${sceneIndex} render failed:`, err)
           reject(err)
         })
-        .run()
+
+      this.killOnAbort(command, signal)
+      command.run()
     })
   }
 
-  private async concatenateScenes(sceneFiles: string[], settings: RenderSettings, workDir: string, format: string): Promise<string> {
+  private async concatenateScenes(
+    scenes: Scene[],
+    sceneFiles: string[],
+    settings: RenderSettings,
+    workDir: string,
+    format: string,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<string> {
     const outputFile = path.join(workDir, `final_output.${format}`)
+    const boundaries = resolveBoundaryTransitions(scenes)
+    const totalDuration = getTotalDuration(scenes)
+
+    // Hard cuts only: stream-copy with the concat demuxer, no re-encode needed
+    if (!hasOverlappingTransitions(boundaries)) {
+      return this.concatenateWithDemuxer(sceneFiles, workDir, outputFile, totalDuration, onProgress, signal)
+    }
+
+    const sampleRate = settings.audioSampleRate || 44100
+    const filterGraph = buildTransitionFilter(scenes, settings.frameRate, sampleRate)
+
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg()
+      sceneFiles.forEach(file => command.input(file))
+
+      command
+        .complexFilter(filterGraph)
+        .outputOptions([
+          '-map', '[vout]',
+          '-map', '[aout]',
+          '-c:v', 'libx264',
+          '-b:v', this.getBitrate(settings.quality),
+          '-pix_fmt', 'yuv420p',
+          '-c:a', 'aac',
+          '-ar', sampleRate.toString(),
+          '-movflags', '+faststart'
+        ])
+        .output(outputFile)
+        .on('start', () => {
+          logger.info(`Joining ${sceneFiles.length} scenes with transitions...`)
+        })
+        .on('progress', (progress) => {
+          onProgress?.(getTimemarkFraction(progress.timemark, totalDuration))
+        })
+        .on('end', () => {
+          logger.info('Scene transitions rendered')
+          resolve(outputFile)
+        })
+        .on('error', (err) => {
+          logger.error('Scene transition render failed:', err)
+          reject(err)
+        })
+
+      this.killOnAbort(command, signal)
+      command.run()
+    })
+  }
+
+  private async concatenateWithDemuxer(
+    sceneFiles: string[],
+    workDir: string,
+    outputFile: string,
+    totalDuration: number,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<string> {
     const listFile = path.join(workDir, 'scenes.txt')
     
     // Create file list for FFmpeg concat
@@ -321,7 +894,7 @@ export class RenderService {
     await fs.writeFile(listFile, fileList)
 
     return new Promise((resolve, reject) => {
-      ffmpeg()
+      const command = ffmpeg()
         .input(listFile)
         .inputOptions(['-f', 'concat', '-safe', '0'])
         .outputOptions([
@@ -332,6 +905,9 @@ export class RenderService {
         .on('start', () => {
           logger.info('Concatenating scenes...')
         })
+        .on('progress', (progress) => {
+          onProgress?.(getTimemarkFraction(progress.timemark, totalDuration))
+        })
         .on('end', () => {
           logger.info('Scene concatenation completed')
           resolve(outputFile)
@@ -340,42 +916,212 @@ export class RenderService {
           logger.error('Scene concatenation failed:', err)
           reject(err)
         })
-        .run()
+
+      this.killOnAbort(command, signal)
+      command.run()
     })
   }
 
-  private getImageFilter(layer: Layer, inputIndex: number, settings: RenderSettings): string {
-    const x = layer.x || 0
-    const y = layer.y || 0
-    const width = layer.width || settings.width
-    const height = layer.height || settings.height
-    const startTime = layer.startTime || 0
-    const duration = layer.duration || 5
+  private async mixBackgroundMusic(
+    inputFile: string,
+    scenes: Scene[],
+    settings: RenderSettings,
+    workDir: string,
+    format: string,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const outputFile = path.join(workDir, `final_mixed.${format}`)
+    const sampleRate = settings.audioSampleRate || 44100
+    const totalDuration = getTotalDuration(scenes)
+    const filterGraph = buildBackgroundMusicFilter(
+      totalDuration,
+      settings.backgroundMusicVolume ?? 0.3,
+      this.getVoiceOverRanges(scenes),
+      sampleRate
+    )
 
-    return `[${inputIndex}:v]scale=${width}:${height}[img${inputIndex}];[0:v][img${inputIndex}]overlay=${x}:${y}:enable='between(t,${startTime},${startTime + duration})'[v${inputIndex}];`
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg()
+        .input(inputFile)
+        .input(settings.backgroundMusic!)
+        .inputOptions(['-stream_loop', '-1'])
+        .complexFilter(filterGraph)
+        .outputOptions([
+          '-map', '0:v',
+          '-map', '[aout]',
+          '-c:v', 'copy',
+          '-c:a', 'aac',
+          '-ar', sampleRate.toString(),
+          '-t', totalDuration.toString(),
+          '-movflags', '+faststart'
+        ])
+        .output(outputFile)
+        .on('start', () => {
+          logger.info('Mixing background music...')
+        })
+        .on('progress', (progress) => {
+          onProgress?.(getTimemarkFraction(progress.timemark, totalDuration))
+        })
+        .on('end', () => {
+          logger.info('Background music mixed')
+          resolve(outputFile)
+        })
+        .on('error', (err) => {
+          logger.error('Background music mix failed:', err)
+          reject(err)
+        })
+
+      this.killOnAbort(command, signal)
+      command.run()
+    })
   }
 
-  private getVideoFilter(layer: Layer, inputIndex: number, settings: RenderSettings): string {
-    const x = layer.x || 0
-    const y = layer.y || 0
-    const width = layer.width || settings.width
-    const height = layer.height || settings.height
-    const startTime = layer.startTime || 0
-    const duration = layer.duration || 5
+  /**
+   * Voice-over intervals on the final timeline, used to duck the music bed
+   */
+  private getVoiceOverRanges(scenes: Scene[]): TimeRange[] {
+    const offsets = getSceneOffsets(scenes)
+
+    return scenes.flatMap((scene, index) => scene.layers
+      .filter(layer => layer.type === 'audio' && layer.audioRole === 'voiceover' && !layer.muted)
+      .map(layer => ({
+        start: offsets[index] + layer.startTime,
+        end: offsets[index] + Math.min(layer.startTime + layer.duration, scene.duration)
+      }))
+    )
+  }
+
+  private getAudioTrack(layer: Layer, inputIndex: number, defaultRole: AudioRole): AudioTrack {
+    return {
+      inputIndex,
+      role: layer.audioRole || defaultRole,
+      startTime: layer.startTime || 0,
+      duration: layer.duration || 5,
+      volume: layer.volume ?? 1,
+      fadeIn: layer.fadeIn || 0,
+      fadeOut: layer.fadeOut || 0,
+      volumeKeyframes: layer.keyframes?.volume
+    }
+  }
+
+  /**
+   * Rasterize a scene's text and caption layers into image layers, so they are
+   * overlaid like any other still
+   */
+  private async rasterizeLayers(layers: Layer[], workDir: string, sceneIndex: number): Promise<Layer[]> {
+    const rasterized = await Promise.all(layers.map(async (layer, index): Promise<Layer[]> => {
+      const filePrefix = path.join(workDir, `scene_${sceneIndex}_layer_${index}`)
+
+      switch (layer.type) {
+        case 'text': {
+          const file = `${filePrefix}.png`
+          await renderTextImage(layer, file)
+          return [{ ...layer, type: 'image', source: file }]
+        }
+
+        case 'caption':
+          return rasterizeCaptionLayer(layer, workDir, path.basename(filePrefix))
+
+        default:
+          return [layer]
+      }
+    }))
+
+    return rasterized.flat()
+  }
+
+  /**
+   * Probe video layers so only sources that actually carry audio get mixed
+   */
+  private async findVideosWithAudio(layers: Layer[]): Promise<Set<string>> {
+    const withAudio = new Set<string>()
+
+    await Promise.all(layers
+      .filter(layer => layer.type === 'video' && layer.source && !layer.muted)
+      .map(layer => new Promise<void>((resolve) => {
+        ffmpeg.ffprobe(layer.source!, (err, metadata) => {
+          if (err) {
+            logger.warn(`Could not probe ${layer.source} for audio:`, err)
+          } else if (metadata.streams.some(stream => stream.codec_type === 'audio')) {
+            withAudio.add(layer.id)
+          }
+          resolve()
+        })
+      }))
+    )
 
-    return `[${inputIndex}:v]scale=${width}:${height}[vid${inputIndex}];[0:v][vid${inputIndex}]overlay=${x}:${y}:enable='between(t,${startTime},${startTime + duration})'[v${inputIndex}];`
+    return withAudio
   }
 
-  private getTextFilter(layer: Layer, settings: RenderSettings): string {
-    const x = layer.x || 0
-    const y = layer.y || 0
-    const fontSize = layer.style?.fontSize || 24
-    const fontColor = layer.style?.color || 'white'
+  /**
+   * Scale, rotate and fade an image/video input and overlay it on the scene.
+   * Keyframed properties compile to per-frame FFmpeg expressions of scene time.
+   */
+  private getOverlayFilter(layer: Layer, inputIndex: number, baseLabel: string, settings: RenderSettings): string {
     const startTime = layer.startTime || 0
     const duration = layer.duration || 5
-    const text = layer.content || 'Text'
+    const keyframes = layer.keyframes
+    const baseWidth = layer.width || settings.width
+    const baseHeight = layer.height || settings.height
+
+    const x = compileKeyframes(keyframes?.x, layer.x || 0, startTime)
+    const y = compileKeyframes(keyframes?.y, layer.y || 0, startTime)
+    const width = compileKeyframes(keyframes?.width, baseWidth, startTime)
+    const height = compileKeyframes(keyframes?.height, baseHeight, startTime)
+    const rotation = compileKeyframes(keyframes?.rotation, layer.rotation || 0, startTime)
+
+    // Shift the layer onto the scene timeline so every expression runs on scene time
+    const chain = [`setpts=PTS-STARTPTS+${formatNumber(startTime)}/TB`]
 
-    return `drawtext=text='${text.replace(/'/g, "\\'")}':x=${x}:y=${y}:fontsize=${fontSize}:fontcolor=${fontColor}:enable='between(t,${startTime},${startTime + duration})';`
+    const resizes = isAnimated(keyframes, 'width') || isAnimated(keyframes, 'height')
+    chain.push(`scale=w='${width}':h='${height}'${resizes ? ':eval=frame' : ''}`)
+    chain.push('format=rgba')
+
+    if (isAnimated(keyframes, 'opacity')) {
+      const alpha = compileKeyframes(keyframes?.opacity, layer.opacity ?? 1, startTime, 'T')
+      chain.push(`geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='alpha(X,Y)*(${alpha})'`)
+    } else {
+      const opacity = keyframes?.opacity?.[0]?.value ?? layer.opacity ?? 1
+      if (opacity < 1) {
+        chain.push(`colorchannelmixer=aa=${formatNumber(opacity)}`)
+      }
+    }
+
+    let overlayX = x
+    let overlayY = y
+
+    if (isAnimated(keyframes, 'rotation') || rotation !== '0') {
+      // Pad to the diagonal so no corner is clipped at any angle
+      const diagonal = Math.ceil(Math.hypot(
+        getMaxValue(keyframes?.width, baseWidth),
+        getMaxValue(keyframes?.height, baseHeight)
+      ))
+      const angle = `((${rotation})*PI/180)`
+      chain.push(`rotate=a='${angle}':c=none:ow=${diagonal}:oh=${diagonal}`)
+
+      // The editor (Konva) rotates around the layer's top-left corner while FFmpeg
+      // rotates around the frame centre, so place the padded frame's centre where
+      // the editor's rotated centre ends up
+      const half = formatNumber(diagonal / 2)
+      overlayX = `${x}+(${width})/2*cos(${angle})-(${height})/2*sin(${angle})-${half}`
+      overlayY = `${y}+(${width})/2*sin(${angle})+(${height})/2*cos(${angle})-${half}`
+    }
+
+    return `[${inputIndex}:v]${chain.join(',')}[lay${inputIndex}];[${baseLabel}][lay${inputIndex}]overlay=x='${overlayX}':y='${overlayY}':eval=frame:enable='between(t,${startTime},${startTime + duration})'[v${inputIndex}]`
+  }
+
+  /**
+   * Kill a running FFmpeg command when the job it belongs to is cancelled
+   */
+  private killOnAbort(command: ffmpeg.FfmpegCommand, signal?: AbortSignal) {
+    if (!signal) return
+
+    const kill = () => command.kill('SIGKILL')
+    signal.addEventListener('abort', kill, { once: true })
+
+    const release = () => signal.removeEventListener('abort', kill)
+    command.on('end', release).on('error', release)
   }
 
   private getBitrate(quality: string): string {
@@ -430,6 +1176,18 @@ export class RenderService {
     }
   }
 
+  private getWorkDir(renderJobId: string): string {
+    return path.join(this.renderDir, `render_${renderJobId}`)
+  }
+
+  /**
+   * Remove a render's scene files and scene progress once it has finished for good
+   */
+  private async cleanupRender(renderJobId: string) {
+    await this.cleanup(this.getWorkDir(renderJobId))
+    await this.redis.del(getSceneProgressKey(renderJobId))
+  }
+
   async generateThumbnail(videoPath: string, timestamp: number = 1): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       const thumbnailPath = path.join(this.tempDir, `thumb_${uuidv4()}.png`)
@@ -454,18 +1212,198 @@ export class RenderService {
     })
   }
 
+  /**
+   * Job counts of the render queue, for the legacy stats endpoint. Counted in
+   * Redis rather than by loading the jobs.
+   */
   async getQueueStats() {
-    const waiting = await this.renderQueue.getWaiting()
-    const active = await this.renderQueue.getActive()
-    const completed = await this.renderQueue.getCompleted()
-    const failed = await this.renderQueue.getFailed()
+    const counts = await this.renderQueue.getJobCounts('waiting', 'prioritized', 'active', 'completed', 'failed')
+    const waiting = counts.waiting + counts.prioritized
+
+    return {
+      waiting,
+      active: counts.active,
+      completed: counts.completed,
+      failed: counts.failed,
+      total: waiting + counts.active + counts.completed + counts.failed,
+      sceneCache: await this.sceneCache.getStats()
+    }
+  }
+
+  /**
+   * Job counts of both queues, worker throughput and render times, for the admin dashboard
+   */
+  async getQueueOverview(): Promise<RenderQueueOverview> {
+    const states = [...ADMIN_JOB_STATES, 'paused'] as const
+    const [render, scene, workers, renderTimes] = await Promise.all([
+      this.renderQueue.getJobCounts(...states),
+      this.sceneQueue.getJobCounts(...states),
+      this.getWorkerStats(),
+      this.metrics.getRenderTimes()
+    ])
+
+    return {
+      queues: { render: render as QueueCounts, scene: scene as QueueCounts },
+      workers,
+      renderTimes
+    }
+  }
+
+  /**
+   * A page of a queue's jobs in one state, newest first
+   */
+  async listJobs(queue: AdminQueue, state: AdminJobState, start: number, end: number) {
+    const source = this.getQueue(queue)
+    const [jobs, total] = await Promise.all([
+      source.getJobs([state], start, end),
+      source.getJobCountByTypes(state)
+    ])
+
+    return {
+      jobs: jobs.filter(Boolean).map(job => this.toAdminJob(job as Job, queue, state)),
+      total
+    }
+  }
+
+  async getJob(queue: AdminQueue, jobId: string): Promise<AdminJob> {
+    const job = await this.getQueue(queue).getJob(jobId)
+    if (!job) {
+      throw new Error('Job not found')
+    }
+
+    const state = await job.getState()
+    return this.toAdminJob(job, queue, ADMIN_JOB_STATES.includes(state as AdminJobState) ? state as AdminJobState : 'unknown')
+  }
+
+  /**
+   * Render a failed render again as a new job with the same data. Its scene
+   * files were cleaned up when it failed, so it can't resume, but scenes that
+   * rendered before come from the scene cache. Not charged until it completes,
+   * like any render.
+   */
+  async retryRender(jobId: string): Promise<string> {
+    const job = await this.renderQueue.getJob(jobId)
+    if (!job) {
+      throw new Error('Render job not found')
+    }
+
+    const state = await job.getState()
+    if (state !== 'failed') {
+      throw new Error('Only failed render jobs can be retried')
+    }
+    if (getStage(job, state) === 'cancelled') {
+      throw new Error('Cancelled render jobs cannot be retried')
+    }
+
+    const { cancelled, ...renderJob } = job.data
+    const retryJobId = await this.addRender(renderJob)
+    logger.info(`Render job ${jobId} retried as ${retryJobId}`)
+
+    return retryJobId
+  }
+
+  /**
+   * Run a delayed job (one waiting out a retry backoff) now
+   */
+  async promoteJob(queue: AdminQueue, jobId: string) {
+    const job = await this.getQueue(queue).getJob(jobId)
+    if (!job) {
+      throw new Error('Job not found')
+    }
+    if (!await job.isDelayed()) {
+      throw new Error('Only delayed jobs can be promoted')
+    }
+
+    await job.promote()
+  }
+
+  /**
+   * Remove every render that has not started, together with its scenes, and
+   * optionally those delayed for a retry, recording them as cancelled. Renders
+   * with a scene rendering and renders being joined are left alone.
+   */
+  async drainRenderQueue(includeDelayed: boolean): Promise<number> {
+    // Renders wait in 'waiting-children' until their scenes have rendered
+    const states: AdminJobState[] = ['waiting', 'prioritized', 'waiting-children']
+    if (includeDelayed) states.push('delayed')
+    const jobs = (await this.renderQueue.getJobs(states)).filter(Boolean)
+
+    const drained = await Promise.all(jobs.map(job => this.drainRender(job, includeDelayed)))
+    const count = drained.filter(Boolean).length
+
+    logger.info(`Drained ${count} render jobs from the queue`)
+    return count
+  }
+
+  /**
+   * Remove a render with its scenes unless one of its scenes has started
+   * (or is waiting to retry, unless those are drained too)
+   */
+  private async drainRender(job: Job<RenderJob>, includeDelayed: boolean): Promise<boolean> {
+    const jobId = job.id as string
+    const sceneStates = await Promise.all(job.data.scenes.map(async (_, index) => {
+      const scene = await this.sceneQueue.getJob(getSceneJobId(jobId, index))
+      return scene ? scene.getState() : 'completed'
+    }))
+    if (sceneStates.includes('active') || (!includeDelayed && sceneStates.includes('delayed'))) {
+      return false
+    }
+
+    try {
+      await job.remove()
+    } catch {
+      // The render or one of its scenes was picked up meanwhile
+      return false
+    }
+
+    await this.cleanupRender(jobId)
+    await this.updateJobStatus(jobId, 'cancelled')
+    return true
+  }
+
+  private async getWorkerStats(): Promise<WorkerStats[]> {
+    const [stats, renderClients, sceneClients] = await Promise.all([
+      this.metrics.getWorkerStats(),
+      this.renderQueue.getWorkers(),
+      this.sceneQueue.getWorkers()
+    ])
+
+    // Named workers' connections are called "<queue client name>:w:<worker name>"
+    const online = new Set([...renderClients, ...sceneClients].map(client => (client.rawname || '').split(':w:')[1]))
+
+    return stats.map(worker => ({ ...worker, online: online.has(worker.name) }))
+  }
+
+  private recordWorkerJob(worker: string, outcome: 'completed' | 'failed', job: Job) {
+    const busyMs = (job.finishedOn || Date.now()) - (job.processedOn || Date.now())
+
+    this.metrics.recordJob(worker, outcome, busyMs).catch(error => {
+      logger.warn(`Failed to record ${outcome} job ${job.id} for worker ${worker}:`, error)
+    })
+  }
+
+  private getQueue(queue: AdminQueue): Queue {
+    return queue === 'scene' ? this.sceneQueue : this.renderQueue
+  }
+
+  private toAdminJob(job: Job, queue: AdminQueue, state: AdminJob['state']): AdminJob {
+    const data = job.data || {}
 
     return {
-      waiting: waiting.length,
-      active: active.length,
-      completed: completed.length,
-      failed: failed.length,
-      total: waiting.length + active.length + completed.length + failed.length
+      id: job.id as string,
+      queue,
+      name: job.name,
+      state,
+      userId: data.userId,
+      projectId: data.projectId,
+      renderJobId: data.renderJobId,
+      quality: data.settings?.quality,
+      attemptsMade: job.attemptsMade,
+      createdAt: job.timestamp,
+      processedAt: job.processedOn,
+      finishedAt: job.finishedOn,
+      failedReason: job.failedReason,
+      stacktrace: job.stacktrace || []
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+import { DEFAULT_DUCKING, buildDuckingExpression } from '../audio-mix'
+import { evaluateExpression } from './expression'
+
+describe('buildDuckingExpression', () => {
+  const options = { level: 0.25, attack: 0.5, release: 1 }
+
+  it('does not duck without voice-over', () => {
+    expect(buildDuckingExpression([])).toBeNull()
+  })
+
+  it('holds full volume away from the voice-over and the duck level during it', () => {
+    const expression = buildDuckingExpression([{ start: 2, end: 4 }], options)!
+
+    expect(evaluateExpression(expression, 0)).toBe(1)
+    expect(evaluateExpression(expression, 2)).toBeCloseTo(0.25)
+    expect(evaluateExpression(expression, 3)).toBeCloseTo(0.25)
+    expect(evaluateExpression(expression, 4)).toBeCloseTo(0.25)
+    expect(evaluateExpression(expression, 6)).toBe(1)
+  })
+
+  it('ramps down over the attack and back up over the release', () => {
+    const expression = buildDuckingExpression([{ start: 2, end: 4 }], options)!
+
+    expect(evaluateExpression(expression, 1.75)).toBeCloseTo(0.625)
+    expect(evaluateExpression(expression, 4.5)).toBeCloseTo(0.625)
+  })
+
+  it('never ducks deeper than the level where ranges overlap', () => {
+    const expression = buildDuckingExpression([{ start: 1, end: 3 }, { start: 2, end: 5 }], options)!
+
+    for (const t of [1, 2, 2.5, 3, 4]) {
+      expect(evaluateExpression(expression, t)).toBeCloseTo(0.25)
+    }
+  })
+
+  it('uses the default envelope when none is given', () => {
+    const expression = buildDuckingExpression([{ start: 1, end: 2 }])!
+    expect(evaluateExpression(expression, 1.5)).toBeCloseTo(DEFAULT_DUCKING.level)
+  })
+})
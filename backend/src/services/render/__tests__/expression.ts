@@ -0,0 +1,108 @@
+// Evaluates the FFmpeg expressions the render helpers build, so tests can check
+// the values they produce rather than their exact text. Only understands what
+// those helpers emit: numbers, time variables, + - * /, parentheses, `;`
+// sequences and the functions below.
+type Fn = (registers: number[], ...args: number[]) => number
+
+const FUNCTIONS: Record<string, Fn> = {
+  if: (_, condition, then, otherwise = 0) => (condition ? then : otherwise),
+  lt: (_, a, b) => (a < b ? 1 : 0),
+  clip: (_, value, min, max) => Math.min(Math.max(value, min), max),
+  max: (_, a, b) => Math.max(a, b),
+  min: (_, a, b) => Math.min(a, b),
+  st: (registers, index, value) => (registers[index] = value),
+  ld: (registers, index) => registers[index] ?? 0
+}
+
+const TOKEN = /\s*(\d+(?:\.\d+)?(?:e[-+]?\d+)?|[A-Za-z_]\w*|[-+*/(),;])/gy
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = []
+  TOKEN.lastIndex = 0
+  while (TOKEN.lastIndex < expression.length) {
+    const match = TOKEN.exec(expression)
+    if (!match) throw new Error(`Unexpected input at ${TOKEN.lastIndex} in ${expression}`)
+    tokens.push(match[1])
+  }
+  return tokens
+}
+
+export function evaluateExpression(expression: string, t: number): number {
+  const tokens = tokenize(expression)
+  const registers: number[] = []
+  let position = 0
+
+  const peek = () => tokens[position]
+  const expect = (token: string) => {
+    if (tokens[position] !== token) throw new Error(`Expected ${token} at token ${position} in ${expression}`)
+    position++
+  }
+
+  // Lowest precedence: `a;b` evaluates both and yields b
+  const sequence = (): number => {
+    let value = sum()
+    while (peek() === ';') {
+      position++
+      value = sum()
+    }
+    return value
+  }
+
+  const sum = (): number => {
+    let value = product()
+    while (peek() === '+' || peek() === '-') {
+      const operator = tokens[position++]
+      const right = product()
+      value = operator === '+' ? value + right : value - right
+    }
+    return value
+  }
+
+  const product = (): number => {
+    let value = unary()
+    while (peek() === '*' || peek() === '/') {
+      const operator = tokens[position++]
+      const right = unary()
+      value = operator === '*' ? value * right : value / right
+    }
+    return value
+  }
+
+  const unary = (): number => {
+    if (peek() === '-') {
+      position++
+      return -unary()
+    }
+    if (peek() === '+') {
+      position++
+      return unary()
+    }
+    return primary()
+  }
+
+  const primary = (): number => {
+    const token = tokens[position++]
+    if (token === '(') {
+      const value = sequence()
+      expect(')')
+      return value
+    }
+    if (/^\d/.test(token)) return Number(token)
+    if (token === 't' || token === 'T') return t
+
+    const fn = FUNCTIONS[token]
+    if (!fn) throw new Error(`Unknown name ${token} in ${expression}`)
+    expect('(')
+    const args = [sequence()]
+    while (peek() === ',') {
+      position++
+      args.push(sequence())
+    }
+    expect(')')
+    return fn(registers, ...args)
+  }
+
+  const value = sequence()
+  if (position !== tokens.length) throw new Error(`Unexpected ${peek()} in ${expression}`)
+  return value
+}
@@ -0,0 +1,101 @@
+import { Keyframe, interpolateKeyframes } from '@invideo-studio/shared'
+import { compileKeyframes, formatNumber, getMaxValue, isAnimated } from '../keyframes'
+import { evaluateExpression } from './expression'
+
+const linear = (time: number, value: number): Keyframe => ({ time, value, easing: 'linear' })
+
+describe('compileKeyframes', () => {
+  it('uses the fallback without keyframes and the value of a single keyframe', () => {
+    expect(compileKeyframes(undefined, 0.5, 0)).toBe('0.5')
+    expect(compileKeyframes([], 10, 0)).toBe('10')
+    expect(compileKeyframes([linear(1, 42)], 10, 0)).toBe('42')
+  })
+
+  it('interpolates linearly between keyframes and holds the ends', () => {
+    const expression = compileKeyframes([linear(0, 0), linear(2, 100)], 0, 0)
+
+    expect(evaluateExpression(expression, 0)).toBe(0)
+    expect(evaluateExpression(expression, 0.5)).toBeCloseTo(25)
+    expect(evaluateExpression(expression, 1)).toBeCloseTo(50)
+    expect(evaluateExpression(expression, 2)).toBe(100)
+    expect(evaluateExpression(expression, 5)).toBe(100)
+  })
+
+  it('reads keyframe times relative to the layer start', () => {
+    const expression = compileKeyframes([linear(1, 0), linear(3, 100)], 0, 4)
+
+    expect(evaluateExpression(expression, 4)).toBe(0)
+    expect(evaluateExpression(expression, 5)).toBe(0)
+    expect(evaluateExpression(expression, 6)).toBeCloseTo(50)
+    expect(evaluateExpression(expression, 7)).toBe(100)
+  })
+
+  it('sorts keyframes and moves through every segment', () => {
+    const expression = compileKeyframes([linear(2, 0), linear(0, 0), linear(1, 10)], 0, 0)
+
+    expect(evaluateExpression(expression, 0.5)).toBeCloseTo(5)
+    expect(evaluateExpression(expression, 1)).toBeCloseTo(10)
+    expect(evaluateExpression(expression, 1.5)).toBeCloseTo(5)
+  })
+
+  it('eases each segment with the curve of its first keyframe', () => {
+    const at = (easing: Keyframe['easing'], t: number) =>
+      evaluateExpression(compileKeyframes([{ time: 0, value: 0, easing }, linear(1, 1)], 0, 0), t)
+
+    expect(at('ease-in', 0.5)).toBeLessThan(0.5)
+    expect(at('ease-out', 0.5)).toBeGreaterThan(0.5)
+    expect(at('ease-in-out', 0.5)).toBeCloseTo(0.5, 3)
+    expect(at('ease-in', 1)).toBeCloseTo(1)
+  })
+
+  it('solves custom bezier curves like the matching preset', () => {
+    const custom = { cubicBezier: [0.42, 0, 1, 1] as [number, number, number, number] }
+
+    for (const t of [0.1, 0.25, 0.5, 0.9]) {
+      const preset = compileKeyframes([{ time: 0, value: 0, easing: 'ease-in' }, linear(1, 1)], 0, 0)
+      const bezier = compileKeyframes([{ time: 0, value: 0, easing: custom }, linear(1, 1)], 0, 0)
+      expect(evaluateExpression(bezier, t)).toBeCloseTo(evaluateExpression(preset, t), 6)
+    }
+  })
+
+  it('matches the editor\'s interpolation', () => {
+    const keyframes: Keyframe[] = [
+      { time: 0, value: 10, easing: 'ease-out' },
+      { time: 1.5, value: 80, easing: { cubicBezier: [0.2, 0.8, 0.3, 1] } },
+      { time: 3, value: -20, easing: 'ease-in-out' },
+      linear(4, 0)
+    ]
+    const expression = compileKeyframes(keyframes, 0, 0)
+
+    for (let t = -0.5; t <= 4.5; t += 0.25) {
+      expect(evaluateExpression(expression, t)).toBeCloseTo(interpolateKeyframes(keyframes, t, 0), 5)
+    }
+  })
+
+  it('evaluates against another time variable when asked', () => {
+    expect(compileKeyframes([linear(0, 0), linear(1, 1)], 0, 0, 'T')).toContain('(T-0)')
+  })
+})
+
+describe('formatNumber', () => {
+  it('drops float noise and trailing zeros', () => {
+    expect(formatNumber(0.1 + 0.2)).toBe('0.3')
+    expect(formatNumber(2)).toBe('2')
+    expect(formatNumber(-1.5)).toBe('-1.5')
+  })
+})
+
+describe('isAnimated', () => {
+  it('needs at least two keyframes', () => {
+    expect(isAnimated(undefined, 'x')).toBe(false)
+    expect(isAnimated({ x: [linear(0, 1)] }, 'x')).toBe(false)
+    expect(isAnimated({ x: [linear(0, 1), linear(1, 2)] }, 'x')).toBe(true)
+  })
+})
+
+describe('getMaxValue', () => {
+  it('returns the largest keyframe value or the fallback', () => {
+    expect(getMaxValue([linear(0, 3), linear(1, 9), linear(2, 4)], 0)).toBe(9)
+    expect(getMaxValue(undefined, 7)).toBe(7)
+  })
+})
@@ -0,0 +1,47 @@
+import { escapeMarkup, wrapText } from '../text'
+
+// Every character is 10px wide, so a width of 100 fits ten characters
+const monospace = {
+  measure: async (text: string) => text.length * 10
+}
+
+describe('wrapText', () => {
+  it('keeps lines that fit as they are', async () => {
+    expect(await wrapText('Short line', 100, 10, monospace)).toEqual(['Short line'])
+  })
+
+  it('breaks at the last space that fits and drops the space', async () => {
+    expect(await wrapText('The quick brown fox jumps', 100, 10, monospace)).toEqual([
+      'The quick',
+      'brown fox',
+      'jumps'
+    ])
+  })
+
+  it('breaks after a dash, keeping it on the line', async () => {
+    expect(await wrapText('well-known-brands', 80, 10, monospace)).toEqual(['well-', 'known-', 'brands'])
+  })
+
+  it('breaks mid-word when a word is wider than the line', async () => {
+    expect(await wrapText('Supercalifragilistic', 100, 10, monospace)).toEqual(['Supercalif', 'ragilistic'])
+  })
+
+  it('starts a new line at every newline', async () => {
+    expect(await wrapText('One\nTwo', 100, 10, monospace)).toEqual(['One', 'Two'])
+  })
+
+  it('stops at the last line that fits the height', async () => {
+    expect(await wrapText('aaa bbb ccc ddd', 30, 2, monospace)).toEqual(['aaa', 'bbb'])
+    expect(await wrapText('One\nTwo\nThree', 100, 2, monospace)).toEqual(['One', 'Two'])
+  })
+
+  it('gives up on text too narrow to hold a character', async () => {
+    expect(await wrapText('Hello', 5, 10, monospace)).toEqual([])
+  })
+})
+
+describe('escapeMarkup', () => {
+  it('escapes Pango markup characters', () => {
+    expect(escapeMarkup(`<b>"Tom" & 'Jerry'</b>`)).toBe('&lt;b&gt;&quot;Tom&quot; &amp; &apos;Jerry&apos;&lt;/b&gt;')
+  })
+})
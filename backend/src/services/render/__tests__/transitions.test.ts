@@ -0,0 +1,42 @@
+import { buildTransitionFilter, hasOverlappingTransitions } from '../transitions'
+
+describe('buildTransitionFilter', () => {
+  it('concatenates scenes joined by cuts', () => {
+    const filter = buildTransitionFilter([{ duration: 3 }, { duration: 4 }], 30, 44100).split(';')
+
+    expect(filter).toContain('[v0][v1]concat=n=2:v=1:a=0[vx1]')
+    expect(filter).toContain('[a0][a1]concat=n=2:v=0:a=1[ax1]')
+    expect(filter.join(';')).not.toContain('xfade')
+  })
+
+  it('overlaps scenes by the transition, offset from the start of the output', () => {
+    const filter = buildTransitionFilter([
+      { duration: 4, transitions: [{ type: 'fade', duration: 1 }] },
+      { duration: 4, transitions: [{ type: 'wipe', duration: 0.5 }] },
+      { duration: 4 }
+    ], 30, 44100).split(';')
+
+    expect(filter).toContain('[v0][v1]xfade=transition=fade:duration=1:offset=3[vx1]')
+    expect(filter).toContain('[a0][a1]acrossfade=d=1:c1=tri:c2=tri[ax1]')
+    // The second scene starts at 3s, so its end overlaps the third from 6.5s
+    expect(filter).toContain('[vx1][v2]xfade=transition=wipeleft:duration=0.5:offset=6.5[vx2]')
+  })
+
+  it('normalises every input and labels the outputs', () => {
+    const filter = buildTransitionFilter([{ duration: 2 }], 25, 48000).split(';')
+
+    expect(filter).toEqual([
+      '[0:v]settb=AVTB,setpts=PTS-STARTPTS,fps=25,format=yuv420p[v0]',
+      '[0:a]aresample=48000,asetpts=PTS-STARTPTS[a0]',
+      '[v0]null[vout]',
+      '[a0]anull[aout]'
+    ])
+  })
+})
+
+describe('hasOverlappingTransitions', () => {
+  it('is false when every boundary is a cut', () => {
+    expect(hasOverlappingTransitions([{ type: 'cut', duration: 0 }])).toBe(false)
+    expect(hasOverlappingTransitions([{ type: 'cut', duration: 0 }, { type: 'fade', duration: 1 }])).toBe(true)
+  })
+})
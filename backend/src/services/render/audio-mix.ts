@@ -0,0 +1,158 @@
+import { AudioRole, Keyframe } from '@invideo-studio/shared'
+import { compileKeyframes, formatNumber } from './keyframes'
+
+export interface AudioTrack {
+  inputIndex: number
+  role: AudioRole
+  startTime: number // Seconds on the scene timeline
+  duration: number
+  volume: number
+  fadeIn: number
+  fadeOut: number
+  volumeKeyframes?: Keyframe[]
+}
+
+export interface TimeRange {
+  start: number
+  end: number
+}
+
+export interface DuckingOptions {
+  level: number // Music gain while a voice-over is speaking (0-1)
+  attack: number // Seconds to ramp down before the voice starts
+  release: number // Seconds to ramp back up after the voice ends
+}
+
+export const DEFAULT_DUCKING: DuckingOptions = {
+  level: 0.25,
+  attack: 0.3,
+  release: 0.6
+}
+
+const AUDIO_FORMAT = 'aformat=sample_fmts=fltp:channel_layouts=stereo'
+
+/**
+ * Volume expression (of `t`) that dips to `level` around every range, with linear
+ * attack/release ramps. Overlapping ranges never duck deeper than `level`.
+ */
+export function buildDuckingExpression(ranges: TimeRange[], options: DuckingOptions = DEFAULT_DUCKING): string | null {
+  if (ranges.length === 0) return null
+
+  const amounts = ranges.map(range => {
+    const rampIn = `(t-${formatNumber(range.start - options.attack)})/${formatNumber(options.attack)}`
+    const rampOut = `${formatNumber(range.end + options.release)}-t`
+    return `clip(min(${rampIn},(${rampOut})/${formatNumber(options.release)}),0,1)`
+  })
+  const amount = amounts.reduce((expression, next) => `max(${expression},${next})`)
+
+  return `1-${formatNumber(1 - options.level)}*${amount}`
+}
+
+/**
+ * Filter chain that places one audio input on the scene timeline: trims it to the
+ * layer duration, applies fades, delays it to the layer start and applies the
+ * (optionally keyframed) volume and ducking envelopes.
+ */
+function buildTrackChain(track: AudioTrack, sampleRate: number, ducking: string | null): string {
+  const chain = [
+    `atrim=0:${formatNumber(track.duration)}`,
+    'asetpts=PTS-STARTPTS',
+    `aresample=${sampleRate}`,
+    AUDIO_FORMAT
+  ]
+
+  const fadeIn = Math.min(track.fadeIn, track.duration)
+  const fadeOut = Math.min(track.fadeOut, track.duration)
+  if (fadeIn > 0) {
+    chain.push(`afade=t=in:st=0:d=${formatNumber(fadeIn)}`)
+  }
+  if (fadeOut > 0) {
+    chain.push(`afade=t=out:st=${formatNumber(track.duration - fadeOut)}:d=${formatNumber(fadeOut)}`)
+  }
+
+  if (track.startTime > 0) {
+    chain.push(`adelay=${Math.round(track.startTime * 1000)}:all=1`)
+  }
+
+  // After the delay the stream clock equals scene time, which keyframes are compiled against
+  const volume = compileKeyframes(track.volumeKeyframes, track.volume, track.startTime)
+  if (volume !== '1') {
+    chain.push(`volume='${volume}':eval=frame`)
+  }
+
+  if (ducking && track.role === 'music') {
+    chain.push(`volume='${ducking}':eval=frame`)
+  }
+
+  return `[${track.inputIndex}:a]${chain.join(',')}`
+}
+
+/**
+ * Mix every audible track of a scene over the silent bed input. Music tracks are
+ * ducked under the scene's voice-over tracks. The result is labelled [aout].
+ */
+export function buildSceneAudioFilter(
+  tracks: AudioTrack[],
+  bedInputIndex: number,
+  sceneDuration: number,
+  sampleRate: number,
+  ducking: DuckingOptions = DEFAULT_DUCKING
+): string {
+  const voiceRanges = tracks
+    .filter(track => track.role === 'voiceover')
+    .map(track => ({ start: track.startTime, end: track.startTime + track.duration }))
+  const duckingExpression = buildDuckingExpression(voiceRanges, ducking)
+
+  const filters = [
+    `[${bedInputIndex}:a]atrim=0:${formatNumber(sceneDuration)},asetpts=PTS-STARTPTS,aresample=${sampleRate},${AUDIO_FORMAT}[bed]`
+  ]
+  const labels = ['[bed]']
+
+  tracks.forEach((track, index) => {
+    filters.push(`${buildTrackChain(track, sampleRate, duckingExpression)}[at${index}]`)
+    labels.push(`[at${index}]`)
+  })
+
+  if (tracks.length === 0) {
+    filters.push('[bed]anull[aout]')
+  } else {
+    // normalize=0 keeps each track at its own level instead of dividing by input count
+    filters.push(`${labels.join('')}amix=inputs=${labels.length}:duration=first:dropout_transition=0:normalize=0[aout]`)
+  }
+
+  return filters.join(';')
+}
+
+/**
+ * Mix a looping background music bed under the finished programme audio
+ * (input 0), ducked under the given voice-over ranges. Outputs [aout].
+ */
+export function buildBackgroundMusicFilter(
+  totalDuration: number,
+  volume: number,
+  voiceRanges: TimeRange[],
+  sampleRate: number,
+  ducking: DuckingOptions = DEFAULT_DUCKING
+): string {
+  const fadeOut = Math.min(2, totalDuration / 2)
+  const chain = [
+    `atrim=0:${formatNumber(totalDuration)}`,
+    'asetpts=PTS-STARTPTS',
+    `aresample=${sampleRate}`,
+    AUDIO_FORMAT,
+    `volume=${formatNumber(volume)}`,
+    `afade=t=in:st=0:d=${formatNumber(Math.min(1, totalDuration / 2))}`,
+    `afade=t=out:st=${formatNumber(totalDuration - fadeOut)}:d=${formatNumber(fadeOut)}`
+  ]
+
+  const duckingExpression = buildDuckingExpression(voiceRanges, ducking)
+  if (duckingExpression) {
+    chain.push(`volume='${duckingExpression}':eval=frame`)
+  }
+
+  return [
+    `[0:a]aresample=${sampleRate},${AUDIO_FORMAT}[programme]`,
+    `[1:a]${chain.join(',')}[music]`,
+    '[programme][music]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[aout]'
+  ].join(';')
+}
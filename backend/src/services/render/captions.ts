@@ -0,0 +1,198 @@
+import path from 'path'
+import {
+  CaptionStyle,
+  CaptionWordMotion,
+  LayerKeyframes,
+  RenderLayer,
+  getCaptionPages,
+  getCaptionWordMotion,
+  layoutCaptionPage,
+  resolveCaptionStyle
+} from '@invideo-studio/shared'
+import { resolveFont } from './fonts'
+import { LineRenderer, drawText } from './text'
+
+interface WordImage {
+  file: string
+  // Top-left and size in the caption layer's own (unrotated) coordinates
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+/**
+ * Position a point given in the caption layer's coordinates on the scene,
+ * rotating around the layer's top-left corner like the editor does
+ */
+function toScene(layer: RenderLayer, localX: number, localY: number) {
+  const angle = ((layer.rotation || 0) * Math.PI) / 180
+  return {
+    x: layer.x + localX * Math.cos(angle) - localY * Math.sin(angle),
+    y: layer.y + localX * Math.sin(angle) + localY * Math.cos(angle)
+  }
+}
+
+/**
+ * Keyframes moving and resizing a word image so it scales about its centre and
+ * lifts by the motion's offset. `shift` moves the motion, which is timed from the
+ * word's start, onto a layer that starts `shift` seconds earlier.
+ */
+function getWordKeyframes(
+  layer: RenderLayer,
+  image: WordImage,
+  motion: CaptionWordMotion,
+  shift: number
+): LayerKeyframes | undefined {
+  if (motion.scale.length === 0) return undefined
+
+  const frames = motion.scale.map((keyframe, index) => {
+    const scale = keyframe.value
+    const offsetY = motion.offsetY[index]?.value ?? 0
+    const origin = toScene(
+      layer,
+      image.left + (image.width * (1 - scale)) / 2,
+      image.top + (image.height * (1 - scale)) / 2 + offsetY
+    )
+    return { time: keyframe.time + shift, easing: keyframe.easing, scale, ...origin }
+  })
+
+  return {
+    x: frames.map(frame => ({ time: frame.time, value: frame.x, easing: frame.easing })),
+    y: frames.map(frame => ({ time: frame.time, value: frame.y, easing: frame.easing })),
+    width: frames.map(frame => ({ time: frame.time, value: image.width * frame.scale, easing: frame.easing })),
+    height: frames.map(frame => ({ time: frame.time, value: image.height * frame.scale, easing: frame.easing }))
+  }
+}
+
+function createImageLayer(
+  layer: RenderLayer,
+  id: string,
+  file: string,
+  box: { left: number, top: number, width: number, height: number },
+  from: number,
+  until: number,
+  keyframes?: LayerKeyframes
+): RenderLayer {
+  const origin = toScene(layer, box.left, box.top)
+
+  return {
+    id,
+    type: 'image',
+    startTime: layer.startTime + from,
+    duration: until - from,
+    x: origin.x,
+    y: origin.y,
+    width: box.width,
+    height: box.height,
+    rotation: layer.rotation,
+    opacity: layer.opacity,
+    keyframes,
+    muted: false,
+    volume: 1,
+    fadeIn: 0,
+    fadeOut: 0,
+    source: file,
+    style: { zIndex: layer.style?.zIndex }
+  }
+}
+
+/**
+ * Draw one word on a transparent PNG just large enough for its outline and shadow
+ */
+async function drawWord(
+  renderer: LineRenderer,
+  text: string,
+  color: string,
+  style: CaptionStyle,
+  left: number,
+  centerY: number,
+  file: string
+): Promise<WordImage> {
+  const glyphs = await renderer.render(text, color)
+  const pad = Math.ceil(
+    style.strokeWidth / 2 +
+    style.shadowBlur * 2 +
+    Math.max(Math.abs(style.shadowOffsetX), Math.abs(style.shadowOffsetY))
+  ) + 2
+  const width = glyphs.width + pad * 2
+  const height = glyphs.height + pad * 2
+
+  await drawText(
+    renderer,
+    [{ text, left: pad, top: pad }],
+    { ...style, color, backgroundColor: undefined },
+    width,
+    height,
+    file
+  )
+
+  return {
+    file,
+    left: Math.round(left) - pad,
+    top: Math.round(centerY - glyphs.height / 2) - pad,
+    width,
+    height
+  }
+}
+
+/**
+ * Burn a caption layer in as image layers the scene renderer already overlays:
+ * per word, an image for as long as the word is on screen and one in the
+ * highlight colour while it is spoken, animated with the preset's motion. Laid
+ * out like the editor's preview; the caption layer's own keyframes are not applied.
+ */
+export async function rasterizeCaptionLayer(layer: RenderLayer, workDir: string, filePrefix: string): Promise<RenderLayer[]> {
+  const style = resolveCaptionStyle(layer.style)
+  const renderer = new LineRenderer(resolveFont(style), style.fontSize)
+  const pages = getCaptionPages(layer.words || [], style.wordsPerPage, layer.duration)
+  // Width a space adds between words, however the glyph images are trimmed
+  const spaceWidth = await renderer.measure('x x') - await renderer.measure('xx')
+  const box = { left: 0, top: 0, width: Math.round(layer.width), height: Math.round(layer.height) }
+  const layers: RenderLayer[] = []
+
+  for (const [pageIndex, page] of pages.entries()) {
+    if (style.backgroundColor) {
+      const file = path.join(workDir, `${filePrefix}_page_${pageIndex}.png`)
+      await drawText(renderer, [], style, box.width, box.height, file)
+      layers.push(createImageLayer(layer, `${layer.id}-page-${pageIndex}`, file, box, page.start, page.end))
+    }
+
+    const widths = await Promise.all(page.words.map(word => renderer.measure(word.text)))
+    const positions = layoutCaptionPage(widths, spaceWidth, style, layer.width, layer.height)
+
+    for (const [wordIndex, word] of page.words.entries()) {
+      const motion = getCaptionWordMotion(page, wordIndex, style)
+      const { left, centerY } = positions[wordIndex]
+      const name = `${filePrefix}_page_${pageIndex}_word_${wordIndex}`
+
+      if (motion.visibleUntil > motion.visibleFrom) {
+        const image = await drawWord(renderer, word.text, style.color, style, left, centerY, path.join(workDir, `${name}.png`))
+        layers.push(createImageLayer(
+          layer,
+          `${layer.id}-${pageIndex}-${wordIndex}`,
+          image.file,
+          image,
+          motion.visibleFrom,
+          motion.visibleUntil,
+          getWordKeyframes(layer, image, motion, word.start - motion.visibleFrom)
+        ))
+      }
+
+      if (motion.highlightUntil > motion.highlightFrom) {
+        const image = await drawWord(renderer, word.text, style.highlightColor, style, left, centerY, path.join(workDir, `${name}_active.png`))
+        layers.push(createImageLayer(
+          layer,
+          `${layer.id}-${pageIndex}-${wordIndex}-active`,
+          image.file,
+          image,
+          motion.highlightFrom,
+          motion.highlightUntil,
+          getWordKeyframes(layer, image, motion, word.start - motion.highlightFrom)
+        ))
+      }
+    }
+  }
+
+  return layers
+}
@@ -0,0 +1,65 @@
+import path from 'path'
+import { FontFamily, TextStyle } from '@invideo-studio/shared'
+
+interface FontFaces {
+  name: string // Family name inside the font files
+  regular: string
+  bold: string
+  italic: string
+  boldItalic: string
+}
+
+// Editor font families mapped onto the Liberation fonts installed in the
+// backend image, which share their metrics so text wraps the same as in the editor
+const FONT_REGISTRY: Record<FontFamily, FontFaces> = {
+  Arial: {
+    name: 'Liberation Sans',
+    regular: 'LiberationSans-Regular.ttf',
+    bold: 'LiberationSans-Bold.ttf',
+    italic: 'LiberationSans-Italic.ttf',
+    boldItalic: 'LiberationSans-BoldItalic.ttf'
+  },
+  Helvetica: {
+    name: 'Liberation Sans',
+    regular: 'LiberationSans-Regular.ttf',
+    bold: 'LiberationSans-Bold.ttf',
+    italic: 'LiberationSans-Italic.ttf',
+    boldItalic: 'LiberationSans-BoldItalic.ttf'
+  },
+  'Times New Roman': {
+    name: 'Liberation Serif',
+    regular: 'LiberationSerif-Regular.ttf',
+    bold: 'LiberationSerif-Bold.ttf',
+    italic: 'LiberationSerif-Italic.ttf',
+    boldItalic: 'LiberationSerif-BoldItalic.ttf'
+  },
+  'Courier New': {
+    name: 'Liberation Mono',
+    regular: 'LiberationMono-Regular.ttf',
+    bold: 'LiberationMono-Bold.ttf',
+    italic: 'LiberationMono-Italic.ttf',
+    boldItalic: 'LiberationMono-BoldItalic.ttf'
+  }
+}
+
+const FONTS_DIR = process.env.FONTS_DIR || '/usr/share/fonts/liberation'
+
+export interface ResolvedFont {
+  file: string
+  // Pango font description without the size, e.g. `Liberation Sans Bold Italic`
+  description: string
+}
+
+/**
+ * Font file and Pango description for a text style's family, weight and slant
+ */
+export function resolveFont(style: Pick<TextStyle, 'fontFamily' | 'fontWeight' | 'fontStyle'>): ResolvedFont {
+  const faces = FONT_REGISTRY[style.fontFamily] || FONT_REGISTRY.Arial
+  const bold = style.fontWeight === 'bold'
+  const italic = style.fontStyle === 'italic'
+
+  const file = bold && italic ? faces.boldItalic : bold ? faces.bold : italic ? faces.italic : faces.regular
+  const description = [faces.name, bold && 'Bold', italic && 'Italic'].filter(Boolean).join(' ')
+
+  return { file: path.join(FONTS_DIR, file), description }
+}
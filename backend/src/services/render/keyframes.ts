@@ -0,0 +1,88 @@
+import {
+  AnimatableProperty,
+  EASING_MIN_SLOPE,
+  EASING_NEWTON_ITERATIONS,
+  Easing,
+  Keyframe,
+  LayerKeyframes,
+  getBezierPoints
+} from '@invideo-studio/shared'
+
+// The expressions below follow the shared interpolateKeyframes and applyEasing
+// step for step, so exported motion matches the editor's preview
+
+export function formatNumber(value: number): string {
+  return Number(value.toFixed(6)).toString()
+}
+
+// FFmpeg expression for the cubic bezier polynomial at parameter `s`
+function bezierExpression(s: string, a: number, b: number): string {
+  return `(3*(1-${s})*(1-${s})*${s}*${formatNumber(a)}+3*(1-${s})*${s}*${s}*${formatNumber(b)}+${s}*${s}*${s})`
+}
+
+function bezierSlopeExpression(s: string, a: number, b: number): string {
+  return `(3*(1-${s})*(1-${s})*${formatNumber(a)}+6*(1-${s})*${s}*(${formatNumber(b - a)})+3*${s}*${s}*(${formatNumber(1 - b)}))`
+}
+
+/**
+ * Eased progress expression for linear progress `progress`. Bezier curves are solved
+ * with a fixed number of Newton steps, storing intermediates in expression variables
+ * 0 (target progress) and 1 (curve parameter).
+ */
+function easingExpression(progress: string, easing: Easing): string {
+  const points = getBezierPoints(easing)
+  if (!points) return progress
+
+  const [x1, y1, x2, y2] = points
+  const s = 'ld(1)'
+  const steps = [`st(0,${progress})`, 'st(1,ld(0))']
+  for (let i = 0; i < EASING_NEWTON_ITERATIONS; i++) {
+    steps.push(
+      `st(1,clip(${s}-(${bezierExpression(s, x1, x2)}-ld(0))/max(${bezierSlopeExpression(s, x1, x2)},${formatNumber(EASING_MIN_SLOPE)}),0,1))`
+    )
+  }
+  steps.push(bezierExpression(s, y1, y2))
+  return `(${steps.join(';')})`
+}
+
+/**
+ * Compile a keyframe track into an FFmpeg expression of `timeVar`.
+ * `startTime` is where the layer begins on the scene timeline, since keyframe
+ * times are relative to the layer start.
+ */
+export function compileKeyframes(
+  keyframes: Keyframe[] | undefined,
+  fallback: number,
+  startTime: number,
+  timeVar = 't'
+): string {
+  if (!keyframes || keyframes.length === 0) return formatNumber(fallback)
+
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time)
+  if (sorted.length === 1) return formatNumber(sorted[0].value)
+
+  const localTime = `(${timeVar}-${formatNumber(startTime)})`
+  let expression = formatNumber(sorted[sorted.length - 1].value)
+
+  for (let i = sorted.length - 2; i >= 0; i--) {
+    const from = sorted[i]
+    const to = sorted[i + 1]
+    const progress = `clip((${localTime}-${formatNumber(from.time)})/${formatNumber(to.time - from.time)},0,1)`
+    const segment = `${formatNumber(from.value)}+(${formatNumber(to.value - from.value)})*${easingExpression(progress, from.easing)}`
+    expression = `if(lt(${localTime},${formatNumber(to.time)}),${segment},${expression})`
+  }
+
+  return `if(lt(${localTime},${formatNumber(sorted[0].time)}),${formatNumber(sorted[0].value)},${expression})`
+}
+
+export function isAnimated(keyframes: LayerKeyframes | undefined, property: AnimatableProperty): boolean {
+  return (keyframes?.[property]?.length || 0) > 1
+}
+
+/**
+ * Largest value a property reaches, used to size fixed canvases (e.g. rotation padding)
+ */
+export function getMaxValue(keyframes: Keyframe[] | undefined, fallback: number): number {
+  if (!keyframes || keyframes.length === 0) return fallback
+  return Math.max(...keyframes.map(k => k.value))
+}
@@ -0,0 +1,122 @@
+import os from 'os'
+import IORedis from 'ioredis'
+import { AdminQueue, RenderQuality, RenderTimeStats, WorkerStats } from '@invideo-studio/shared'
+
+// Counters live in Redis so the API sees figures from every worker, like the scene cache's
+const WORKERS_KEY = 'video-render:metrics:workers'
+const RENDER_TIMES_KEY = 'video-render:metrics:render-times'
+
+// A stopped worker's figures are dropped after a day without activity
+const WORKER_STATS_TTL = 24 * 60 * 60
+
+const QUALITIES: RenderQuality[] = ['draft', 'standard', 'high', 'ultra']
+
+function getWorkerKey(worker: string): string {
+  return `video-render:metrics:worker:${worker}`
+}
+
+/**
+ * Name the workers in this process are registered under: host and process id
+ */
+export function getWorkerName(): string {
+  return `${os.hostname()}:${process.pid}`
+}
+
+/**
+ * Throughput of each render worker process and render times by quality
+ */
+export class RenderMetrics {
+  constructor(private redis: IORedis) {}
+
+  async registerWorker(worker: string, queues: AdminQueue[]) {
+    const now = Date.now()
+
+    await this.redis
+      .multi()
+      .hset(getWorkerKey(worker), { startedAt: now, queues: queues.join(',') })
+      .expire(getWorkerKey(worker), WORKER_STATS_TTL)
+      .zadd(WORKERS_KEY, now, worker)
+      .exec()
+  }
+
+  /**
+   * Count a job a worker finished, successfully or not, and the time it spent on it
+   */
+  async recordJob(worker: string, outcome: 'completed' | 'failed', busyMs: number) {
+    const now = Date.now()
+
+    await this.redis
+      .multi()
+      .hincrby(getWorkerKey(worker), outcome, 1)
+      .hincrby(getWorkerKey(worker), 'busyMs', Math.max(0, Math.round(busyMs)))
+      .hset(getWorkerKey(worker), 'lastActiveAt', now)
+      .expire(getWorkerKey(worker), WORKER_STATS_TTL)
+      .zadd(WORKERS_KEY, now, worker)
+      .exec()
+  }
+
+  /**
+   * Record how long a render took and how much video it made
+   */
+  async recordRender(quality: RenderQuality, renderMs: number, videoSeconds: number) {
+    await this.redis
+      .multi()
+      .hincrby(RENDER_TIMES_KEY, `${quality}:count`, 1)
+      .hincrby(RENDER_TIMES_KEY, `${quality}:ms`, Math.round(renderMs))
+      .hincrbyfloat(RENDER_TIMES_KEY, `${quality}:videoSeconds`, videoSeconds)
+      .exec()
+  }
+
+  /**
+   * Figures for every worker active in the last day. `online` is left for the
+   * caller, which knows which workers are connected.
+   */
+  async getWorkerStats(): Promise<Omit<WorkerStats, 'online'>[]> {
+    const now = Date.now()
+    await this.redis.zremrangebyscore(WORKERS_KEY, 0, now - WORKER_STATS_TTL * 1000)
+    const workers = await this.redis.zrange(WORKERS_KEY, 0, -1)
+
+    const stats = await Promise.all(workers.map(async (worker): Promise<Omit<WorkerStats, 'online'> | undefined> => {
+      const values = await this.redis.hgetall(getWorkerKey(worker))
+      // Expired since it was last listed
+      if (!values.startedAt) return undefined
+
+      const startedAt = Number(values.startedAt)
+      const completed = Number(values.completed) || 0
+      const failed = Number(values.failed) || 0
+      const hours = Math.max(now - startedAt, 1) / (60 * 60 * 1000)
+
+      return {
+        name: worker,
+        queues: (values.queues || '').split(',').filter(Boolean) as AdminQueue[],
+        startedAt,
+        lastActiveAt: values.lastActiveAt ? Number(values.lastActiveAt) : null,
+        completed,
+        failed,
+        busySeconds: (Number(values.busyMs) || 0) / 1000,
+        jobsPerHour: (completed + failed) / hours
+      }
+    }))
+
+    return stats.filter((worker): worker is Omit<WorkerStats, 'online'> => worker !== undefined)
+  }
+
+  async getRenderTimes(): Promise<RenderTimeStats[]> {
+    const values = await this.redis.hgetall(RENDER_TIMES_KEY)
+
+    return QUALITIES
+      .map(quality => {
+        const renders = Number(values[`${quality}:count`]) || 0
+        const seconds = (Number(values[`${quality}:ms`]) || 0) / 1000
+        const videoMinutes = (Number(values[`${quality}:videoSeconds`]) || 0) / 60
+
+        return {
+          quality,
+          renders,
+          averageSeconds: renders ? seconds / renders : 0,
+          secondsPerVideoMinute: videoMinutes ? seconds / videoMinutes : 0
+        }
+      })
+      .filter(stats => stats.renders > 0)
+  }
+}
@@ -0,0 +1,78 @@
+import { RenderStage } from '@invideo-studio/shared'
+
+// Share of the overall job each worker stage accounts for, as [start, end] percent
+const STAGE_RANGES: Partial<Record<RenderStage, [number, number]>> = {
+  processing: [0, 5],
+  rendering: [5, 85],
+  encoding: [85, 95],
+  uploading: [95, 100]
+}
+
+// Rough encode speed (seconds of work per second of output) for each quality,
+// used to estimate render time before a job has started
+const REALTIME_FACTORS: Record<string, number> = {
+  draft: 0.5,
+  standard: 1,
+  high: 2,
+  ultra: 4
+}
+
+/**
+ * Parse an FFmpeg timemark (`HH:MM:SS.ms`) into seconds
+ */
+export function parseTimemark(timemark: string): number {
+  const parts = timemark.split(':').map(Number)
+  if (parts.some(isNaN)) return 0
+  return parts.reduce((total, part) => total * 60 + part, 0)
+}
+
+/**
+ * Fraction (0-1) of an FFmpeg run that is done, from its timemark and the output length
+ */
+export function getTimemarkFraction(timemark: string | undefined, duration: number): number {
+  if (!timemark || duration <= 0) return 0
+  return Math.min(1, Math.max(0, parseTimemark(timemark) / duration))
+}
+
+/**
+ * Fraction of the rendering stage that is done, from how far along each scene is.
+ * Scenes are weighted by duration since render time scales with the number of frames.
+ */
+export function getRenderingFraction(sceneDurations: number[], sceneFractions: number[]): number {
+  const total = sceneDurations.reduce((sum, duration) => sum + duration, 0)
+  if (total <= 0) return 0
+
+  const done = sceneDurations.reduce((sum, duration, index) => sum + duration * (sceneFractions[index] || 0), 0)
+  return Math.min(1, done / total)
+}
+
+/**
+ * Overall job percent for a fraction of the given stage
+ */
+export function getJobPercent(stage: RenderStage, stageFraction: number): number {
+  if (stage === 'completed') return 100
+
+  const range = STAGE_RANGES[stage]
+  if (!range) return 0
+
+  const [start, end] = range
+  return start + (end - start) * Math.min(1, Math.max(0, stageFraction))
+}
+
+/**
+ * Seconds remaining, extrapolated from the time spent so far. Undefined until
+ * there is enough progress to go on.
+ */
+export function estimateRemainingSeconds(elapsedSeconds: number, percent: number): number | undefined {
+  // Setup time says little about how long the encode will take
+  if (percent <= STAGE_RANGES.processing![1] || elapsedSeconds <= 0) return undefined
+  return Math.round(elapsedSeconds * (100 - percent) / percent)
+}
+
+/**
+ * Up-front render time estimate for a job that has not started yet
+ */
+export function estimateRenderSeconds(outputDuration: number, quality: string): number {
+  const factor = REALTIME_FACTORS[quality] ?? REALTIME_FACTORS.standard
+  return Math.ceil(outputDuration * factor)
+}
@@ -0,0 +1,177 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import IORedis from 'ioredis'
+import { RenderScene, RenderSettings } from '@invideo-studio/shared'
+import { logger } from '../../utils/logger'
+
+// Bump when the scene renderer's output changes so stale files are never reused
+const SCENE_RENDERER_VERSION = 3
+
+// Hit/miss counters live in Redis so the API sees figures from every worker
+const STATS_KEY = 'video-render:scene-cache:stats'
+
+export interface SceneCacheStats {
+  hits: number
+  misses: number
+  hitRate: number // 0-1
+  entries: number
+  sizeBytes: number
+  maxBytes: number
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same way
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Only what changes a rendered scene's pixels and samples: ids and transitions
+ * (applied when scenes are joined) are left out, and layers are put in paint order
+ */
+function normalizeScene(scene: RenderScene, settings: RenderSettings) {
+  return {
+    version: SCENE_RENDERER_VERSION,
+    duration: scene.duration,
+    layers: [...scene.layers]
+      .sort((a, b) => (a.style?.zIndex || 0) - (b.style?.zIndex || 0))
+      .map(({ id, ...layer }) => layer),
+    settings: {
+      width: settings.width,
+      height: settings.height,
+      frameRate: settings.frameRate,
+      quality: settings.quality,
+      audioSampleRate: settings.audioSampleRate
+    }
+  }
+}
+
+/**
+ * Content-addressed store of rendered scene files, so re-exporting a project only
+ * renders the scenes that changed. Least recently used files are evicted once the
+ * cache grows past its size limit.
+ */
+export class SceneCache {
+  private redis: IORedis
+  private cacheDir: string
+  private maxBytes: number
+
+  constructor(redis: IORedis) {
+    this.redis = redis
+    this.cacheDir = process.env.RENDER_CACHE_DIR || '/app/cache/scenes'
+    this.maxBytes = parseInt(process.env.RENDER_CACHE_MAX_MB || '5120') * 1024 * 1024
+  }
+
+  getKey(scene: RenderScene, settings: RenderSettings): string {
+    return crypto
+      .createHash('sha256')
+      .update(stableStringify(normalizeScene(scene, settings)))
+      .digest('hex')
+  }
+
+  /**
+   * Copy a cached scene to `destination`. Resolves false on a miss.
+   */
+  async restore(key: string, destination: string): Promise<boolean> {
+    const file = this.getFilePath(key)
+
+    try {
+      // Mark as recently used before copying so eviction leaves it alone
+      const now = new Date()
+      await fs.utimes(file, now, now)
+      await fs.copyFile(file, destination)
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        logger.warn(`Failed to read cached scene ${key}:`, error)
+      }
+      await this.redis.hincrby(STATS_KEY, 'misses', 1)
+      return false
+    }
+
+    await this.redis.hincrby(STATS_KEY, 'hits', 1)
+    return true
+  }
+
+  /**
+   * Add a rendered scene to the cache, then evict down to the size limit
+   */
+  async store(key: string, source: string) {
+    const file = this.getFilePath(key)
+    // Copy under a temporary name so other workers never see a partial file
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`
+
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true })
+      await fs.copyFile(source, tempFile)
+      await fs.rename(tempFile, file)
+      await this.evict()
+    } catch (error) {
+      logger.warn(`Failed to cache scene ${key}:`, error)
+      await fs.rm(tempFile, { force: true })
+    }
+  }
+
+  async getStats(): Promise<SceneCacheStats> {
+    const stats = await this.redis.hgetall(STATS_KEY)
+    const hits = Number(stats.hits) || 0
+    const misses = Number(stats.misses) || 0
+
+    return {
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      entries: Number(stats.entries) || 0,
+      sizeBytes: Number(stats.sizeBytes) || 0,
+      maxBytes: this.maxBytes
+    }
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.cacheDir, `${key}.mp4`)
+  }
+
+  /**
+   * Delete least recently used scenes until the cache fits its size limit, and
+   * record what is left for the stats
+   */
+  private async evict() {
+    const names = (await fs.readdir(this.cacheDir)).filter(name => name.endsWith('.mp4'))
+    const files = (await Promise.all(names.map(async (name) => {
+      const file = path.join(this.cacheDir, name)
+      try {
+        const { size, mtimeMs } = await fs.stat(file)
+        return { file, size, usedAt: mtimeMs }
+      } catch {
+        // Evicted by another worker in the meantime
+        return null
+      }
+    }))).filter(entry => entry !== null)
+
+    files.sort((a, b) => a.usedAt - b.usedAt)
+    let sizeBytes = files.reduce((sum, entry) => sum + entry.size, 0)
+    let entries = files.length
+
+    for (const entry of files) {
+      if (sizeBytes <= this.maxBytes) break
+
+      await fs.rm(entry.file, { force: true })
+      sizeBytes -= entry.size
+      entries--
+      logger.info(`Evicted cached scene ${path.basename(entry.file)}`)
+    }
+
+    await this.redis.hset(STATS_KEY, { entries, sizeBytes })
+  }
+}
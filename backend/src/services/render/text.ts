@@ -0,0 +1,306 @@
+import sharp from 'sharp'
+import { RenderLayer, TextStyle, resolveTextStyle } from '@invideo-studio/shared'
+import { resolveFont, ResolvedFont } from './fonts'
+
+// At 72 dpi Pango's point sizes are the editor's pixel sizes
+const TEXT_DPI = 72
+
+export interface Glyphs {
+  data: Buffer
+  width: number
+  height: number
+}
+
+export interface PlacedLine {
+  text: string
+  left: number
+  top: number
+}
+
+/**
+ * Escape text for Pango markup so every character is drawn literally
+ */
+export function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Rasterizes single lines of text in one font, reusing earlier renders
+ */
+export class LineRenderer {
+  private glyphs = new Map<string, Promise<Glyphs>>()
+
+  constructor(private font: ResolvedFont, private fontSize: number) {}
+
+  render(text: string, color: string): Promise<Glyphs> {
+    const key = `${color}\n${text}`
+    let glyphs = this.glyphs.get(key)
+    if (!glyphs) {
+      glyphs = this.rasterize(text, color)
+      this.glyphs.set(key, glyphs)
+    }
+    return glyphs
+  }
+
+  async measure(text: string): Promise<number> {
+    if (!text) return 0
+    return (await this.render(text, '#000000')).width
+  }
+
+  private async rasterize(text: string, color: string): Promise<Glyphs> {
+    const { data, info } = await sharp({
+      text: {
+        text: `<span foreground="${escapeMarkup(color)}">${escapeMarkup(text)}</span>`,
+        font: `${this.font.description} ${this.fontSize}`,
+        fontfile: this.font.file,
+        rgba: true,
+        dpi: TEXT_DPI
+      }
+    })
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+
+    return { data, width: info.width, height: info.height }
+  }
+}
+
+/**
+ * Break text into lines the way Konva's `Text` does with `wrap="word"`: explicit
+ * newlines first, then at the last space or dash that fits the width, falling back
+ * to breaking mid-word. Stops at the last line that fits the height.
+ */
+export async function wrapText(
+  content: string,
+  maxWidth: number,
+  maxLines: number,
+  renderer: Pick<LineRenderer, 'measure'>
+): Promise<string[]> {
+  const lines: string[] = []
+
+  for (let line of content.split('\n')) {
+    if (lines.length >= maxLines) break
+
+    if (await renderer.measure(line) <= maxWidth) {
+      lines.push(line)
+      continue
+    }
+
+    while (line.length > 0 && lines.length < maxLines) {
+      // Longest prefix that fits
+      let low = 0
+      let high = line.length
+      let match = ''
+      while (low < high) {
+        const middle = (low + high) >>> 1
+        const candidate = line.slice(0, middle + 1)
+        if (await renderer.measure(candidate) <= maxWidth) {
+          low = middle + 1
+          match = candidate
+        } else {
+          high = middle
+        }
+      }
+
+      // Not even one character fits
+      if (!match) break
+
+      // Prefer breaking after a space or dash
+      const next = line[match.length]
+      const wrapIndex = next === ' ' || next === '-'
+        ? match.length
+        : Math.max(match.lastIndexOf(' '), match.lastIndexOf('-')) + 1
+      if (wrapIndex > 0) {
+        low = wrapIndex
+        match = match.slice(0, low)
+      }
+
+      lines.push(match.trimEnd())
+      line = line.slice(low).trimStart()
+
+      if (line.length > 0 && await renderer.measure(line) <= maxWidth && lines.length < maxLines) {
+        lines.push(line)
+        break
+      }
+    }
+  }
+
+  return lines
+}
+
+/**
+ * Offsets to draw the glyphs at so their union forms an outline of the given
+ * radius; rings a pixel apart so thick outlines have no gaps
+ */
+function getOutlineOffsets(radius: number): [number, number][] {
+  const offsets: [number, number][] = []
+  const rings: number[] = []
+  for (let ring = 1; ring < radius; ring++) rings.push(ring)
+  rings.push(radius)
+
+  for (const ring of rings) {
+    const steps = Math.max(8, Math.ceil(2 * Math.PI * ring))
+    for (let step = 0; step < steps; step++) {
+      const angle = (2 * Math.PI * step) / steps
+      offsets.push([Math.round(Math.cos(angle) * ring), Math.round(Math.sin(angle) * ring)])
+    }
+  }
+
+  return offsets
+}
+
+/**
+ * Lay out wrapped lines inside the layer box as Konva does: each line centred
+ * vertically in a slot of `lineHeight * fontSize`, the block aligned within the padding
+ */
+function placeLines(lines: string[], lineGlyphs: Glyphs[], style: TextStyle, width: number, height: number): PlacedLine[] {
+  const lineHeight = style.lineHeight * style.fontSize
+  const innerWidth = width - style.padding * 2
+  const blockHeight = lines.length * lineHeight
+  const freeHeight = height - style.padding * 2 - blockHeight
+  const alignY = style.verticalAlign === 'middle' ? freeHeight / 2 : style.verticalAlign === 'bottom' ? freeHeight : 0
+
+  return lines.map((text, index) => {
+    const glyphs = lineGlyphs[index]
+    const alignX = style.textAlign === 'center'
+      ? (innerWidth - glyphs.width) / 2
+      : style.textAlign === 'right' ? innerWidth - glyphs.width : 0
+
+    return {
+      text,
+      left: Math.round(style.padding + alignX),
+      top: Math.round(style.padding + alignY + lineHeight * (index + 0.5) - glyphs.height / 2)
+    }
+  })
+}
+
+/**
+ * Draw the same text at each position (and each outline offset around it) in one colour
+ */
+async function drawGlyphs(
+  renderer: LineRenderer,
+  lines: PlacedLine[],
+  color: string,
+  offsets: [number, number][],
+  margin: number
+): Promise<sharp.OverlayOptions[]> {
+  const overlays: sharp.OverlayOptions[] = []
+
+  for (const line of lines) {
+    if (!line.text) continue
+
+    const glyphs = await renderer.render(line.text, color)
+    for (const [dx, dy] of offsets) {
+      overlays.push({
+        input: glyphs.data,
+        raw: { width: glyphs.width, height: glyphs.height, channels: 4 },
+        left: margin + line.left + dx,
+        top: margin + line.top + dy
+      })
+    }
+  }
+
+  return overlays
+}
+
+function createCanvas(width: number, height: number) {
+  return sharp({
+    create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } }
+  })
+}
+
+/**
+ * Render a text layer to a transparent PNG the size of the layer, matching the
+ * editor's Konva `Text`: font, alignment, line height, wrapping to the layer
+ * width, outline, drop shadow and a rounded background box. Effects that would
+ * spill outside the layer are clipped to it.
+ */
+export async function renderTextImage(layer: RenderLayer, outputFile: string): Promise<void> {
+  const style = resolveTextStyle(layer.style)
+  const width = Math.max(1, Math.round(layer.width))
+  const height = Math.max(1, Math.round(layer.height))
+  const renderer = new LineRenderer(resolveFont(style), style.fontSize)
+
+  // Like Konva, the first line is always drawn and the rest only while they fit
+  const lineHeight = style.lineHeight * style.fontSize
+  const maxLines = Math.max(1, Math.floor((height - style.padding * 2) / lineHeight))
+  const content = (layer.content || '').replace(/\r\n?/g, '\n')
+  const lines = await wrapText(content, Math.max(1, width - style.padding * 2), maxLines, renderer)
+  const lineGlyphs = await Promise.all(lines.map(line => line
+    ? renderer.render(line, style.color)
+    : Promise.resolve({ data: Buffer.alloc(0), width: 0, height: 0 })
+  ))
+  const placed = placeLines(lines, lineGlyphs, style, width, height)
+
+  await drawText(renderer, placed, style, width, height, outputFile)
+}
+
+/**
+ * Draw placed lines onto a transparent PNG of the given size: background box,
+ * drop shadow, outline, then fill. Anything outside the image is clipped.
+ */
+export async function drawText(
+  renderer: LineRenderer,
+  placed: PlacedLine[],
+  style: TextStyle,
+  width: number,
+  height: number,
+  outputFile: string
+): Promise<void> {
+  // Work on a larger canvas so glyphs taller than the layer still fit, then crop
+  const margin = Math.ceil(style.fontSize * 2 + style.strokeWidth + style.shadowBlur * 2)
+  const canvasWidth = width + margin * 2
+  const canvasHeight = height + margin * 2
+
+  // The outline is centred on the glyph edge and drawn behind the fill, so half of it shows
+  const fillOffsets: [number, number][] = [[0, 0]]
+  const strokeOffsets = style.strokeWidth > 0 ? getOutlineOffsets(style.strokeWidth / 2) : []
+  const overlays: sharp.OverlayOptions[] = []
+
+  if (style.backgroundColor) {
+    const box = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="${width}" height="${height}" rx="${style.cornerRadius}" ry="${style.cornerRadius}" fill="${escapeMarkup(style.backgroundColor)}"/></svg>`
+    overlays.push({ input: Buffer.from(box), left: margin, top: margin })
+  }
+
+  if (style.shadowOpacity > 0) {
+    const shadowOverlays = await drawGlyphs(renderer, placed, style.shadowColor, [...strokeOffsets, ...fillOffsets], margin)
+    const shadow = await createCanvas(canvasWidth, canvasHeight)
+      .composite(shadowOverlays)
+      .raw()
+      .toBuffer()
+
+    let shadowImage = sharp(shadow, { raw: { width: canvasWidth, height: canvasHeight, channels: 4 } })
+    if (style.shadowBlur > 0) {
+      // Konva's blur is a radius; sharp takes a Gaussian sigma
+      shadowImage = shadowImage.blur(Math.max(0.3, style.shadowBlur / 2))
+    }
+    const shadowData = await shadowImage
+      .linear([1, 1, 1, style.shadowOpacity], [0, 0, 0, 0])
+      .raw()
+      .toBuffer()
+
+    overlays.push({
+      input: shadowData,
+      raw: { width: canvasWidth, height: canvasHeight, channels: 4 },
+      left: Math.round(style.shadowOffsetX),
+      top: Math.round(style.shadowOffsetY)
+    })
+  }
+
+  overlays.push(...await drawGlyphs(renderer, placed, style.strokeColor, strokeOffsets, margin))
+  overlays.push(...await drawGlyphs(renderer, placed, style.color, fillOffsets, margin))
+
+  const composed = await createCanvas(canvasWidth, canvasHeight)
+    .composite(overlays)
+    .raw()
+    .toBuffer()
+
+  await sharp(composed, { raw: { width: canvasWidth, height: canvasHeight, channels: 4 } })
+    .extract({ left: margin, top: margin, width, height })
+    .png()
+    .toFile(outputFile)
+}
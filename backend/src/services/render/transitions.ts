@@ -0,0 +1,77 @@
+import {
+  TransitionType,
+  SceneTiming,
+  BoundaryTransition,
+  resolveBoundaryTransitions
+} from '@invideo-studio/shared'
+
+// FFmpeg xfade transition names for each editor transition type
+const XFADE_TRANSITIONS: Record<Exclude<TransitionType, 'cut'>, string> = {
+  fade: 'fade',
+  slide: 'slideleft',
+  zoom: 'zoomin',
+  wipe: 'wipeleft'
+}
+
+export function hasOverlappingTransitions(boundaries: BoundaryTransition[]): boolean {
+  return boundaries.some(boundary => boundary.type !== 'cut')
+}
+
+/**
+ * Build a filter graph joining pre-rendered scene files (inputs 0..n-1, each with
+ * one video and one audio stream) with xfade/acrossfade at every transition and
+ * plain concatenation at hard cuts. Outputs are labelled [vout] and [aout].
+ */
+export function buildTransitionFilter(
+  scenes: SceneTiming[],
+  frameRate: number,
+  sampleRate: number
+): string {
+  const boundaries = resolveBoundaryTransitions(scenes)
+  const filters: string[] = []
+
+  // Normalise timestamps so xfade offsets line up with scene durations
+  scenes.forEach((_, index) => {
+    filters.push(`[${index}:v]settb=AVTB,setpts=PTS-STARTPTS,fps=${frameRate},format=yuv420p[v${index}]`)
+    filters.push(`[${index}:a]aresample=${sampleRate},asetpts=PTS-STARTPTS[a${index}]`)
+  })
+
+  let videoLabel = 'v0'
+  let audioLabel = 'a0'
+  let elapsed = scenes[0]?.duration || 0
+
+  boundaries.forEach((boundary, index) => {
+    const nextIndex = index + 1
+    const nextDuration = scenes[nextIndex].duration
+    const videoOut = `vx${nextIndex}`
+    const audioOut = `ax${nextIndex}`
+
+    if (boundary.type === 'cut') {
+      filters.push(`[${videoLabel}][v${nextIndex}]concat=n=2:v=1:a=0[${videoOut}]`)
+      filters.push(`[${audioLabel}][a${nextIndex}]concat=n=2:v=0:a=1[${audioOut}]`)
+      elapsed += nextDuration
+    } else {
+      const offset = elapsed - boundary.duration
+      const transition = XFADE_TRANSITIONS[boundary.type]
+      filters.push(
+        `[${videoLabel}][v${nextIndex}]xfade=transition=${transition}:duration=${formatSeconds(boundary.duration)}:offset=${formatSeconds(offset)}[${videoOut}]`
+      )
+      filters.push(
+        `[${audioLabel}][a${nextIndex}]acrossfade=d=${formatSeconds(boundary.duration)}:c1=tri:c2=tri[${audioOut}]`
+      )
+      elapsed = offset + nextDuration
+    }
+
+    videoLabel = videoOut
+    audioLabel = audioOut
+  })
+
+  filters.push(`[${videoLabel}]null[vout]`)
+  filters.push(`[${audioLabel}]anull[aout]`)
+
+  return filters.join(';')
+}
+
+function formatSeconds(seconds: number): string {
+  return Number(seconds.toFixed(3)).toString()
+}
@@ -0,0 +1,140 @@
+import IORedis from 'ioredis'
+import {
+  StockAsset,
+  StockProvider,
+  StockProviderResult,
+  StockSearch,
+  StockSearchResult
+} from '@invideo-studio/shared'
+import { StockAdapter, StockPage, StockQuery, getStockAdapters } from './stock'
+import { getFixtureMode } from './stock/transport'
+import { logger } from '../utils/logger'
+
+const CACHE_PREFIX = 'stock-search'
+
+// Pixabay asks API users to cache responses for a day; Pexels results change no faster
+const CACHE_TTL = parseInt(process.env.STOCK_CACHE_TTL || String(24 * 60 * 60))
+
+// One provider's part of a search: its page of results, or why there is none
+type ProviderSearch =
+  | { provider: StockProvider; page: StockPage }
+  | { provider: StockProvider; error: string }
+
+const redisConnection = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD
+}
+
+function getCacheKey(provider: StockProvider, query: StockQuery): string {
+  return [CACHE_PREFIX, provider, query.type, query.page, query.perPage, query.query.toLowerCase()].join(':')
+}
+
+/**
+ * Alternate results so every provider is represented near the top of a page
+ */
+function interleave(pages: StockAsset[][]): StockAsset[] {
+  const results: StockAsset[] = []
+  const longest = Math.max(0, ...pages.map(page => page.length))
+
+  for (let index = 0; index < longest; index++) {
+    for (const page of pages) {
+      if (page[index]) results.push(page[index])
+    }
+  }
+
+  return results
+}
+
+/**
+ * Searches stock photo and video libraries at once. Each page is split evenly
+ * between the providers searched, so page N of the combined results is page N
+ * of each provider's.
+ */
+export class StockService {
+  private adapters: StockAdapter[]
+  private redis: IORedis
+  private cacheEnabled: boolean
+
+  constructor() {
+    this.adapters = getStockAdapters()
+    this.redis = new IORedis(redisConnection)
+    // Recorded responses are already local
+    this.cacheEnabled = getFixtureMode() !== 'replay'
+  }
+
+  /**
+   * Providers that can be searched with the current configuration
+   */
+  getProviders(): StockProvider[] {
+    return this.adapters.map(adapter => adapter.name)
+  }
+
+  async search(search: StockSearch): Promise<StockSearchResult> {
+    const adapters = this.adapters.filter(adapter => !search.providers || search.providers.includes(adapter.name))
+    if (!adapters.length) {
+      throw new Error('No stock providers are configured')
+    }
+
+    const query: StockQuery = {
+      query: search.query,
+      type: search.type,
+      page: search.page,
+      perPage: Math.ceil(search.perPage / adapters.length)
+    }
+
+    const pages = await Promise.all(adapters.map(async (adapter): Promise<ProviderSearch> => {
+      try {
+        return { provider: adapter.name, page: await this.searchProvider(adapter, query) }
+      } catch (error) {
+        logger.warn(`Stock search on ${adapter.name} failed:`, error)
+        return { provider: adapter.name, error: `${adapter.name} search failed` }
+      }
+    }))
+
+    if (pages.every(result => !('page' in result))) {
+      throw new Error('Stock search failed')
+    }
+
+    const providers: StockProviderResult[] = pages.map(result =>
+      'page' in result
+        ? { provider: result.provider, total: result.page.total }
+        : { provider: result.provider, total: 0, error: result.error }
+    )
+
+    return {
+      results: interleave(pages.map(result => 'page' in result ? result.page.results : [])).slice(0, search.perPage),
+      page: search.page,
+      perPage: search.perPage,
+      total: providers.reduce((total, provider) => total + provider.total, 0),
+      hasMore: providers.some(provider => provider.total > search.page * query.perPage),
+      providers
+    }
+  }
+
+  async close() {
+    this.redis.disconnect()
+  }
+
+  private async searchProvider(adapter: StockAdapter, query: StockQuery): Promise<StockPage> {
+    const key = getCacheKey(adapter.name, query)
+
+    if (this.cacheEnabled) {
+      const cached = await this.redis.get(key).catch(error => {
+        logger.warn('Stock search cache read failed:', error)
+        return null
+      })
+      if (cached) return JSON.parse(cached)
+    }
+
+    const page = await adapter.search(query)
+
+    if (this.cacheEnabled) {
+      await this.redis.set(key, JSON.stringify(page), 'EX', CACHE_TTL).catch(error => {
+        logger.warn('Stock search cache write failed:', error)
+      })
+    }
+
+    return page
+  }
+}
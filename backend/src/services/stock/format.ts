@@ -0,0 +1,16 @@
+/**
+ * A readable title from a provider page URL's slug, e.g.
+ * `https://www.pexels.com/video/aerial-view-of-a-city-1234/` → 'Aerial view of a city'
+ */
+export function titleFromPageUrl(url: string, fallback: string): string {
+  const slug = url.replace(/\/+$/, '').split('/').pop() || ''
+  const words = slug.split('-').filter(word => word && !/^\d+$/.test(word))
+  if (!words.length) return fallback
+
+  const title = words.join(' ')
+  return title.charAt(0).toUpperCase() + title.slice(1)
+}
+
+export function splitTags(tags: string | undefined): string[] {
+  return (tags || '').split(',').map(tag => tag.trim()).filter(Boolean)
+}
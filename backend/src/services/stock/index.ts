@@ -0,0 +1,32 @@
+import { StockProvider } from '@invideo-studio/shared'
+import { StockAdapter, StockTransport } from './types'
+import { createTransport, getFixtureMode } from './transport'
+import { PixabayAdapter } from './pixabay'
+import { PexelsAdapter } from './pexels'
+
+export * from './types'
+
+// Each provider's adapter and the environment variable holding its API key
+const PROVIDERS: Record<StockProvider, { apiKey: string, create: (transport: StockTransport, apiKey?: string) => StockAdapter }> = {
+  pixabay: {
+    apiKey: 'PIXABAY_API_KEY',
+    create: (transport, apiKey) => new PixabayAdapter(transport, apiKey)
+  },
+  pexels: {
+    apiKey: 'PEXELS_API_KEY',
+    create: (transport, apiKey) => new PexelsAdapter(transport, apiKey)
+  }
+}
+
+/**
+ * Adapters for every provider that can be searched: those with an API key, or
+ * all of them when replaying recorded responses (`STOCK_FIXTURES=replay`)
+ */
+export function getStockAdapters(): StockAdapter[] {
+  const mode = getFixtureMode()
+  const transport = createTransport(mode)
+
+  return (Object.keys(PROVIDERS) as StockProvider[])
+    .filter(name => mode === 'replay' || process.env[PROVIDERS[name].apiKey])
+    .map(name => PROVIDERS[name].create(transport, process.env[PROVIDERS[name].apiKey]))
+}
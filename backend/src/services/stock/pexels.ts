@@ -0,0 +1,128 @@
+import { StockAsset } from '@invideo-studio/shared'
+import { StockAdapter, StockPage, StockQuery, StockTransport } from './types'
+import { titleFromPageUrl } from './format'
+
+const API_URL = 'https://api.pexels.com'
+
+const LICENSE = {
+  name: 'Pexels License',
+  url: 'https://www.pexels.com/license/'
+}
+
+// Largest rendition used in projects; 4K files are slow to fetch and edit with
+const MAX_VIDEO_WIDTH = 1920
+
+interface PexelsPhoto {
+  id: number
+  width: number
+  height: number
+  url: string
+  alt: string
+  photographer: string
+  photographer_url: string
+  src: Record<'original' | 'large2x' | 'large' | 'medium' | 'small' | 'tiny', string>
+}
+
+interface PexelsVideoFile {
+  quality: string | null
+  file_type: string
+  width: number | null
+  height: number | null
+  link: string
+}
+
+interface PexelsVideo {
+  id: number
+  width: number
+  height: number
+  url: string
+  image: string
+  duration: number
+  user: { name: string, url: string }
+  video_files: PexelsVideoFile[]
+}
+
+interface PexelsResponse {
+  total_results: number
+  photos?: PexelsPhoto[]
+  videos?: PexelsVideo[]
+}
+
+function toPhoto(photo: PexelsPhoto): StockAsset {
+  return {
+    id: `pexels-${photo.id}`,
+    provider: 'pexels',
+    type: 'image',
+    title: photo.alt || titleFromPageUrl(photo.url, 'Pexels photo'),
+    url: photo.src.large2x,
+    thumbnail: photo.src.medium,
+    // The original's size; the renditions keep its aspect ratio
+    width: photo.width,
+    height: photo.height,
+    author: photo.photographer,
+    authorUrl: photo.photographer_url,
+    sourceUrl: photo.url,
+    tags: [],
+    license: LICENSE,
+    attribution: `Photo by ${photo.photographer} on Pexels`
+  }
+}
+
+function toVideo(video: PexelsVideo): StockAsset {
+  const files = video.video_files
+    .filter(file => file.file_type === 'video/mp4' && file.width && file.height)
+    .sort((a, b) => b.width! - a.width!)
+  const file = files.find(candidate => candidate.width! <= MAX_VIDEO_WIDTH) || files[files.length - 1]
+  const preview = files[files.length - 1]
+
+  return {
+    id: `pexels-${video.id}`,
+    provider: 'pexels',
+    type: 'video',
+    title: titleFromPageUrl(video.url, 'Pexels video'),
+    url: file?.link || '',
+    thumbnail: video.image,
+    previewUrl: preview?.link,
+    width: file?.width || video.width,
+    height: file?.height || video.height,
+    duration: video.duration,
+    author: video.user.name,
+    authorUrl: video.user.url,
+    sourceUrl: video.url,
+    tags: [],
+    license: LICENSE,
+    attribution: `Video by ${video.user.name} on Pexels`
+  }
+}
+
+export class PexelsAdapter implements StockAdapter {
+  readonly name = 'pexels'
+
+  constructor(private transport: StockTransport, private apiKey?: string) {}
+
+  async search(query: StockQuery): Promise<StockPage> {
+    const video = query.type === 'video'
+    // Without a query, Pexels' curated photos and popular videos stand in for search results
+    const endpoint = video
+      ? (query.query ? '/videos/search' : '/videos/popular')
+      : (query.query ? '/v1/search' : '/v1/curated')
+
+    const response: PexelsResponse = await this.transport({
+      fixture: video ? 'pexels-videos' : 'pexels-images',
+      url: `${API_URL}${endpoint}`,
+      params: {
+        ...(query.query ? { query: query.query } : {}),
+        page: query.page,
+        per_page: query.perPage
+      },
+      headers: { Authorization: this.apiKey || '' }
+    })
+
+    return {
+      results: video
+        ? (response.videos || []).map(toVideo).filter(asset => asset.url)
+        : (response.photos || []).map(toPhoto),
+      total: response.total_results
+    }
+  }
+}
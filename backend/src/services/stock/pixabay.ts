@@ -0,0 +1,126 @@
+import { StockAsset } from '@invideo-studio/shared'
+import { StockAdapter, StockPage, StockQuery, StockTransport } from './types'
+import { splitTags, titleFromPageUrl } from './format'
+
+const API_URL = 'https://pixabay.com/api/'
+
+const LICENSE = {
+  name: 'Pixabay Content License',
+  url: 'https://pixabay.com/service/license-summary/'
+}
+
+// Pixabay rejects pages smaller than this
+const MIN_PER_PAGE = 3
+
+interface PixabayImage {
+  id: number
+  pageURL: string
+  tags: string
+  previewURL: string
+  webformatURL: string
+  largeImageURL: string
+  imageWidth: number
+  imageHeight: number
+  user: string
+  user_id: number
+}
+
+interface PixabayVideoFile {
+  url: string
+  width: number
+  height: number
+  thumbnail?: string
+}
+
+interface PixabayVideo {
+  id: number
+  pageURL: string
+  tags: string
+  duration: number
+  videos: Record<'large' | 'medium' | 'small' | 'tiny', PixabayVideoFile>
+  user: string
+  user_id: number
+}
+
+interface PixabayResponse<T> {
+  totalHits: number // How many of `total` the API will page through
+  hits: T[]
+}
+
+function getAuthorUrl(user: string, userId: number): string {
+  return `https://pixabay.com/users/${user}-${userId}/`
+}
+
+function toImage(hit: PixabayImage): StockAsset {
+  return {
+    id: `pixabay-${hit.id}`,
+    provider: 'pixabay',
+    type: 'image',
+    title: titleFromPageUrl(hit.pageURL, 'Pixabay image'),
+    url: hit.largeImageURL,
+    thumbnail: hit.webformatURL,
+    width: hit.imageWidth,
+    height: hit.imageHeight,
+    author: hit.user,
+    authorUrl: getAuthorUrl(hit.user, hit.user_id),
+    sourceUrl: hit.pageURL,
+    tags: splitTags(hit.tags),
+    license: LICENSE,
+    attribution: `Image by ${hit.user} from Pixabay`
+  }
+}
+
+function toVideo(hit: PixabayVideo): StockAsset {
+  // Medium is at most 1080p; large is only present for 4K footage, which is slow to fetch and edit with
+  const file = hit.videos.medium
+
+  return {
+    id: `pixabay-${hit.id}`,
+    provider: 'pixabay',
+    type: 'video',
+    title: titleFromPageUrl(hit.pageURL, 'Pixabay video'),
+    url: file.url,
+    thumbnail: file.thumbnail || hit.videos.tiny.thumbnail || '',
+    previewUrl: hit.videos.tiny.url,
+    width: file.width,
+    height: file.height,
+    duration: hit.duration,
+    author: hit.user,
+    authorUrl: getAuthorUrl(hit.user, hit.user_id),
+    sourceUrl: hit.pageURL,
+    tags: splitTags(hit.tags),
+    license: LICENSE,
+    attribution: `Video by ${hit.user} from Pixabay`
+  }
+}
+
+export class PixabayAdapter implements StockAdapter {
+  readonly name = 'pixabay'
+
+  constructor(private transport: StockTransport, private apiKey?: string) {}
+
+  async search(query: StockQuery): Promise<StockPage> {
+    const video = query.type === 'video'
+    const perPage = Math.max(query.perPage, MIN_PER_PAGE)
+
+    const response: PixabayResponse<PixabayImage | PixabayVideo> = await this.transport({
+      fixture: video ? 'pixabay-videos' : 'pixabay-images',
+      url: video ? `${API_URL}videos/` : API_URL,
+      params: {
+        key: this.apiKey || '',
+        q: query.query,
+        page: query.page,
+        per_page: perPage,
+        safesearch: true
+      }
+    })
+
+    const hits = response.hits.slice(0, query.perPage)
+    return {
+      results: video
+        ? hits.map(hit => toVideo(hit as PixabayVideo))
+        : hits.map(hit => toImage(hit as PixabayImage)),
+      total: response.totalHits
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import axios from 'axios'
+import fs from 'fs/promises'
+import path from 'path'
+import { StockRequest, StockTransport } from './types'
+
+// 'replay' answers every request from recorded responses, so search works
+// offline and repeatably; 'record' calls the providers and saves what they return
+export type FixtureMode = 'replay' | 'record' | undefined
+
+const REQUEST_TIMEOUT = 10000
+
+function getFixtureFile(fixture: string): string {
+  const dir = process.env.STOCK_FIXTURES_DIR || path.resolve('fixtures/stock')
+  return path.join(dir, `${fixture}.json`)
+}
+
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.STOCK_FIXTURES
+  if (mode && mode !== 'replay' && mode !== 'record') {
+    throw new Error(`STOCK_FIXTURES must be "replay" or "record", got "${mode}"`)
+  }
+  return (mode || undefined) as FixtureMode
+}
+
+async function get(request: StockRequest): Promise<any> {
+  const response = await axios.get(request.url, {
+    params: request.params,
+    headers: request.headers,
+    timeout: REQUEST_TIMEOUT
+  })
+  return response.data
+}
+
+async function replay(request: StockRequest): Promise<any> {
+  // A fixture is one recorded page; the query it was recorded with is not matched
+  const file = getFixtureFile(request.fixture)
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'))
+  } catch (error) {
+    throw new Error(`No recorded response for ${request.fixture} at ${file}`)
+  }
+}
+
+async function record(request: StockRequest): Promise<any> {
+  const data = await get(request)
+  const file = getFixtureFile(request.fixture)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.writeFile(file, `${JSON.stringify(data, null, 2)}\n`)
+  return data
+}
+
+export function createTransport(mode: FixtureMode): StockTransport {
+  switch (mode) {
+    case 'replay':
+      return replay
+    case 'record':
+      return record
+    default:
+      return get
+  }
+}
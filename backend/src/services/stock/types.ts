@@ -0,0 +1,31 @@
+import { StockAsset, StockMediaType, StockProvider } from '@invideo-studio/shared'
+
+export interface StockQuery {
+  query: string
+  type: StockMediaType
+  page: number
+  perPage: number
+}
+
+export interface StockPage {
+  results: StockAsset[]
+  total: number
+}
+
+// One HTTP GET to a provider's API
+export interface StockRequest {
+  fixture: string // Name of the recorded response that stands in for it offline
+  url: string
+  params?: Record<string, string | number | boolean>
+  headers?: Record<string, string>
+}
+
+export type StockTransport = (request: StockRequest) => Promise<any>
+
+/**
+ * A stock library's search API, with its results normalized into `StockAsset`s
+ */
+export interface StockAdapter {
+  readonly name: StockProvider
+  search(query: StockQuery): Promise<StockPage>
+}
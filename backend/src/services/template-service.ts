@@ -0,0 +1,243 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  Project,
+  Template,
+  TemplateCategory,
+  TemplateInput,
+  TemplateSummary,
+  TEMPLATE_CATEGORIES,
+  instantiateTemplate,
+  migrateProject
+} from '@invideo-studio/shared'
+import { SupabaseService } from './supabase-service'
+import { ProjectService } from './project-service'
+import { logger } from '../utils/logger'
+import { escapeLike } from '../utils/escape-like'
+
+interface TemplateRow {
+  id: string
+  user_id: string | null // Null for the built-in library
+  name: string
+  description: string
+  category: TemplateCategory
+  tags: string[]
+  variables: TemplateSummary['variables']
+  json_data?: unknown
+  preview_url: string | null
+  is_public: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface TemplateListOptions {
+  page: number
+  pageSize: number
+  category?: TemplateCategory
+  search?: string
+  mine?: boolean // Only the user's own templates
+}
+
+const TEMPLATES_TABLE = 'templates'
+
+const SUMMARY_COLUMNS = 'id, user_id, name, description, category, tags, variables, preview_url, is_public, created_at, updated_at'
+
+export class TemplateService {
+  private supabase: SupabaseService
+  private projectService: ProjectService
+
+  constructor() {
+    this.supabase = new SupabaseService()
+    this.projectService = new ProjectService()
+  }
+
+  /**
+   * Public templates and the user's own, most recently updated first
+   */
+  async listTemplates(userId: string, options: TemplateListOptions) {
+    const from = (options.page - 1) * options.pageSize
+
+    let query = this.supabase.client
+      .from(TEMPLATES_TABLE)
+      .select(SUMMARY_COLUMNS, { count: 'exact' })
+      .order('updated_at', { ascending: false })
+      .range(from, from + options.pageSize - 1)
+
+    query = options.mine
+      ? query.eq('user_id', userId)
+      : query.or(`is_public.eq.true,user_id.eq.${userId}`)
+
+    if (options.category) {
+      query = query.eq('category', options.category)
+    }
+    if (options.search) {
+      query = query.ilike('name', `%${escapeLike(options.search)}%`)
+    }
+
+    const { data, error, count } = await query
+    if (error) {
+      logger.error('Failed to list templates:', error)
+      throw new Error('Failed to list templates')
+    }
+
+    return {
+      templates: (data || []).map(row => this.toSummary(row, userId)),
+      page: options.page,
+      pageSize: options.pageSize,
+      total: count || 0
+    }
+  }
+
+  /**
+   * Every category with how many templates the user can see in it
+   */
+  async getCategories(userId: string) {
+    const { data, error } = await this.supabase.client
+      .from(TEMPLATES_TABLE)
+      .select('category')
+      .or(`is_public.eq.true,user_id.eq.${userId}`)
+
+    if (error) {
+      logger.error('Failed to count template categories:', error)
+      throw new Error('Failed to list template categories')
+    }
+
+    return TEMPLATE_CATEGORIES.map(category => ({
+      category,
+      count: (data || []).filter(row => row.category === category).length
+    }))
+  }
+
+  async getTemplate(templateId: string, userId: string): Promise<Template> {
+    const row = await this.getTemplateRow(templateId, userId)
+
+    return {
+      ...this.toSummary(row, userId),
+      project: migrateProject(row.json_data)
+    }
+  }
+
+  /**
+   * Save a template owned by the user. User templates are private to them.
+   */
+  async createTemplate(userId: string, input: TemplateInput): Promise<Template> {
+    const now = new Date().toISOString()
+
+    const { data, error } = await this.supabase.client
+      .from(TEMPLATES_TABLE)
+      .insert({
+        id: uuidv4(),
+        user_id: userId,
+        ...this.toColumns(input),
+        is_public: false,
+        created_at: now,
+        updated_at: now
+      })
+      .select('*')
+      .single()
+
+    if (error || !data) {
+      logger.error('Failed to create template:', error)
+      throw new Error('Failed to create template')
+    }
+
+    return { ...this.toSummary(data, userId), project: migrateProject(data.json_data) }
+  }
+
+  async updateTemplate(templateId: string, userId: string, input: TemplateInput): Promise<Template> {
+    await this.getOwnedTemplateRow(templateId, userId)
+
+    const { data, error } = await this.supabase.client
+      .from(TEMPLATES_TABLE)
+      .update({
+        ...this.toColumns(input),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', templateId)
+      .eq('user_id', userId)
+      .select('*')
+      .single()
+
+    if (error || !data) {
+      logger.error('Failed to update template:', error)
+      throw new Error('Failed to update template')
+    }
+
+    return { ...this.toSummary(data, userId), project: migrateProject(data.json_data) }
+  }
+
+  async deleteTemplate(templateId: string, userId: string) {
+    await this.getOwnedTemplateRow(templateId, userId)
+
+    const { error } = await this.supabase.client
+      .from(TEMPLATES_TABLE)
+      .delete()
+      .eq('id', templateId)
+      .eq('user_id', userId)
+
+    if (error) {
+      logger.error('Failed to delete template:', error)
+      throw new Error('Failed to delete template')
+    }
+  }
+
+  /**
+   * Fill a template in and save the result as a new project of the user's.
+   * Values should have passed `validateTemplateValues`.
+   */
+  async instantiate(template: Template, userId: string, values: Record<string, string>, name?: string): Promise<Project> {
+    const project = instantiateTemplate(template, values, name)
+    return this.projectService.createProject(userId, project, `Created from template ${template.name}`)
+  }
+
+  private toColumns(input: TemplateInput) {
+    return {
+      name: input.name,
+      description: input.description,
+      category: input.category,
+      tags: input.tags,
+      variables: input.variables,
+      preview_url: input.previewUrl || null,
+      // A template is not itself a saved project
+      json_data: { ...input.project, id: null }
+    }
+  }
+
+  private toSummary(row: TemplateRow, userId: string): TemplateSummary {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      category: row.category,
+      tags: row.tags || [],
+      previewUrl: row.preview_url,
+      variables: row.variables || [],
+      isPublic: row.is_public,
+      owned: row.user_id === userId,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+
+  private async getTemplateRow(templateId: string, userId: string): Promise<TemplateRow> {
+    const { data, error } = await this.supabase.client
+      .from(TEMPLATES_TABLE)
+      .select('*')
+      .eq('id', templateId)
+      .or(`is_public.eq.true,user_id.eq.${userId}`)
+      .single()
+
+    if (error || !data) {
+      throw new Error('Template not found')
+    }
+
+    return data
+  }
+
+  private async getOwnedTemplateRow(templateId: string, userId: string): Promise<TemplateRow> {
+    const row = await this.getTemplateRow(templateId, userId)
+    if (row.user_id !== userId) {
+      throw new Error('Only the template\'s owner can change it')
+    }
+    return row
+  }
+}
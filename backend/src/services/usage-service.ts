@@ -0,0 +1,231 @@
+import { RenderQuality } from '@invideo-studio/shared'
+import { SupabaseService } from './supabase-service'
+import { logger } from '../utils/logger'
+import {
+  METERED_OPERATIONS,
+  MeteredOperation,
+  OPERATION_UNITS,
+  UsageInput,
+  UsageUnit,
+  estimateQuantity,
+  getAllowance,
+  getBillingPeriod,
+  getCredits
+} from './usage/pricing'
+
+/**
+ * The user's remaining credits for the billing period don't cover an operation
+ */
+export class InsufficientCreditsError extends Error {
+  readonly code = 'INSUFFICIENT_CREDITS'
+
+  constructor(
+    readonly operation: MeteredOperation,
+    readonly required: number,
+    readonly available: number
+  ) {
+    super(`Not enough credits for ${operation}: ${required} needed, ${available} left this billing period. Upgrade your plan for a larger allowance.`)
+    this.name = 'InsufficientCreditsError'
+  }
+}
+
+export interface CostEstimate {
+  operation: MeteredOperation
+  unit: UsageUnit
+  quantity: number // Most the operation will use, in `unit`
+  credits: number
+  balance: number
+  allowed: boolean
+}
+
+export interface UsageRecord {
+  quantity: number // Actually used, in the operation's unit
+  quality?: RenderQuality // Renders only
+  metadata?: Record<string, unknown>
+}
+
+// Row of the credit_ledger table. Debits have a negative amount; grants
+// (top-ups, refunds) a positive one.
+interface LedgerEntry {
+  operation: MeteredOperation | 'grant'
+  unit: UsageUnit | null
+  quantity: number
+  amount: number
+  metadata: Record<string, unknown>
+  created_at: string
+}
+
+const LEDGER_TABLE = 'credit_ledger'
+
+export class UsageService {
+  private supabase: SupabaseService
+
+  constructor() {
+    this.supabase = new SupabaseService()
+  }
+
+  async getUserTier(userId: string): Promise<string> {
+    const { data: user } = await this.supabase.client
+      .from('users')
+      .select('subscription_tier')
+      .eq('id', userId)
+      .single()
+
+    return user?.subscription_tier || 'free'
+  }
+
+  /**
+   * Credits left this billing period: the tier's allowance plus any grants,
+   * less what has been spent
+   */
+  async getBalance(userId: string) {
+    const { start, end } = getBillingPeriod()
+    const [tier, entries] = await Promise.all([
+      this.getUserTier(userId),
+      this.getLedgerEntries(userId, start)
+    ])
+
+    const allowance = getAllowance(tier)
+    const granted = entries.filter(entry => entry.amount > 0).reduce((total, entry) => total + entry.amount, 0)
+    const used = entries.filter(entry => entry.amount < 0).reduce((total, entry) => total - entry.amount, 0)
+
+    return {
+      tier,
+      allowance,
+      granted: roundCredits(granted),
+      used: roundCredits(used),
+      balance: roundCredits(allowance + granted - used),
+      periodStart: start.toISOString(),
+      resetDate: end.toISOString()
+    }
+  }
+
+  /**
+   * Usage this billing period per operation, in its unit and in credits
+   */
+  async getUsage(userId: string) {
+    const { start } = getBillingPeriod()
+    const entries = await this.getLedgerEntries(userId, start)
+
+    return Object.fromEntries(METERED_OPERATIONS.map(operation => {
+      const debits = entries.filter(entry => entry.operation === operation)
+      return [operation, {
+        unit: OPERATION_UNITS[operation],
+        count: debits.length,
+        quantity: debits.reduce((total, entry) => total + entry.quantity, 0),
+        credits: roundCredits(debits.reduce((total, entry) => total - entry.amount, 0))
+      }]
+    }))
+  }
+
+  async getLedger(userId: string, limit = 50) {
+    const { data, error } = await this.supabase.client
+      .from(LEDGER_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      logger.error('Failed to get credit ledger:', error)
+      throw new Error('Failed to get credit ledger')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Most an operation can cost, and whether the user's balance covers it
+   */
+  async estimate(userId: string, operation: MeteredOperation, input: UsageInput): Promise<CostEstimate> {
+    const quantity = estimateQuantity(operation, input)
+    const credits = getCredits(operation, quantity, input.quality)
+    const { balance } = await this.getBalance(userId)
+
+    return {
+      operation,
+      unit: OPERATION_UNITS[operation],
+      quantity,
+      credits,
+      balance,
+      allowed: balance > 0 && credits <= balance
+    }
+  }
+
+  /**
+   * Pre-flight check before running an operation
+   */
+  async assertCredits(userId: string, operation: MeteredOperation, input: UsageInput): Promise<CostEstimate> {
+    const estimate = await this.estimate(userId, operation, input)
+    if (!estimate.allowed) {
+      throw new InsufficientCreditsError(operation, estimate.credits, Math.max(0, estimate.balance))
+    }
+    return estimate
+  }
+
+  /**
+   * Debit what an operation actually used. Returns the credits charged.
+   */
+  async record(userId: string, operation: MeteredOperation, usage: UsageRecord): Promise<number> {
+    const credits = getCredits(operation, usage.quantity, usage.quality)
+
+    const { error } = await this.supabase.client
+      .from(LEDGER_TABLE)
+      .insert({
+        user_id: userId,
+        operation,
+        unit: OPERATION_UNITS[operation],
+        quantity: usage.quantity,
+        amount: -credits,
+        metadata: { ...usage.metadata, quality: usage.quality },
+        created_at: new Date().toISOString()
+      })
+
+    if (error) {
+      logger.error(`Failed to record ${operation} usage for user ${userId}:`, error)
+    }
+
+    return credits
+  }
+
+  /**
+   * Add credits on top of the tier allowance for the current billing period
+   */
+  async grantCredits(userId: string, credits: number, reason: string) {
+    const { error } = await this.supabase.client
+      .from(LEDGER_TABLE)
+      .insert({
+        user_id: userId,
+        operation: 'grant',
+        unit: null,
+        quantity: 0,
+        amount: credits,
+        metadata: { reason },
+        created_at: new Date().toISOString()
+      })
+
+    if (error) {
+      logger.error(`Failed to grant credits to user ${userId}:`, error)
+      throw new Error('Failed to grant credits')
+    }
+  }
+
+  private async getLedgerEntries(userId: string, since: Date): Promise<LedgerEntry[]> {
+    const { data, error } = await this.supabase.client
+      .from(LEDGER_TABLE)
+      .select('operation, unit, quantity, amount, metadata, created_at')
+      .eq('user_id', userId)
+      .gte('created_at', since.toISOString())
+
+    if (error) {
+      logger.error('Failed to get credit ledger:', error)
+      throw new Error('Failed to get usage')
+    }
+
+    return data || []
+  }
+}
+
+function roundCredits(credits: number): number {
+  return Math.round(credits * 100) / 100
+}
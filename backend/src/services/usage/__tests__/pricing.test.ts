@@ -0,0 +1,68 @@
+import {
+  MAX_OUTPUT_TOKENS,
+  countTokens,
+  estimateQuantity,
+  getAllowance,
+  getBillingPeriod,
+  getCredits
+} from '../pricing'
+
+describe('getCredits', () => {
+  it('prices each unit at its own rate', () => {
+    expect(getCredits('script_generation', 1000)).toBe(1)
+    expect(getCredits('voice_generation', 200)).toBe(1)
+    expect(getCredits('subtitle_generation', 60)).toBe(1)
+    expect(getCredits('render', 1)).toBe(2)
+  })
+
+  it('scales renders by quality, defaulting to standard', () => {
+    expect(getCredits('render', 1, 'draft')).toBe(1)
+    expect(getCredits('render', 1, 'high')).toBe(4)
+    expect(getCredits('render', 1, 'ultra')).toBe(8)
+    expect(getCredits('render', 1)).toBe(getCredits('render', 1, 'standard'))
+  })
+
+  it('ignores quality for operations other than renders', () => {
+    expect(getCredits('voice_generation', 200, 'ultra')).toBe(1)
+  })
+
+  it('rounds up to the hundredth of a credit', () => {
+    expect(getCredits('script_generation', 1)).toBe(0.01)
+    expect(getCredits('voice_generation', 201)).toBe(1.01)
+    expect(getCredits('render', 0)).toBe(0)
+  })
+})
+
+describe('estimateQuantity', () => {
+  it('assumes text generation uses its whole response budget', () => {
+    const text = 'x'.repeat(400)
+    const quantity = estimateQuantity('script_generation', { text })
+    expect(quantity).toBe(countTokens(text) + 400 + MAX_OUTPUT_TOKENS.script_generation)
+  })
+
+  it('measures voices in characters, transcripts in seconds and renders in minutes', () => {
+    expect(estimateQuantity('voice_generation', { text: 'Hello there' })).toBe(11)
+    expect(estimateQuantity('subtitle_generation', { duration: 90 })).toBe(90)
+    expect(estimateQuantity('render', { duration: 90 })).toBe(1.5)
+  })
+
+  it('treats missing input as nothing to meter', () => {
+    expect(estimateQuantity('voice_generation', {})).toBe(0)
+    expect(estimateQuantity('render', {})).toBe(0)
+  })
+})
+
+describe('getAllowance', () => {
+  it('falls back to the free tier for unknown tiers', () => {
+    expect(getAllowance('pro')).toBe(2000)
+    expect(getAllowance('unknown')).toBe(getAllowance('free'))
+  })
+})
+
+describe('getBillingPeriod', () => {
+  it('covers the UTC calendar month', () => {
+    const { start, end } = getBillingPeriod(new Date('2024-12-31T23:30:00Z'))
+    expect(start.toISOString()).toBe('2024-12-01T00:00:00.000Z')
+    expect(end.toISOString()).toBe('2025-01-01T00:00:00.000Z')
+  })
+})
@@ -0,0 +1,124 @@
+import { RenderQuality } from '@invideo-studio/shared'
+
+export type UsageUnit = 'tokens' | 'characters' | 'audio_seconds' | 'render_minutes'
+
+export type MeteredOperation =
+  | 'script_generation'
+  | 'storyboard_generation'
+  | 'asset_recommendation'
+  | 'thumbnail_suggestion'
+  | 'voice_generation'
+  | 'subtitle_generation'
+  | 'render'
+
+export const METERED_OPERATIONS: MeteredOperation[] = [
+  'script_generation',
+  'storyboard_generation',
+  'asset_recommendation',
+  'thumbnail_suggestion',
+  'voice_generation',
+  'subtitle_generation',
+  'render'
+]
+
+// The unit each operation is metered in
+export const OPERATION_UNITS: Record<MeteredOperation, UsageUnit> = {
+  script_generation: 'tokens',
+  storyboard_generation: 'tokens',
+  asset_recommendation: 'tokens',
+  thumbnail_suggestion: 'tokens',
+  voice_generation: 'characters',
+  subtitle_generation: 'audio_seconds',
+  render: 'render_minutes'
+}
+
+// Credits charged per `per` units
+const UNIT_PRICES: Record<UsageUnit, { credits: number, per: number }> = {
+  tokens: { credits: 1, per: 1000 },
+  characters: { credits: 1, per: 200 },
+  audio_seconds: { credits: 1, per: 60 },
+  render_minutes: { credits: 2, per: 1 }
+}
+
+// Higher qualities take longer to encode and store
+const RENDER_QUALITY_MULTIPLIERS: Record<RenderQuality, number> = {
+  draft: 0.5,
+  standard: 1,
+  high: 2,
+  ultra: 4
+}
+
+// Credits each subscription tier gets per billing period
+export const TIER_ALLOWANCES: Record<string, number> = {
+  free: 100,
+  pro: 2000,
+  enterprise: 20000
+}
+
+// Response budget of each text generation request, which pre-flight checks
+// assume is used in full
+export const MAX_OUTPUT_TOKENS = {
+  script_generation: 2000,
+  storyboard_generation: 3000,
+  asset_recommendation: 1000,
+  thumbnail_suggestion: 1500
+}
+
+// Instructions wrapped around the user's text in each prompt
+const PROMPT_OVERHEAD_TOKENS = 400
+
+export interface UsageInput {
+  text?: string // Prompt content or text to voice
+  duration?: number // Seconds of audio to transcribe or video to render
+  quality?: RenderQuality
+}
+
+export function getAllowance(tier: string): number {
+  return TIER_ALLOWANCES[tier] ?? TIER_ALLOWANCES.free
+}
+
+/**
+ * Rough token count of English text, about four characters per token
+ */
+export function countTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Most an operation can use, in its unit, before it runs
+ */
+export function estimateQuantity(operation: MeteredOperation, input: UsageInput): number {
+  switch (operation) {
+    case 'script_generation':
+    case 'storyboard_generation':
+    case 'asset_recommendation':
+    case 'thumbnail_suggestion':
+      return countTokens(input.text || '') + PROMPT_OVERHEAD_TOKENS + MAX_OUTPUT_TOKENS[operation]
+    case 'voice_generation':
+      return (input.text || '').length
+    case 'subtitle_generation':
+      return input.duration || 0
+    case 'render':
+      return (input.duration || 0) / 60
+  }
+}
+
+/**
+ * Credits for a quantity of an operation's unit, rounded up to the hundredth
+ */
+export function getCredits(operation: MeteredOperation, quantity: number, quality?: RenderQuality): number {
+  const price = UNIT_PRICES[OPERATION_UNITS[operation]]
+  const multiplier = operation === 'render' ? RENDER_QUALITY_MULTIPLIERS[quality || 'standard'] : 1
+  return Math.ceil((quantity / price.per) * price.credits * multiplier * 100) / 100
+}
+
+/**
+ * Calendar month (UTC) containing `date`. Allowances and usage totals both
+ * run over this period.
+ */
+export function getBillingPeriod(date: Date = new Date()): { start: Date, end: Date } {
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1))
+  }
+}
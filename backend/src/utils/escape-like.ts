@@ -0,0 +1,7 @@
+/**
+ * Escape LIKE/ILIKE wildcards so user input matches literally, e.g. a search
+ * for `50%` or `my_video`
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&')
+}
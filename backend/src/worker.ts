@@ -0,0 +1,56 @@
+// Load environment variables first: services read them when their modules load
+import 'dotenv/config'
+
+import { RenderService } from './services/render-service'
+import { PipelineService } from './services/pipeline-service'
+import { AssetService } from './services/asset-service'
+import { BatchService } from './services/batch-service'
+import { logger } from './utils/logger'
+
+// Render worker, run separately from the API. Start as many as needed; they
+// share the queues through Redis and scene files through RENDER_WORK_DIR.
+const renderService = new RenderService()
+renderService.startWorkers()
+
+// Script-to-video runs, which queue their draft renders like any other
+const pipelineService = new PipelineService(renderService)
+pipelineService.startWorkers()
+
+// Ingestion of uploaded assets: probing, previews and editing proxies
+const assetService = new AssetService()
+assetService.startWorkers()
+
+// Bulk generation: fills each row of a batch in and queues its render
+const batchService = new BatchService(renderService)
+batchService.startWorkers()
+
+logger.info(`🎬 Render worker started (concurrency ${process.env.RENDER_CONCURRENCY || '2'})`)
+
+// Graceful shutdown: finish the jobs in hand, then exit
+const shutdown = (signal: string) => {
+  logger.info(`${signal} received. Shutting down worker gracefully...`)
+  // Renders close last; pipelines and batches queue theirs through it
+  Promise.all([pipelineService.close(), assetService.close(), batchService.close()])
+    .then(() => renderService.close())
+    .then(() => {
+      logger.info('Worker closed')
+      process.exit(0)
+    })
+    .catch(error => {
+      logger.error('Worker shutdown failed:', error)
+      process.exit(1)
+    })
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+process.on('SIGINT', () => shutdown('SIGINT'))
+
+process.on('unhandledRejection', (reason, promise) => {
+  logger.error('Unhandled Rejection at:', promise, 'reason:', reason)
+  process.exit(1)
+})
+
+process.on('uncaughtException', (error) => {
+  logger.error('Uncaught Exception:', error)
+  process.exit(1)
+})
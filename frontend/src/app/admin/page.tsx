@@ -0,0 +1,236 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { AdminJob, AdminJobState, AdminQueue, RenderQueueOverview } from '@invideo-studio/shared'
+import { JobList } from '@/components/admin/JobList'
+import {
+  drainRenderQueue,
+  getRenderOverview,
+  listRenderJobs,
+  promoteRenderJob,
+  retryRenderJob
+} from '@/lib/admin'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { RefreshCw } from 'lucide-react'
+
+// The dashboard is for watching the queue, so it keeps itself current
+const REFRESH_INTERVAL = 10000
+
+const COUNTED_STATES: AdminJobState[] = ['waiting', 'prioritized', 'waiting-children', 'delayed', 'active', 'completed', 'failed']
+
+const LISTED_STATES: AdminJobState[] = ['failed', 'delayed', 'active', 'prioritized']
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${seconds.toFixed(1)}s`
+  const minutes = Math.floor(seconds / 60)
+  return minutes < 60 ? `${minutes}m ${Math.round(seconds % 60)}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+export default function AdminPage() {
+  const [overview, setOverview] = useState<RenderQueueOverview | null>(null)
+  const [queue, setQueue] = useState<AdminQueue>('render')
+  const [state, setState] = useState<AdminJobState>('failed')
+  const [jobs, setJobs] = useState<AdminJob[]>([])
+  const [total, setTotal] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [busyJobId, setBusyJobId] = useState<string | null>(null)
+  const [isDraining, setIsDraining] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextOverview, list] = await Promise.all([
+        getRenderOverview(),
+        listRenderJobs(queue, state)
+      ])
+      setOverview(nextOverview)
+      setJobs(list.jobs)
+      setTotal(list.total)
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load the render queue')
+    }
+  }, [queue, state])
+
+  useEffect(() => {
+    refresh()
+    const timer = setInterval(refresh, REFRESH_INTERVAL)
+    return () => clearInterval(timer)
+  }, [refresh])
+
+  const runAction = useCallback(async (job: AdminJob, action: () => Promise<string>) => {
+    setBusyJobId(job.id)
+    try {
+      setNotice(await action())
+      await refresh()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Action failed')
+    } finally {
+      setBusyJobId(null)
+    }
+  }, [refresh])
+
+  const handleRetry = useCallback((job: AdminJob) => runAction(job, async () => {
+    const retryJobId = await retryRenderJob(job.id)
+    return `Render ${job.id} queued again as ${retryJobId}`
+  }), [runAction])
+
+  const handlePromote = useCallback((job: AdminJob) => runAction(job, async () => {
+    await promoteRenderJob(job.queue, job.id)
+    return `Job ${job.id} will run next`
+  }), [runAction])
+
+  const handleDrain = useCallback(async () => {
+    if (!window.confirm('Remove every render waiting for a worker? Their users will see them as cancelled.')) return
+
+    setIsDraining(true)
+    try {
+      const drained = await drainRenderQueue(false)
+      setNotice(`Removed ${drained} waiting renders`)
+      await refresh()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to drain the queue')
+    } finally {
+      setIsDraining(false)
+    }
+  }, [refresh])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b px-6 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Render operations</h1>
+          <p className="text-sm text-gray-500">Queues, workers and failed renders</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={refresh}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+          <Button variant="destructive" onClick={handleDrain} disabled={isDraining}>
+            {isDraining ? 'Draining...' : 'Drain waiting renders'}
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-6 space-y-6">
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+        {overview && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(['render', 'scene'] as AdminQueue[]).map(name => (
+                <Card key={name}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base capitalize">{name} queue</CardTitle>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-4 gap-3">
+                    {COUNTED_STATES.map(counted => (
+                      <div key={counted}>
+                        <div className="text-2xl font-semibold">{overview.queues[name][counted]}</div>
+                        <div className="text-xs text-gray-500">{counted}</div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <Card className="lg:col-span-2">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Workers</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-500">
+                      <tr>
+                        <th className="font-medium py-1">Worker</th>
+                        <th className="font-medium">Completed</th>
+                        <th className="font-medium">Failed</th>
+                        <th className="font-medium">Jobs / hour</th>
+                        <th className="font-medium">Busy</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {overview.workers.map(worker => (
+                        <tr key={worker.name} className="border-t">
+                          <td className="py-1">
+                            <span className="font-mono">{worker.name}</span>{' '}
+                            <Badge variant={worker.online ? 'default' : 'outline'}>{worker.online ? 'online' : 'offline'}</Badge>
+                          </td>
+                          <td>{worker.completed}</td>
+                          <td>{worker.failed}</td>
+                          <td>{worker.jobsPerHour.toFixed(1)}</td>
+                          <td>{formatSeconds(worker.busySeconds)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {overview.workers.length === 0 && <p className="text-sm text-gray-500 py-2">No workers have reported in the last day.</p>}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Render time by quality</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-500">
+                      <tr>
+                        <th className="font-medium py-1">Quality</th>
+                        <th className="font-medium">Renders</th>
+                        <th className="font-medium">Average</th>
+                        <th className="font-medium">Per video min</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {overview.renderTimes.map(times => (
+                        <tr key={times.quality} className="border-t">
+                          <td className="py-1 capitalize">{times.quality}</td>
+                          <td>{times.renders}</td>
+                          <td>{formatSeconds(times.averageSeconds)}</td>
+                          <td>{formatSeconds(times.secondsPerVideoMinute)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {overview.renderTimes.length === 0 && <p className="text-sm text-gray-500 py-2">No renders have completed yet.</p>}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+
+        <Card>
+          <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base">Jobs ({total})</CardTitle>
+            <div className="flex gap-4">
+              <div className="flex gap-1">
+                {(['render', 'scene'] as AdminQueue[]).map(option => (
+                  <Button key={option} size="sm" variant={queue === option ? 'default' : 'outline'} onClick={() => setQueue(option)} className="capitalize">
+                    {option}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex gap-1">
+                {LISTED_STATES.map(option => (
+                  <Button key={option} size="sm" variant={state === option ? 'default' : 'outline'} onClick={() => setState(option)}>
+                    {option}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <JobList jobs={jobs} busyJobId={busyJobId} onRetry={handleRetry} onPromote={handlePromote} />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -6,6 +6,9 @@ import { Timeline } from '@/components/editor/Timeline'
 import { LayerPanel } from '@/components/editor/LayerPanel'
 import { AssetLibrary } from '@/components/editor/AssetLibrary'
 import { PreviewPanel } from '@/components/editor/PreviewPanel'
+import { ExportProgress } from '@/components/editor/ExportProgress'
+import { StoryboardImport } from '@/components/editor/StoryboardImport'
+import { VersionHistory } from '@/components/editor/VersionHistory'
 import { useEditorStore } from '@/stores/editor-store'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
@@ -22,7 +25,8 @@ export default function EditorPage() {
     seek,
     loadProject,
     saveProject,
-    exportVideo
+    exportVideo,
+    exportJob
   } = useEditorStore()
 
   const [isExporting, setIsExporting] = useState(false)
@@ -54,7 +58,15 @@ export default function EditorPage() {
     
     setIsSaving(true)
     try {
-      await saveProject('default-user-id')
+      await saveProject()
+
+      // Keep the URL pointing at a newly created project so reloads reopen it
+      const savedId = useEditorStore.getState().project?.id
+      const url = new URL(window.location.href)
+      if (savedId && url.searchParams.get('project') !== savedId) {
+        url.searchParams.set('project', savedId)
+        window.history.replaceState(null, '', url.toString())
+      }
     } catch (error) {
       console.error('Error saving project:', error)
     } finally {
@@ -68,7 +80,7 @@ export default function EditorPage() {
     setIsExporting(true)
     try {
       await exportVideo({
-        quality: '1080p',
+        quality: 'high',
         format: 'mp4'
       })
     } catch (error) {
@@ -111,7 +123,7 @@ export default function EditorPage() {
               disabled={isExporting || !project?.scenes?.length}
               size="sm"
             >
-              📥 {isExporting ? 'Exporting...' : 'Export'}
+              📥 {isExporting ? `Exporting ${Math.round(exportJob?.percent || 0)}%` : 'Export'}
             </Button>
             
             <Button variant="outline" size="sm">
@@ -121,14 +133,18 @@ export default function EditorPage() {
         </div>
       </header>
 
+      <ExportProgress />
+
       {/* Main Editor */}
       <div className="flex-1 flex">
         {/* Left Sidebar - Asset Library & Layers */}
         <div className="w-80 bg-gray-800 border-r border-gray-700 flex flex-col">
           <Tabs defaultValue="assets" className="flex-1">
-            <TabsList className="grid w-full grid-cols-2 bg-gray-700">
+            <TabsList className="grid w-full grid-cols-4 bg-gray-700">
               <TabsTrigger value="assets">Assets</TabsTrigger>
               <TabsTrigger value="layers">Layers</TabsTrigger>
+              <TabsTrigger value="script">Script</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
             </TabsList>
             
             <TabsContent value="assets" className="flex-1 mt-0">
@@ -138,6 +154,14 @@ export default function EditorPage() {
             <TabsContent value="layers" className="flex-1 mt-0">
               <LayerPanel />
             </TabsContent>
+
+            <TabsContent value="script" className="flex-1 mt-0">
+              <StoryboardImport />
+            </TabsContent>
+
+            <TabsContent value="history" className="flex-1 mt-0">
+              <VersionHistory />
+            </TabsContent>
           </Tabs>
         </div>
 
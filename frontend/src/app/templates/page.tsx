@@ -0,0 +1,169 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { TemplateCategory, TemplateSummary } from '@invideo-studio/shared'
+import { TemplateForm } from '@/components/templates/TemplateForm'
+import { getTemplateCategories, instantiateTemplate, listTemplates } from '@/lib/templates'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { LayoutTemplate, Search } from 'lucide-react'
+
+export default function TemplatesPage() {
+  const router = useRouter()
+
+  const [categories, setCategories] = useState<{ category: TemplateCategory, count: number }[]>([])
+  const [category, setCategory] = useState<TemplateCategory | null>(null)
+  const [search, setSearch] = useState('')
+  const [templates, setTemplates] = useState<TemplateSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const [selected, setSelected] = useState<TemplateSummary | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [createError, setCreateError] = useState<string | null>(null)
+
+  useEffect(() => {
+    getTemplateCategories()
+      .then(setCategories)
+      .catch(error => console.error('Failed to load template categories:', error))
+  }, [])
+
+  // Debounced so typing a search doesn't fire a request per key
+  useEffect(() => {
+    setIsLoading(true)
+    const timer = setTimeout(() => {
+      listTemplates({ category: category || undefined, search: search.trim() || undefined })
+        .then(result => {
+          setTemplates(result.templates)
+          setLoadError(null)
+        })
+        .catch(error => setLoadError(error instanceof Error ? error.message : 'Failed to load templates'))
+        .finally(() => setIsLoading(false))
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [category, search])
+
+  const handleSelect = useCallback((template: TemplateSummary) => {
+    setSelected(template)
+    setCreateError(null)
+  }, [])
+
+  const handleCreate = useCallback(async (values: Record<string, string>, name: string) => {
+    if (!selected) return
+
+    setIsCreating(true)
+    setCreateError(null)
+    try {
+      const project = await instantiateTemplate(selected.id, values, name.trim())
+      router.push(`/editor?project=${project.id}`)
+    } catch (error) {
+      setCreateError(error instanceof Error ? error.message : 'Failed to create project')
+      setIsCreating(false)
+    }
+  }, [selected, router])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b px-6 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Templates</h1>
+          <p className="text-sm text-gray-500">Pick a template, fill in your details and start editing</p>
+        </div>
+        <Link href="/editor">
+          <Button variant="outline">Blank project</Button>
+        </Link>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-6 py-6 flex gap-6">
+        <main className="flex-1 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search templates..."
+              className="pl-9"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant={category === null ? 'default' : 'outline'} onClick={() => setCategory(null)}>
+              All
+            </Button>
+            {categories.map(({ category: option, count }) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={category === option ? 'default' : 'outline'}
+                onClick={() => setCategory(option)}
+                className="capitalize"
+              >
+                {option} ({count})
+              </Button>
+            ))}
+          </div>
+
+          {loadError && <p className="text-sm text-red-500">{loadError}</p>}
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading templates...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-gray-500">No templates match.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {templates.map(template => (
+                <Card
+                  key={template.id}
+                  className={`cursor-pointer overflow-hidden hover:shadow-lg transition-shadow ${selected?.id === template.id ? 'ring-2 ring-blue-500' : ''}`}
+                  onClick={() => handleSelect(template)}
+                >
+                  <div className="aspect-video bg-gray-100 flex items-center justify-center">
+                    {template.previewUrl ? (
+                      <img src={template.previewUrl} alt={template.name} className="w-full h-full object-cover" />
+                    ) : (
+                      <LayoutTemplate className="w-10 h-10 text-gray-300" />
+                    )}
+                  </div>
+                  <CardHeader className="p-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <CardTitle className="text-base truncate">{template.name}</CardTitle>
+                      <Badge variant="secondary" className="capitalize shrink-0">{template.category}</Badge>
+                    </div>
+                    {template.description && (
+                      <CardDescription className="line-clamp-2">{template.description}</CardDescription>
+                    )}
+                  </CardHeader>
+                  {!template.isPublic && (
+                    <CardContent className="px-4 pb-4 pt-0">
+                      <Badge variant="outline">Yours</Badge>
+                    </CardContent>
+                  )}
+                </Card>
+              ))}
+            </div>
+          )}
+        </main>
+
+        {selected && (
+          <aside className="w-80 shrink-0">
+            <Card className="p-4 sticky top-6">
+              <TemplateForm
+                key={selected.id}
+                template={selected}
+                isSubmitting={isCreating}
+                error={createError}
+                onSubmit={handleCreate}
+                onCancel={() => setSelected(null)}
+              />
+            </Card>
+          </aside>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import type { AdminJob } from '@invideo-studio/shared'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+
+interface JobListProps {
+  jobs: AdminJob[]
+  busyJobId: string | null
+  onRetry: (job: AdminJob) => void
+  onPromote: (job: AdminJob) => void
+}
+
+function formatTime(timestamp?: number): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : '—'
+}
+
+/**
+ * Jobs of one queue and state, each expandable to its stack traces
+ */
+export function JobList({ jobs, busyJobId, onRetry, onPromote }: JobListProps) {
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  if (jobs.length === 0) {
+    return <p className="text-sm text-gray-500 py-4">No jobs.</p>
+  }
+
+  return (
+    <div className="divide-y border rounded-md">
+      {jobs.map(job => {
+        const isExpanded = expanded === job.id
+
+        return (
+          <div key={job.id} className="p-3 text-sm">
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setExpanded(isExpanded ? null : job.id)}
+                className="text-gray-500 hover:text-gray-900"
+                aria-label={isExpanded ? 'Collapse' : 'Expand'}
+              >
+                {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </button>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono truncate">{job.id}</span>
+                  {job.quality && <Badge variant="secondary">{job.quality}</Badge>}
+                  {job.attemptsMade > 0 && <Badge variant="outline">{job.attemptsMade} attempts</Badge>}
+                </div>
+                {job.failedReason && <p className="text-red-600 truncate">{job.failedReason}</p>}
+              </div>
+
+              <span className="text-xs text-gray-500 shrink-0">{formatTime(job.finishedAt || job.processedAt || job.createdAt)}</span>
+
+              {job.state === 'failed' && job.queue === 'render' && (
+                <Button size="sm" variant="outline" disabled={busyJobId === job.id} onClick={() => onRetry(job)}>
+                  Retry
+                </Button>
+              )}
+              {job.state === 'delayed' && (
+                <Button size="sm" variant="outline" disabled={busyJobId === job.id} onClick={() => onPromote(job)}>
+                  Run now
+                </Button>
+              )}
+            </div>
+
+            {isExpanded && (
+              <div className="mt-3 ml-7 space-y-2 text-xs">
+                <dl className="grid grid-cols-[8rem_1fr] gap-1">
+                  <dt className="text-gray-500">User</dt>
+                  <dd className="font-mono">{job.userId || '—'}</dd>
+                  <dt className="text-gray-500">Project</dt>
+                  <dd className="font-mono">{job.projectId || '—'}</dd>
+                  {job.renderJobId && (
+                    <>
+                      <dt className="text-gray-500">Render</dt>
+                      <dd className="font-mono">{job.renderJobId}</dd>
+                    </>
+                  )}
+                  <dt className="text-gray-500">Created</dt>
+                  <dd>{formatTime(job.createdAt)}</dd>
+                  <dt className="text-gray-500">Started</dt>
+                  <dd>{formatTime(job.processedAt)}</dd>
+                  <dt className="text-gray-500">Finished</dt>
+                  <dd>{formatTime(job.finishedAt)}</dd>
+                </dl>
+
+                {job.stacktrace.map((trace, index) => (
+                  <pre key={index} className="bg-gray-900 text-gray-100 rounded p-3 overflow-x-auto whitespace-pre">
+                    {trace}
+                  </pre>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
@@ -26,7 +26,9 @@ import {
   Tag
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { listAssets, getAsset, uploadAsset, searchStock } from '@/lib/assets'
 import { useEditorStore } from '@/stores/editor-store'
+import type { AssetStatus, AssetType, MediaAsset, StockAsset, StockMediaType } from '@invideo-studio/shared'
 
 interface Asset {
   id: string
@@ -41,6 +43,69 @@ interface Asset {
   license?: string
   provider: 'pixabay' | 'pexels' | 'unsplash' | 'user'
   isLiked?: boolean
+  status?: AssetStatus // Uploads can't be used until they are ready
+  proxyUrl?: string
+  posterUrl?: string
+  width?: number
+  height?: number
+  attribution?: string // Credit line stock licenses ask for
+  sourceUrl?: string
+}
+
+// Where the library's assets come from
+type LibrarySource = 'stock' | 'uploads'
+
+// How often uploads still being processed are checked on
+const PROCESSING_POLL_INTERVAL = 3000
+
+const TAB_TYPES: Record<string, AssetType | undefined> = {
+  images: 'image',
+  videos: 'video',
+  audio: 'audio'
+}
+
+const UPLOAD_ACCEPT = 'image/*,video/*,audio/*'
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(Math.round(bytes / 1024), 1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function toAsset(asset: MediaAsset): Asset {
+  return {
+    id: asset.id,
+    type: asset.type,
+    title: asset.name,
+    url: asset.url || '',
+    thumbnail: asset.thumbnailUrl || undefined,
+    duration: asset.metadata?.duration,
+    size: asset.metadata ? formatSize(asset.metadata.size) : undefined,
+    provider: 'user',
+    status: asset.status,
+    proxyUrl: asset.proxyUrl || undefined,
+    posterUrl: asset.posterUrl || undefined,
+    width: asset.metadata?.width,
+    height: asset.metadata?.height
+  }
+}
+
+function fromStock(asset: StockAsset): Asset {
+  return {
+    id: asset.id,
+    type: asset.type,
+    title: asset.title,
+    url: asset.url,
+    thumbnail: asset.thumbnail,
+    duration: asset.duration,
+    author: asset.author,
+    tags: asset.tags,
+    license: asset.license.name,
+    provider: asset.provider,
+    width: asset.width,
+    height: asset.height,
+    attribution: asset.attribution,
+    sourceUrl: asset.sourceUrl
+  }
 }
 
 interface AssetLibraryProps {
@@ -68,6 +133,7 @@ function AssetCard({ asset, view, onSelect, onPreview, onLike, isSelected }: Ass
   }, [asset, isPlaying, onPreview])
 
   const handleSelect = useCallback(() => {
+    if (asset.status && asset.status !== 'ready') return
     setIsLoading(true)
     onSelect(asset)
     setTimeout(() => setIsLoading(false), 1000) // Simulate loading
@@ -127,6 +193,11 @@ function AssetCard({ asset, view, onSelect, onPreview, onLike, isSelected }: Ass
               </span>
             )}
             {asset.size && <span>{asset.size}</span>}
+            {asset.status && asset.status !== 'ready' && (
+              <Badge variant={asset.status === 'failed' ? 'destructive' : 'secondary'} className="text-xs">
+                {asset.status}
+              </Badge>
+            )}
           </div>
           {asset.tags && asset.tags.length > 0 && (
             <div className="flex gap-1 mt-1">
@@ -261,7 +332,11 @@ function AssetCard({ asset, view, onSelect, onPreview, onLike, isSelected }: Ass
               {asset.author}
             </span>
           )}
-          {asset.provider && (
+          {asset.status && asset.status !== 'ready' ? (
+            <Badge variant={asset.status === 'failed' ? 'destructive' : 'secondary'} className="text-xs">
+              {asset.status}
+            </Badge>
+          ) : asset.provider && (
             <Badge variant="outline" className="text-xs">
               {asset.provider}
             </Badge>
@@ -289,64 +364,84 @@ export function AssetLibrary({ width = 400 }: AssetLibraryProps) {
 
   const { addLayer } = useEditorStore()
 
-  // Mock assets data
-  const mockAssets: Asset[] = [
-    {
-      id: '1',
-      type: 'image',
-      title: 'Modern Office Space',
-      url: 'https://images.unsplash.com/photo-1497366216548-37526070297c',
-      author: 'John Doe',
-      tags: ['office', 'modern', 'workspace'],
-      provider: 'unsplash'
-    },
-    {
-      id: '2',
-      type: 'video',
-      title: 'Time Lapse City',
-      url: 'https://sample-videos.com/zip/10/mp4/SampleVideo_1280x720_1mb.mp4',
-      thumbnail: 'https://images.unsplash.com/photo-1449824913935-59a10b8d2000',
-      duration: 30,
-      author: 'Jane Smith',
-      tags: ['city', 'timelapse', 'urban'],
-      provider: 'pexels'
-    },
-    {
-      id: '3',
-      type: 'audio',
-      title: 'Upbeat Background Music',
-      url: 'https://www.soundjay.com/misc/sounds/bell-ringing-05.wav',
-      thumbnail: 'https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f',
-      duration: 120,
-      author: 'Audio Pro',
-      tags: ['music', 'upbeat', 'background'],
-      provider: 'pixabay'
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [source, setSource] = useState<LibrarySource>('stock')
+  const [page, setPage] = useState(1)
+  const [hasMore, setHasMore] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+
+  const fetchPage = useCallback(async (page: number): Promise<{ assets: Asset[], hasMore: boolean }> => {
+    const type = TAB_TYPES[activeTab]
+
+    if (source === 'uploads') {
+      const result = await listAssets({ type, search: searchQuery || undefined, page })
+      return { assets: result.assets.map(toAsset), hasMore: page * result.pageSize < result.total }
+    }
+
+    if (type === 'audio') return { assets: [], hasMore: false }
+
+    const types: StockMediaType[] = type ? [type] : ['image', 'video']
+    const results = await Promise.all(types.map(type => searchStock({ query: searchQuery, type, page })))
+    return {
+      assets: results.reduce<Asset[]>((all, result) => all.concat(result.results.map(fromStock)), []),
+      hasMore: results.some(result => result.hasMore)
     }
-  ]
+  }, [source, activeTab, searchQuery])
 
-  // Load assets based on active tab and search
+  // Load the first page for the source, tab and search
   useEffect(() => {
     setLoading(true)
-    
-    // Simulate API call
-    setTimeout(() => {
-      let filteredAssets = mockAssets.filter(asset => {
-        const matchesType = activeTab === 'all' || 
-          (activeTab === 'images' && asset.type === 'image') ||
-          (activeTab === 'videos' && asset.type === 'video') ||
-          (activeTab === 'audio' && asset.type === 'audio')
-        
-        const matchesSearch = !searchQuery || 
-          asset.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          asset.tags?.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()))
-        
-        return matchesType && matchesSearch
-      })
-      
-      setAssets(filteredAssets)
-      setLoading(false)
-    }, 500)
-  }, [activeTab, searchQuery])
+
+    // Wait for typing to pause before searching
+    const timeout = setTimeout(() => {
+      fetchPage(1)
+        .then(result => {
+          setAssets(result.assets)
+          setHasMore(result.hasMore)
+          setPage(1)
+          setError(null)
+        })
+        .catch(error => {
+          setAssets([])
+          setHasMore(false)
+          setError(error instanceof Error ? error.message : 'Failed to load assets')
+        })
+        .finally(() => setLoading(false))
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [fetchPage])
+
+  const handleLoadMore = useCallback(async () => {
+    setLoadingMore(true)
+    try {
+      const result = await fetchPage(page + 1)
+      setAssets(prev => prev.concat(result.assets.filter(asset => !prev.some(existing => existing.id === asset.id))))
+      setHasMore(result.hasMore)
+      setPage(page + 1)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load assets')
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [fetchPage, page])
+
+  // Refresh uploads that are still being processed until they are ready or failed
+  const processingIds = assets.filter(asset => asset.status === 'processing').map(asset => asset.id).join(',')
+  useEffect(() => {
+    if (!processingIds) return
+
+    const interval = setInterval(async () => {
+      const updated = await Promise.all(processingIds.split(',').map(id => getAsset(id).catch(() => null)))
+      const byId = new Map(updated.filter((asset): asset is MediaAsset => asset !== null).map(asset => [asset.id, toAsset(asset)]))
+      setAssets(prev => prev.map(asset => byId.get(asset.id) || asset))
+    }, PROCESSING_POLL_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [processingIds])
 
   const handleAssetSelect = useCallback((asset: Asset) => {
     setSelectedAsset(asset)
@@ -365,6 +460,9 @@ export function AssetLibrary({ width = 400 }: AssetLibraryProps) {
       locked: false,
       data: {
         source: asset.url,
+        proxy: asset.proxyUrl, // Lighter copy for the editor; exports use the source
+        poster: asset.posterUrl,
+        attribution: asset.attribution,
         originalAsset: asset
       }
     }
@@ -373,7 +471,7 @@ export function AssetLibrary({ width = 400 }: AssetLibraryProps) {
       addLayer({
         ...baseLayerData,
         width: 400,
-        height: 300
+        height: asset.width && asset.height ? Math.round(400 * asset.height / asset.width) : 300
       })
     } else if (asset.type === 'video') {
       addLayer({
@@ -404,8 +502,28 @@ export function AssetLibrary({ width = 400 }: AssetLibraryProps) {
   }, [])
 
   const handleUpload = useCallback(() => {
-    // This would open a file upload dialog
-    console.log('Upload asset')
+    fileInputRef.current?.click()
+  }, [])
+
+  const handleFilesChosen = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || [])
+    event.target.value = ''
+    if (!files.length) return
+
+    setError(null)
+    // Show the uploads as they arrive; switching reloads them, including any already sent
+    setSource('uploads')
+    try {
+      for (let index = 0; index < files.length; index++) {
+        const file = files[index]
+        const asset = await uploadAsset(file, fraction => setUploadProgress((index + fraction) / files.length))
+        setAssets(prev => [toAsset(asset), ...prev.filter(existing => existing.id !== asset.id)])
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Upload failed')
+    } finally {
+      setUploadProgress(null)
+    }
   }, [])
 
   return (
@@ -426,13 +544,33 @@ export function AssetLibrary({ width = 400 }: AssetLibraryProps) {
               variant="ghost"
               size="sm"
               onClick={handleUpload}
+              disabled={uploadProgress !== null}
               className="h-8 w-8 p-0"
             >
               <Upload className="w-4 h-4" />
             </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={UPLOAD_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={handleFilesChosen}
+            />
           </div>
         </div>
 
+        {uploadProgress !== null && (
+          <div className="mb-3">
+            <div className="text-xs text-gray-500 mb-1">Uploading... {Math.round(uploadProgress * 100)}%</div>
+            <div className="h-1 bg-gray-200 dark:bg-gray-700 rounded">
+              <div className="h-1 bg-blue-500 rounded" style={{ width: `${uploadProgress * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-500 mb-3">{error}</p>}
+
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
           <Input
@@ -442,6 +580,23 @@ export function AssetLibrary({ width = 400 }: AssetLibraryProps) {
             className="pl-10"
           />
         </div>
+
+        <div className="flex gap-1 mt-3">
+          <Button
+            variant={source === 'stock' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setSource('stock')}
+          >
+            Stock
+          </Button>
+          <Button
+            variant={source === 'uploads' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setSource('uploads')}
+          >
+            My Uploads
+          </Button>
+        </div>
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col">
@@ -476,13 +631,16 @@ export function AssetLibrary({ width = 400 }: AssetLibraryProps) {
                    <Search className="w-8 h-8 text-gray-400" />}
                 </div>
                 <p className="text-gray-500 text-sm">
-                  {searchQuery ? 'No assets found for your search' : 'No assets available'}
+                  {source === 'stock' && activeTab === 'audio'
+                    ? 'Stock search covers images and videos'
+                    : searchQuery ? 'No assets found for your search' : 'No assets available'}
                 </p>
-                {!searchQuery && (
+                {!searchQuery && source === 'uploads' && (
                   <Button
                     variant="outline"
                     size="sm"
                     onClick={handleUpload}
+                    disabled={uploadProgress !== null}
                     className="mt-2"
                   >
                     <Upload className="w-4 h-4 mr-1" />
@@ -510,6 +668,14 @@ export function AssetLibrary({ width = 400 }: AssetLibraryProps) {
                 ))}
               </div>
             )}
+
+            {!loading && hasMore && (
+              <div className="flex justify-center py-3">
+                <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
           </ScrollArea>
         </div>
       </Tabs>
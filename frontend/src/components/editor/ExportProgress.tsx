@@ -0,0 +1,84 @@
+'use client'
+
+import { Download, X } from 'lucide-react'
+import type { RenderStage } from '@invideo-studio/shared'
+import { useEditorStore } from '@/stores/editor-store'
+import { Button } from '@/components/ui/button'
+
+const STAGE_LABELS: Record<RenderStage, string> = {
+  queued: 'Waiting in queue',
+  processing: 'Preparing assets',
+  rendering: 'Rendering scenes',
+  encoding: 'Encoding video',
+  uploading: 'Uploading',
+  completed: 'Export complete',
+  failed: 'Export failed',
+  cancelled: 'Export cancelled'
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s left`
+  return `${Math.round(seconds / 60)} min left`
+}
+
+export function ExportProgress() {
+  const { exportJob, cancelExport, dismissExport } = useEditorStore()
+
+  if (!exportJob) return null
+
+  const { stage, percent, scene, etaSeconds, outputUrl, error } = exportJob
+  const isFinished = stage === 'completed' || stage === 'failed' || stage === 'cancelled'
+
+  return (
+    <div className="bg-gray-800 border-b border-gray-700 px-4 py-2">
+      <div className="flex items-center gap-4">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between text-sm">
+            <span className={stage === 'failed' ? 'text-red-400' : 'text-gray-200'}>
+              {STAGE_LABELS[stage]}
+              {stage === 'rendering' && scene && ` (${scene.index + 1}/${scene.total})`}
+            </span>
+            <span className="text-gray-400">
+              {!isFinished && etaSeconds !== undefined && `${formatEta(etaSeconds)} · `}
+              {Math.round(percent)}%
+            </span>
+          </div>
+
+          <div className="mt-1 h-1.5 w-full rounded-full bg-gray-700 overflow-hidden">
+            <div
+              className={`h-full transition-all ${stage === 'failed' ? 'bg-red-500' : 'bg-blue-500'}`}
+              style={{ width: `${stage === 'failed' ? 100 : percent}%` }}
+            />
+          </div>
+
+          {error && (
+            <div className="mt-1 text-xs text-red-400 truncate" title={error}>
+              {error}
+            </div>
+          )}
+        </div>
+
+        {stage === 'completed' && outputUrl && (
+          <Button asChild size="sm">
+            <a href={outputUrl} target="_blank" rel="noopener noreferrer">
+              <Download className="w-4 h-4 mr-1" />
+              Download
+            </a>
+          </Button>
+        )}
+
+        {!isFinished && exportJob.jobId && (
+          <Button variant="outline" size="sm" onClick={cancelExport}>
+            Cancel
+          </Button>
+        )}
+
+        {isFinished && (
+          <Button variant="ghost" size="sm" onClick={dismissExport}>
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import React, { useState, useCallback } from 'react'
-import { useEditorStore } from '@/stores/editor-store'
+import { useEditorStore, type AnimatableProperty, type AudioRole, type EasingPreset } from '@/stores/editor-store'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -25,9 +25,27 @@ import {
   Type,
   Image,
   Video,
-  Music
+  Music,
+  Diamond,
+  Captions
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import {
+  CAPTION_PRESETS,
+  FONT_FAMILIES,
+  resolveCaptionStyle,
+  resolveTextStyle,
+  getSceneStartTime,
+  interpolateKeyframes,
+  type CaptionStyle,
+  type TextStyle
+} from '@invideo-studio/shared'
+import {
+  VISUAL_PROPERTIES,
+  AUDIO_PROPERTIES,
+  EASING_PRESETS,
+  getPropertyDefault
+} from '@/lib/keyframes'
 
 interface LayerPanelProps {
   width?: number
@@ -64,6 +82,7 @@ function LayerItem({
       case 'image': return <Image className="w-4 h-4" />
       case 'video': return <Video className="w-4 h-4" />
       case 'audio': return <Music className="w-4 h-4" />
+      case 'caption': return <Captions className="w-4 h-4" />
       default: return <Settings className="w-4 h-4" />
     }
   }
@@ -74,6 +93,7 @@ function LayerItem({
       case 'image': return 'border-orange-500'
       case 'video': return 'border-blue-500'  
       case 'audio': return 'border-green-500'
+      case 'caption': return 'border-pink-500'
       default: return 'border-gray-500'
     }
   }
@@ -209,6 +229,322 @@ function LayerItem({
   )
 }
 
+interface KeyframeEditorProps {
+  layer: any
+  properties: AnimatableProperty[]
+}
+
+function KeyframeEditor({ layer, properties }: KeyframeEditorProps) {
+  const [property, setProperty] = useState<AnimatableProperty>(properties[0])
+  const [easing, setEasing] = useState<EasingPreset>('linear')
+  const { project, currentTime, setKeyframe, removeKeyframe } = useEditorStore()
+
+  // Keyframe times are relative to the layer, which is placed relative to its scene
+  const scene = project?.scenes.find(s => s.layers.some(l => l.id === layer.id))
+  const sceneTime = project && scene ? currentTime - getSceneStartTime(project.scenes, scene.id) : currentTime
+  const localTime = Math.max(0, Math.round((sceneTime - (layer.startTime || 0)) * 100) / 100)
+
+  const handleAddKeyframe = useCallback(() => {
+    // Capture what is on screen right now so adding a keyframe never makes the layer jump
+    const value = interpolateKeyframes(layer.keyframes?.[property], localTime, layer[property] ?? getPropertyDefault(property))
+    setKeyframe(layer.id, property, { time: localTime, value, easing })
+  }, [layer, property, localTime, easing, setKeyframe])
+
+  const animatedProperties = properties.filter(p => layer.keyframes?.[p]?.length)
+
+  return (
+    <div className="space-y-2">
+      <Label>Animation</Label>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={property}
+          onChange={(e) => setProperty(e.target.value as AnimatableProperty)}
+          className="h-9 rounded-md border border-gray-200 dark:border-gray-700 bg-transparent px-2 text-sm"
+        >
+          {properties.map(p => (
+            <option key={p} value={p}>{p}</option>
+          ))}
+        </select>
+        <select
+          value={easing}
+          onChange={(e) => setEasing(e.target.value as EasingPreset)}
+          className="h-9 rounded-md border border-gray-200 dark:border-gray-700 bg-transparent px-2 text-sm"
+        >
+          {EASING_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleAddKeyframe}
+        className="w-full flex items-center gap-1"
+      >
+        <Diamond className="w-3 h-3" />
+        Add keyframe at {localTime.toFixed(2)}s
+      </Button>
+
+      {animatedProperties.map(p => (
+        <div key={p} className="text-xs">
+          <div className="font-medium text-gray-500 mb-1">{p}</div>
+          <div className="space-y-1">
+            {layer.keyframes[p].map((keyframe: any) => (
+              <div key={keyframe.time} className="flex items-center justify-between">
+                <span>
+                  {keyframe.time.toFixed(2)}s → {Math.round(keyframe.value * 100) / 100}
+                  <span className="text-gray-500 ml-1">
+                    ({typeof keyframe.easing === 'string' ? keyframe.easing : 'cubic-bezier'})
+                  </span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeKeyframe(layer.id, p, keyframe.time)}
+                  className="h-6 w-6 p-0"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface TextStyleEditorProps {
+  layer: any
+  // Caption layers share the text fields with their own defaults
+  resolveStyle?: (data: Record<string, unknown> | undefined) => TextStyle
+}
+
+const selectClassName = 'mt-1 h-9 w-full rounded-md border border-gray-200 dark:border-gray-700 bg-transparent px-2 text-sm'
+
+function TextStyleEditor({ layer, resolveStyle = resolveTextStyle }: TextStyleEditorProps) {
+  const { updateLayer } = useEditorStore()
+  const style = resolveStyle(layer.data)
+
+  const setStyle = useCallback((changes: Partial<TextStyle>) => {
+    updateLayer(layer.id, { data: { ...layer.data, ...changes } })
+  }, [layer, updateLayer])
+
+  const numberInput = (id: string, label: string, key: keyof TextStyle, step = '1') => (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        step={step}
+        value={style[key] as number}
+        onChange={(e) => setStyle({ [key]: parseFloat(e.target.value) })}
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-3">
+      {layer.type === 'text' && (
+        <div>
+          <Label htmlFor="layer-content">Text Content</Label>
+          <textarea
+            id="layer-content"
+            rows={3}
+            value={layer.data?.content || ''}
+            onChange={(e) => updateLayer(layer.id, { data: { ...layer.data, content: e.target.value } })}
+            placeholder="Enter text"
+            className="mt-1 w-full rounded-md border border-gray-200 dark:border-gray-700 bg-transparent px-3 py-2 text-sm"
+          />
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="layer-font-family">Font</Label>
+        <select
+          id="layer-font-family"
+          value={style.fontFamily}
+          onChange={(e) => setStyle({ fontFamily: e.target.value as TextStyle['fontFamily'] })}
+          className={selectClassName}
+        >
+          {FONT_FAMILIES.map(family => (
+            <option key={family} value={family}>{family}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {numberInput('layer-font-size', 'Font Size', 'fontSize')}
+        {numberInput('layer-line-height', 'Line Height', 'lineHeight', '0.1')}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant={style.fontWeight === 'bold' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setStyle({ fontWeight: style.fontWeight === 'bold' ? 'normal' : 'bold' })}
+          className="font-bold"
+        >
+          B
+        </Button>
+        <Button
+          variant={style.fontStyle === 'italic' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setStyle({ fontStyle: style.fontStyle === 'italic' ? 'normal' : 'italic' })}
+          className="italic"
+        >
+          I
+        </Button>
+        <select
+          aria-label="Text alignment"
+          value={style.textAlign}
+          onChange={(e) => setStyle({ textAlign: e.target.value as TextStyle['textAlign'] })}
+          className="h-9 flex-1 rounded-md border border-gray-200 dark:border-gray-700 bg-transparent px-2 text-sm"
+        >
+          <option value="left">Left</option>
+          <option value="center">Center</option>
+          <option value="right">Right</option>
+        </select>
+        <select
+          aria-label="Vertical alignment"
+          value={style.verticalAlign}
+          onChange={(e) => setStyle({ verticalAlign: e.target.value as TextStyle['verticalAlign'] })}
+          className="h-9 flex-1 rounded-md border border-gray-200 dark:border-gray-700 bg-transparent px-2 text-sm"
+        >
+          <option value="top">Top</option>
+          <option value="middle">Middle</option>
+          <option value="bottom">Bottom</option>
+        </select>
+      </div>
+
+      <div>
+        <Label htmlFor="layer-color">Text Color</Label>
+        <Input
+          id="layer-color"
+          type="color"
+          value={style.color}
+          onChange={(e) => setStyle({ color: e.target.value })}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="layer-stroke-color">Outline</Label>
+          <Input
+            id="layer-stroke-color"
+            type="color"
+            value={style.strokeColor}
+            onChange={(e) => setStyle({ strokeColor: e.target.value })}
+          />
+        </div>
+        {numberInput('layer-stroke-width', 'Outline Width', 'strokeWidth')}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="layer-shadow-color">Shadow</Label>
+          <Input
+            id="layer-shadow-color"
+            type="color"
+            value={style.shadowColor}
+            onChange={(e) => setStyle({ shadowColor: e.target.value })}
+          />
+        </div>
+        {numberInput('layer-shadow-opacity', 'Shadow Opacity', 'shadowOpacity', '0.1')}
+        {numberInput('layer-shadow-blur', 'Shadow Blur', 'shadowBlur')}
+        <div className="grid grid-cols-2 gap-1">
+          {numberInput('layer-shadow-x', 'X', 'shadowOffsetX')}
+          {numberInput('layer-shadow-y', 'Y', 'shadowOffsetY')}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="layer-background">Background</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              id="layer-background"
+              type="color"
+              value={style.backgroundColor || '#000000'}
+              onChange={(e) => setStyle({ backgroundColor: e.target.value })}
+            />
+            {style.backgroundColor && (
+              <Button variant="ghost" size="sm" onClick={() => setStyle({ backgroundColor: undefined })}>
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+        {numberInput('layer-corner-radius', 'Corner Radius', 'cornerRadius')}
+        {numberInput('layer-padding', 'Padding', 'padding')}
+      </div>
+    </div>
+  )
+}
+
+interface CaptionEditorProps {
+  layer: any
+}
+
+function CaptionEditor({ layer }: CaptionEditorProps) {
+  const { updateLayer } = useEditorStore()
+  const style = resolveCaptionStyle(layer.data)
+  const wordCount = layer.data?.words?.length || 0
+
+  const setStyle = useCallback((changes: Partial<CaptionStyle>) => {
+    updateLayer(layer.id, { data: { ...layer.data, ...changes } })
+  }, [layer, updateLayer])
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-gray-500">
+        {wordCount} timed {wordCount === 1 ? 'word' : 'words'}
+      </div>
+
+      <div>
+        <Label htmlFor="caption-preset">Animation</Label>
+        <select
+          id="caption-preset"
+          value={style.preset}
+          onChange={(e) => setStyle({ preset: e.target.value as CaptionStyle['preset'] })}
+          className={selectClassName}
+        >
+          {CAPTION_PRESETS.map(preset => (
+            <option key={preset} value={preset}>
+              {preset.charAt(0).toUpperCase() + preset.slice(1)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="caption-highlight">Active Word</Label>
+          <Input
+            id="caption-highlight"
+            type="color"
+            value={style.highlightColor}
+            onChange={(e) => setStyle({ highlightColor: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="caption-words-per-page">Words on Screen</Label>
+          <Input
+            id="caption-words-per-page"
+            type="number"
+            min={1}
+            step="1"
+            value={style.wordsPerPage}
+            onChange={(e) => setStyle({ wordsPerPage: parseInt(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <TextStyleEditor layer={layer} resolveStyle={resolveCaptionStyle} />
+    </div>
+  )
+}
+
 export function LayerPanel({ width = 300 }: LayerPanelProps) {
   const [activeTab, setActiveTab] = useState('layers')
   
@@ -222,7 +558,10 @@ export function LayerPanel({ width = 300 }: LayerPanelProps) {
     duplicateLayer,
     addLayer,
     moveLayerUp,
-    moveLayerDown
+    moveLayerDown,
+    generateCaptions,
+    generateVoiceover,
+    isLoading
   } = useEditorStore()
 
   // Get current scene and its layers
@@ -512,56 +851,125 @@ export function LayerPanel({ width = 300 }: LayerPanelProps) {
                       min={0}
                       max={1}
                       step={0.01}
-                      value={[selectedLayerData.opacity || 1]}
+                      value={[selectedLayerData.opacity ?? 1]}
                       onValueChange={([value]) => updateLayer(selectedLayerData.id, { opacity: value })}
                       className="mt-2"
                     />
                     <div className="text-xs text-gray-500 mt-1">
-                      {Math.round((selectedLayerData.opacity || 1) * 100)}%
+                      {Math.round((selectedLayerData.opacity ?? 1) * 100)}%
                     </div>
                   </div>
 
-                  {/* Text-specific properties */}
-                  {selectedLayerData.type === 'text' && (
+                  {/* Audio mixing */}
+                  {(selectedLayerData.type === 'audio' || selectedLayerData.type === 'video') && (
                     <>
                       <div>
-                        <Label htmlFor="layer-content">Text Content</Label>
-                        <Input
-                          id="layer-content"
-                          value={selectedLayerData.data?.content || ''}
-                          onChange={(e) => updateLayer(selectedLayerData.id, { 
-                            data: { ...selectedLayerData.data, content: e.target.value }
-                          })}
-                          placeholder="Enter text"
+                        <Label htmlFor="layer-volume">Volume</Label>
+                        <Slider
+                          id="layer-volume"
+                          min={0}
+                          max={2}
+                          step={0.01}
+                          value={[selectedLayerData.volume ?? 1]}
+                          onValueChange={([value]) => updateLayer(selectedLayerData.id, { volume: value })}
+                          className="mt-2"
                         />
+                        <div className="text-xs text-gray-500 mt-1">
+                          {Math.round((selectedLayerData.volume ?? 1) * 100)}%
+                        </div>
                       </div>
 
-                      <div>
-                        <Label htmlFor="layer-font-size">Font Size</Label>
-                        <Input
-                          id="layer-font-size"
-                          type="number"
-                          value={selectedLayerData.data?.fontSize || 24}
-                          onChange={(e) => updateLayer(selectedLayerData.id, { 
-                            data: { ...selectedLayerData.data, fontSize: parseFloat(e.target.value) }
-                          })}
-                        />
-                      </div>
-
-                      <div>
-                        <Label htmlFor="layer-color">Text Color</Label>
-                        <Input
-                          id="layer-color"
-                          type="color"
-                          value={selectedLayerData.data?.color || '#000000'}
-                          onChange={(e) => updateLayer(selectedLayerData.id, { 
-                            data: { ...selectedLayerData.data, color: e.target.value }
-                          })}
-                        />
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label htmlFor="layer-fade-in">Fade In (s)</Label>
+                          <Input
+                            id="layer-fade-in"
+                            type="number"
+                            min={0}
+                            step="0.1"
+                            value={selectedLayerData.fadeIn || 0}
+                            onChange={(e) => updateLayer(selectedLayerData.id, { fadeIn: parseFloat(e.target.value) })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="layer-fade-out">Fade Out (s)</Label>
+                          <Input
+                            id="layer-fade-out"
+                            type="number"
+                            min={0}
+                            step="0.1"
+                            value={selectedLayerData.fadeOut || 0}
+                            onChange={(e) => updateLayer(selectedLayerData.id, { fadeOut: parseFloat(e.target.value) })}
+                          />
+                        </div>
                       </div>
                     </>
                   )}
 
+                  {selectedLayerData.type === 'audio' && (
+                    <div>
+                      <Label htmlFor="layer-audio-role">Audio Role</Label>
+                      <select
+                        id="layer-audio-role"
+                        value={selectedLayerData.audioRole || 'music'}
+                        onChange={(e) => updateLayer(selectedLayerData.id, { audioRole: e.target.value as AudioRole })}
+                        className="mt-1 h-9 w-full rounded-md border border-gray-200 dark:border-gray-700 bg-transparent px-2 text-sm"
+                      >
+                        <option value="music">Music (ducked under voice-over)</option>
+                        <option value="voiceover">Voice-over</option>
+                        <option value="effect">Sound effect</option>
+                      </select>
+                    </div>
+                  )}
+
+                  {/* Voice-over slot left by a storyboard import */}
+                  {selectedLayerData.type === 'audio' && selectedLayerData.data?.placeholder && (
+                    <div className="space-y-2">
+                      <div className="text-xs text-gray-500">{selectedLayerData.data.script}</div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={() => generateVoiceover(selectedLayerData.id)}
+                        className="w-full flex items-center gap-1"
+                      >
+                        <Music className="w-3 h-3" />
+                        Generate Voice-over
+                      </Button>
+                    </div>
+                  )}
+
+                  {(selectedLayerData.type === 'audio' || selectedLayerData.type === 'video') && selectedLayerData.data?.source && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isLoading}
+                      onClick={() => generateCaptions(selectedLayerData.id)}
+                      className="w-full flex items-center gap-1"
+                    >
+                      <Captions className="w-3 h-3" />
+                      Generate Captions
+                    </Button>
+                  )}
+
+                  {/* Keyframes; caption words are animated by their preset instead */}
+                  {selectedLayerData.type !== 'caption' && (
+                    <KeyframeEditor
+                      key={`${selectedLayerData.id}-${selectedLayerData.type === 'audio' ? 'audio' : 'visual'}`}
+                      layer={selectedLayerData}
+                      properties={selectedLayerData.type === 'audio' ? AUDIO_PROPERTIES : VISUAL_PROPERTIES}
+                    />
+                  )}
+
+                  {/* Text-specific properties */}
+                  {selectedLayerData.type === 'text' && (
+                    <TextStyleEditor layer={selectedLayerData} />
+                  )}
+
+                  {selectedLayerData.type === 'caption' && (
+                    <CaptionEditor layer={selectedLayerData} />
+                  )}
+
                   {/* Image/Video specific properties */}
                   {(selectedLayerData.type === 'image' || selectedLayerData.type === 'video') && (
                     <div>
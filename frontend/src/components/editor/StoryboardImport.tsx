@@ -0,0 +1,60 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useEditorStore } from '@/stores/editor-store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Clapperboard } from 'lucide-react'
+
+export function StoryboardImport() {
+  const { project, isLoading, error, generateStoryboard } = useEditorStore()
+  const [script, setScript] = useState('')
+  const [sceneCount, setSceneCount] = useState(5)
+
+  const canGenerate = Boolean(project) && script.trim().length >= 10 && !isLoading
+
+  return (
+    <div className="p-3 space-y-3">
+      <div>
+        <Label htmlFor="storyboard-script">Script</Label>
+        <textarea
+          id="storyboard-script"
+          rows={10}
+          value={script}
+          onChange={(e) => setScript(e.target.value)}
+          placeholder="Paste a script to break into scenes"
+          className="mt-1 w-full rounded-md border border-gray-600 bg-transparent px-3 py-2 text-sm"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="storyboard-scenes">Scenes</Label>
+        <Input
+          id="storyboard-scenes"
+          type="number"
+          min={1}
+          max={20}
+          value={sceneCount}
+          onChange={(e) => setSceneCount(Math.min(20, Math.max(1, parseInt(e.target.value) || 1)))}
+        />
+      </div>
+
+      <Button
+        className="w-full flex items-center gap-1"
+        disabled={!canGenerate}
+        onClick={() => generateStoryboard(script, sceneCount)}
+      >
+        <Clapperboard className="w-4 h-4" />
+        {isLoading ? 'Generating...' : 'Generate Scenes'}
+      </Button>
+
+      <p className="text-xs text-gray-400">
+        Each storyboard scene is added to the end of the timeline with a placeholder
+        visual, its narration and a voice-over slot.
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
@@ -20,6 +20,8 @@ import {
   Unlock
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { TRANSITION_TYPES, DEFAULT_TRANSITION_DURATION } from '@/lib/transitions'
+import type { TransitionType } from '@/stores/editor-store'
 
 interface TimelineProps {
   height?: number
@@ -49,6 +51,7 @@ function LayerBlock({ layer, sceneIndex, scale, onSelect, isSelected, onDrag }:
       case 'audio': return 'bg-green-500'
       case 'text': return 'bg-purple-500'
       case 'image': return 'bg-orange-500'
+      case 'caption': return 'bg-pink-500'
       default: return 'bg-gray-500'
     }
   }
@@ -130,7 +133,8 @@ export function Timeline({ height = 300 }: TimelineProps) {
     selectLayer,
     deleteLayer,
     duplicateLayer,
-    addScene
+    addScene,
+    updateScene
   } = useEditorStore()
 
   // Get current scene
@@ -163,6 +167,21 @@ export function Timeline({ height = 300 }: TimelineProps) {
     })
   }, [updateLayer])
 
+  // Handle scene out-transition change
+  const handleTransitionChange = useCallback((sceneId: string, type: TransitionType) => {
+    const scene = project?.scenes.find(s => s.id === sceneId)
+    if (!scene) return
+
+    updateScene(sceneId, {
+      transitions: {
+        ...scene.transitions,
+        out: type === 'cut'
+          ? undefined
+          : { type, duration: scene.transitions.out?.duration || DEFAULT_TRANSITION_DURATION }
+      }
+    })
+  }, [project, updateScene])
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -293,6 +312,20 @@ export function Timeline({ height = 300 }: TimelineProps) {
                   >
                     <Plus className="w-3 h-3" />
                   </Button>
+                  {sceneIndex < project.scenes.length - 1 && (
+                    <select
+                      value={scene.transitions.out?.type || 'cut'}
+                      onChange={(e) => handleTransitionChange(scene.id, e.target.value as TransitionType)}
+                      className="h-7 bg-gray-700 text-xs text-gray-300 rounded px-1"
+                      title="Transition to next scene"
+                    >
+                      {TRANSITION_TYPES.map(transition => (
+                        <option key={transition.id} value={transition.id}>
+                          {transition.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
                 </div>
                 
                 {/* Layer tracks for this scene */}
@@ -0,0 +1,87 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useEditorStore, type ProjectDiff } from '@/stores/editor-store'
+import { Button } from '@/components/ui/button'
+import { GitCompare, RotateCcw } from 'lucide-react'
+
+export function VersionHistory() {
+  const { project, versions, isLoading, error, loadVersions, getVersionDiff, restoreVersion } = useEditorStore()
+  const [diffs, setDiffs] = useState<Record<number, ProjectDiff | string>>({})
+
+  const projectId = project?.id
+  useEffect(() => {
+    setDiffs({})
+    if (projectId) loadVersions()
+  }, [projectId, loadVersions])
+
+  if (!projectId) {
+    return <p className="p-3 text-xs text-gray-400">Save the project to start its version history.</p>
+  }
+
+  const latest = versions[0]?.version
+
+  const toggleDiff = async (version: number) => {
+    if (diffs[version]) {
+      const { [version]: _, ...rest } = diffs
+      setDiffs(rest)
+      return
+    }
+
+    try {
+      const diff = await getVersionDiff(version)
+      setDiffs(current => ({ ...current, [version]: diff }))
+    } catch (error) {
+      setDiffs(current => ({ ...current, [version]: error instanceof Error ? error.message : 'Failed to compare' }))
+    }
+  }
+
+  return (
+    <div className="p-3 space-y-2">
+      {versions.map(version => {
+        const diff = diffs[version.version]
+
+        return (
+          <div key={version.version} className="rounded border border-gray-700 p-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                Version {version.version}
+                {version.version === latest && <span className="ml-1 text-xs text-gray-400">(current)</span>}
+              </span>
+              <span className="text-xs text-gray-400">{new Date(version.createdAt).toLocaleString()}</span>
+            </div>
+
+            {version.message && <p className="text-xs text-gray-300 mt-1">{version.message}</p>}
+
+            {version.version !== latest && (
+              <div className="flex gap-1 mt-2">
+                <Button size="sm" variant="outline" className="flex items-center gap-1" onClick={() => toggleDiff(version.version)}>
+                  <GitCompare className="w-3 h-3" />
+                  Changes
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="flex items-center gap-1"
+                  disabled={isLoading}
+                  onClick={() => restoreVersion(version.version)}
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Restore
+                </Button>
+              </div>
+            )}
+
+            {diff && (
+              <p className="text-xs text-gray-400 mt-2">
+                {typeof diff === 'string' ? diff : `Since then: ${diff.summary}`}
+              </p>
+            )}
+          </div>
+        )
+      })}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
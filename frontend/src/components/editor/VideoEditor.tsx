@@ -10,7 +10,10 @@ const Rect = dynamic(() => import('react-konva').then(mod => ({ default: mod.Rec
 const Text = dynamic(() => import('react-konva').then(mod => ({ default: mod.Text })), { ssr: false })
 const KonvaImage = dynamic(() => import('react-konva').then(mod => ({ default: mod.Image })), { ssr: false })
 const Group = dynamic(() => import('react-konva').then(mod => ({ default: mod.Group })), { ssr: false })
+import { resolveTextStyle, getSceneStartTime } from '@invideo-studio/shared'
 import { useEditorStore } from '@/stores/editor-store'
+import { getAnimatedLayer } from '@/lib/keyframes'
+import { getCaptionFrame, getFontStyle } from '@/lib/captions'
 import { Button } from '@/components/ui/button'
 import { Play, Pause, Square, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react'
 
@@ -39,7 +42,7 @@ export function VideoEditor({ width = 800, height = 450 }: VideoEditorProps) {
     pause,
     stop,
     seek,
-    updateLayer,
+    setLayerPropertiesAtTime,
     deleteLayer,
     addLayer,
     selectLayer,
@@ -50,6 +53,9 @@ export function VideoEditor({ width = 800, height = 450 }: VideoEditorProps) {
   const currentScene = project?.scenes.find(s => s.id === useEditorStore.getState().selectedScene) || project?.scenes[0]
   const selectedLayerId = selectedLayer
 
+  // Layer times and keyframes are relative to their scene's start, as the renderer reads them
+  const sceneTime = project && currentScene ? currentTime - getSceneStartTime(project.scenes, currentScene.id) : currentTime
+
   // Canvas dimensions based on project settings
   const canvasWidth = project?.width || 1920
   const canvasHeight = project?.height || 1080
@@ -72,13 +78,13 @@ export function VideoEditor({ width = 800, height = 450 }: VideoEditorProps) {
     }
   }, [selectLayer])
 
-  // Handle drag end for layers
+  // Handle drag end for layers (keyframed properties get a keyframe at the playhead)
   const handleDragEnd = useCallback((layerId: string, newAttrs: any) => {
-    updateLayer(layerId, {
+    setLayerPropertiesAtTime(layerId, {
       x: newAttrs.x,
       y: newAttrs.y
-    })
-  }, [updateLayer])
+    }, sceneTime)
+  }, [setLayerPropertiesAtTime, sceneTime])
 
   // Handle transform end for layers
   const handleTransformEnd = useCallback((layerId: string, node: any) => {
@@ -89,14 +95,14 @@ export function VideoEditor({ width = 800, height = 450 }: VideoEditorProps) {
     node.scaleX(1)
     node.scaleY(1)
     
-    updateLayer(layerId, {
+    setLayerPropertiesAtTime(layerId, {
       x: node.x(),
       y: node.y(),
       width: Math.max(5, node.width() * scaleX),
       height: Math.max(5, node.height() * scaleY),
       rotation: node.rotation()
-    })
-  }, [updateLayer])
+    }, sceneTime)
+  }, [setLayerPropertiesAtTime, sceneTime])
 
   // Zoom handlers
   const handleZoomIn = useCallback(() => {
@@ -146,7 +152,7 @@ export function VideoEditor({ width = 800, height = 450 }: VideoEditorProps) {
       width: layer.width || 100,
       height: layer.height || 100,
       rotation: layer.rotation || 0,
-      opacity: layer.opacity || 1,
+      opacity: layer.opacity ?? 1,
       draggable: true,
       onDragEnd: (e: any) => {
         handleDragEnd(layer.id, e.target.attrs)
@@ -157,21 +163,91 @@ export function VideoEditor({ width = 800, height = 450 }: VideoEditorProps) {
     }
 
     switch (layer.type) {
-      case 'text':
+      case 'text': {
+        // Same style resolution as the export renderer, so the preview matches the video
+        const style = resolveTextStyle(layer.data)
+        const fontStyle = getFontStyle(style)
+
         return (
-          <Text
-            key={layer.id}
-            {...commonProps}
-            text={layer.content || 'Text Layer'}
-            fontSize={layer.fontSize || 24}
-            fontFamily={layer.fontFamily || 'Arial'}
-            fill={layer.color || '#000000'}
-            align={layer.textAlign || 'left'}
-            verticalAlign={layer.verticalAlign || 'top'}
-            wrap="word"
-          />
+          <Group key={layer.id} {...commonProps}>
+            {style.backgroundColor && (
+              <Rect
+                width={commonProps.width}
+                height={commonProps.height}
+                fill={style.backgroundColor}
+                cornerRadius={style.cornerRadius}
+              />
+            )}
+            <Text
+              width={commonProps.width}
+              height={commonProps.height}
+              text={String(layer.data?.content ?? '')}
+              fontSize={style.fontSize}
+              fontFamily={style.fontFamily}
+              fontStyle={fontStyle}
+              fill={style.color}
+              align={style.textAlign}
+              verticalAlign={style.verticalAlign}
+              lineHeight={style.lineHeight}
+              padding={style.padding}
+              wrap="word"
+              stroke={style.strokeColor}
+              strokeWidth={style.strokeWidth}
+              fillAfterStrokeEnabled
+              shadowEnabled={style.shadowOpacity > 0}
+              shadowColor={style.shadowColor}
+              shadowBlur={style.shadowBlur}
+              shadowOffsetX={style.shadowOffsetX}
+              shadowOffsetY={style.shadowOffsetY}
+              shadowOpacity={style.shadowOpacity}
+            />
+          </Group>
         )
+      }
       
+      case 'caption': {
+        const frame = getCaptionFrame(layer, sceneTime)
+
+        return (
+          <Group key={layer.id} {...commonProps}>
+            {/* Transparent between pages so the box can still be picked and dragged */}
+            <Rect
+              width={commonProps.width}
+              height={commonProps.height}
+              fill={(frame && frame.style.backgroundColor) || 'rgba(0, 0, 0, 0)'}
+              cornerRadius={frame?.style.cornerRadius}
+            />
+            {frame?.words.map((word, index) => (
+              <Text
+                key={index}
+                x={word.left + word.width / 2}
+                y={word.centerY + word.offsetY}
+                offsetX={word.width / 2}
+                offsetY={(frame.style.lineHeight * frame.style.fontSize) / 2}
+                scaleX={word.scale}
+                scaleY={word.scale}
+                text={word.text}
+                fontSize={frame.style.fontSize}
+                fontFamily={frame.style.fontFamily}
+                fontStyle={getFontStyle(frame.style)}
+                fill={word.color}
+                lineHeight={frame.style.lineHeight}
+                wrap="none"
+                stroke={frame.style.strokeColor}
+                strokeWidth={frame.style.strokeWidth}
+                fillAfterStrokeEnabled
+                shadowEnabled={frame.style.shadowOpacity > 0}
+                shadowColor={frame.style.shadowColor}
+                shadowBlur={frame.style.shadowBlur}
+                shadowOffsetX={frame.style.shadowOffsetX}
+                shadowOffsetY={frame.style.shadowOffsetY}
+                shadowOpacity={frame.style.shadowOpacity}
+              />
+            ))}
+          </Group>
+        )
+      }
+
       case 'rectangle':
         return (
           <Rect
@@ -209,15 +285,15 @@ export function VideoEditor({ width = 800, height = 450 }: VideoEditorProps) {
       default:
         return null
     }
-  }, [handleDragEnd, handleTransformEnd])
+  }, [handleDragEnd, handleTransformEnd, sceneTime])
 
   // Get current scene layers
   const currentSceneLayers = currentScene?.layers || []
   const visibleLayers = currentSceneLayers.filter(layer => {
     const startTime = layer.startTime || 0
     const duration = layer.duration || 10
-    return currentTime >= startTime && currentTime <= startTime + duration
-  })
+    return sceneTime >= startTime && sceneTime <= startTime + duration
+  }).map(layer => getAnimatedLayer(layer, sceneTime))
 
   return (
     <div className="relative bg-gray-900 rounded-lg overflow-hidden">
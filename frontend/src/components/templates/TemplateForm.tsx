@@ -0,0 +1,104 @@
+'use client'
+
+import React, { useState } from 'react'
+import type { TemplateSummary } from '@invideo-studio/shared'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { X } from 'lucide-react'
+
+interface TemplateFormProps {
+  template: TemplateSummary
+  isSubmitting: boolean
+  error: string | null
+  onSubmit: (values: Record<string, string>, name: string) => void
+  onCancel: () => void
+}
+
+/**
+ * Fill in a template's variables before making a project from it
+ */
+export function TemplateForm({ template, isSubmitting, error, onSubmit, onCancel }: TemplateFormProps) {
+  const [name, setName] = useState(template.name)
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    template.variables.reduce<Record<string, string>>((defaults, variable) => {
+      defaults[variable.name] = variable.defaultValue || ''
+      return defaults
+    }, {})
+  )
+
+  const setValue = (variable: string, value: string) => {
+    setValues(current => ({ ...current, [variable]: value }))
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    // Empty fields fall back to the template's defaults
+    const filled = Object.keys(values).reduce<Record<string, string>>((given, variable) => {
+      if (values[variable]) given[variable] = values[variable]
+      return given
+    }, {})
+    onSubmit(filled, name)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{template.name}</h2>
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} className="h-8 w-8 p-0">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {template.description && <p className="text-sm text-gray-500">{template.description}</p>}
+
+      <div className="space-y-1">
+        <Label htmlFor="template-project-name">Project name</Label>
+        <Input id="template-project-name" value={name} onChange={(e) => setName(e.target.value)} />
+      </div>
+
+      {template.variables.map(variable => {
+        const id = `template-variable-${variable.name}`
+
+        return (
+          <div key={variable.name} className="space-y-1">
+            <Label htmlFor={id}>
+              {variable.label}
+              {variable.required && <span className="text-red-500"> *</span>}
+            </Label>
+
+            {variable.type === 'color' ? (
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={values[variable.name] || '#000000'}
+                  onChange={(e) => setValue(variable.name, e.target.value)}
+                  className="h-9 w-12 rounded border"
+                />
+                <Input id={id} value={values[variable.name]} onChange={(e) => setValue(variable.name, e.target.value)} placeholder="#1a73e8" />
+              </div>
+            ) : (
+              <Input
+                id={id}
+                type={variable.type === 'media' ? 'url' : 'text'}
+                value={values[variable.name]}
+                maxLength={variable.maxLength}
+                required={variable.required && !variable.defaultValue}
+                placeholder={variable.type === 'media' ? 'https://…' : undefined}
+                onChange={(e) => setValue(variable.name, e.target.value)}
+              />
+            )}
+
+            {variable.description && <p className="text-xs text-gray-500">{variable.description}</p>}
+          </div>
+        )
+      })}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={isSubmitting || !name.trim()}>
+        {isSubmitting ? 'Creating project...' : 'Use template'}
+      </Button>
+    </form>
+  )
+}
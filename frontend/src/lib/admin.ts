@@ -0,0 +1,38 @@
+import type { AdminJob, AdminJobState, AdminQueue, RenderQueueOverview } from '@invideo-studio/shared'
+import { apiRequest } from '@/lib/api'
+
+interface AdminJobList {
+  jobs: AdminJob[]
+  page: number
+  pageSize: number
+  total: number
+}
+
+export async function getRenderOverview(): Promise<RenderQueueOverview> {
+  return apiRequest<RenderQueueOverview>('/api/admin/render/overview')
+}
+
+export async function listRenderJobs(queue: AdminQueue, state: AdminJobState, page = 1): Promise<AdminJobList> {
+  const query = new URLSearchParams({ queue, state, page: String(page) })
+  return apiRequest<AdminJobList>(`/api/admin/render/jobs?${query}`)
+}
+
+/**
+ * Render a failed render again. Resolves with the new render job's id.
+ */
+export async function retryRenderJob(jobId: string): Promise<string> {
+  const { jobId: retryJobId } = await apiRequest<{ jobId: string }>(`/api/admin/render/jobs/${jobId}/retry`, { method: 'POST' })
+  return retryJobId
+}
+
+export async function promoteRenderJob(queue: AdminQueue, jobId: string): Promise<void> {
+  await apiRequest(`/api/admin/render/jobs/${jobId}/promote?queue=${queue}`, { method: 'POST' })
+}
+
+/**
+ * Remove renders waiting for a worker. Resolves with how many were removed.
+ */
+export async function drainRenderQueue(includeDelayed: boolean): Promise<number> {
+  const { drained } = await apiRequest<{ drained: number }>(`/api/admin/render/drain?delayed=${includeDelayed}`, { method: 'POST' })
+  return drained
+}
@@ -0,0 +1,93 @@
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8000'
+
+interface ApiErrorBody {
+  error?: string
+  message?: string
+  details?: { path: string; message: string }[]
+}
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const supabase = createClientComponentClient()
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+function getErrorMessage(body: ApiErrorBody | null, status: number): string {
+  if (body?.details?.length) {
+    return body.details.map(detail => `${detail.path}: ${detail.message}`).join('; ')
+  }
+  return body?.message || body?.error || `Request failed with status ${status}`
+}
+
+/**
+ * Call the backend API with the current session's credentials.
+ * Resolves with the response's `data` payload and throws with the server's message otherwise.
+ * Bodies are JSON unless they are FormData, whose multipart boundary the browser sets.
+ */
+export async function apiRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${BACKEND_URL}${path}`, {
+    ...init,
+    headers: {
+      ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+      ...(await getAuthHeaders()),
+      ...init.headers
+    }
+  })
+
+  const body = await response.json().catch(() => null)
+  if (!response.ok || body?.success === false) {
+    throw new Error(getErrorMessage(body, response.status))
+  }
+
+  return body.data as T
+}
+
+/**
+ * Read a Server-Sent Events stream from the backend, calling `onEvent` with each
+ * event's parsed JSON data. Uses fetch rather than EventSource so the request can
+ * carry the session's Authorization header. Resolves when the server closes the stream.
+ */
+export async function streamEvents<T>(
+  path: string,
+  onEvent: (data: T) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await fetch(`${BACKEND_URL}${path}`, {
+    headers: {
+      Accept: 'text/event-stream',
+      ...(await getAuthHeaders())
+    },
+    signal
+  })
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null)
+    throw new Error(getErrorMessage(body, response.status))
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) return
+
+    buffer += value
+    const events = buffer.split('\n\n')
+    buffer = events.pop() || ''
+
+    for (const event of events) {
+      // Comment lines (heartbeats) carry no data
+      const data = event
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n')
+
+      if (data) onEvent(JSON.parse(data))
+    }
+  }
+}
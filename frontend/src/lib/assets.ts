@@ -0,0 +1,132 @@
+import type { AssetType, MediaAsset, StockMediaType, StockSearchResult } from '@invideo-studio/shared'
+import { apiRequest } from '@/lib/api'
+
+interface AssetList {
+  assets: MediaAsset[]
+  page: number
+  pageSize: number
+  total: number
+}
+
+interface UploadSession {
+  uploadId: string
+  chunkSize: number
+  totalChunks: number
+  received: number[]
+}
+
+// Larger files go up in resumable chunks, so a dropped connection or a reload
+// only costs the chunk that was in flight
+const RESUMABLE_THRESHOLD = 8 * 1024 * 1024
+
+const CHUNK_ATTEMPTS = 3
+
+// Uploads in progress by file, so picking the same file again resumes it
+const UPLOAD_STORAGE_KEY = 'asset-uploads'
+
+function getFileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`
+}
+
+function getStoredUploads(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(UPLOAD_STORAGE_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function storeUpload(file: File, uploadId?: string) {
+  const uploads = getStoredUploads()
+  if (uploadId) {
+    uploads[getFileKey(file)] = uploadId
+  } else {
+    delete uploads[getFileKey(file)]
+  }
+  localStorage.setItem(UPLOAD_STORAGE_KEY, JSON.stringify(uploads))
+}
+
+export async function listAssets(params: { type?: AssetType, search?: string, page?: number } = {}): Promise<AssetList> {
+  const query = new URLSearchParams()
+  if (params.type) query.set('type', params.type)
+  if (params.search) query.set('search', params.search)
+  if (params.page) query.set('page', String(params.page))
+
+  return apiRequest<AssetList>(`/api/assets?${query}`)
+}
+
+export async function searchStock(params: { query?: string, type: StockMediaType, page?: number }): Promise<StockSearchResult> {
+  const query = new URLSearchParams({ type: params.type })
+  if (params.query) query.set('query', params.query)
+  if (params.page) query.set('page', String(params.page))
+
+  return apiRequest<StockSearchResult>(`/api/stock/search?${query}`)
+}
+
+export async function getAsset(assetId: string): Promise<MediaAsset> {
+  return apiRequest<MediaAsset>(`/api/assets/${assetId}`)
+}
+
+async function startOrResumeUpload(file: File): Promise<UploadSession> {
+  const uploadId = getStoredUploads()[getFileKey(file)]
+  if (uploadId) {
+    try {
+      return await apiRequest<UploadSession>(`/api/assets/uploads/${uploadId}`)
+    } catch {
+      // Expired or completed elsewhere; start over
+    }
+  }
+
+  const session = await apiRequest<UploadSession>('/api/assets/uploads', {
+    method: 'POST',
+    body: JSON.stringify({ fileName: file.name, mimeType: file.type, size: file.size })
+  })
+  storeUpload(file, session.uploadId)
+  return session
+}
+
+async function uploadChunk(session: UploadSession, file: File, index: number) {
+  const chunk = file.slice(index * session.chunkSize, (index + 1) * session.chunkSize)
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await apiRequest(`/api/assets/uploads/${session.uploadId}/chunks/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: chunk
+      })
+    } catch (error) {
+      if (attempt >= CHUNK_ATTEMPTS) throw error
+    }
+  }
+}
+
+/**
+ * Upload a file to the user's asset library. Resolves with the new asset while
+ * it is still processing; poll `getAsset` until it is ready.
+ */
+export async function uploadAsset(file: File, onProgress?: (fraction: number) => void): Promise<MediaAsset> {
+  if (file.size <= RESUMABLE_THRESHOLD) {
+    const form = new FormData()
+    form.append('file', file)
+    const asset = await apiRequest<MediaAsset>('/api/assets/upload', { method: 'POST', body: form })
+    onProgress?.(1)
+    return asset
+  }
+
+  const session = await startOrResumeUpload(file)
+  const received = new Set(session.received)
+  onProgress?.(received.size / session.totalChunks)
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (received.has(index)) continue
+
+    await uploadChunk(session, file, index)
+    received.add(index)
+    onProgress?.(received.size / session.totalChunks)
+  }
+
+  const asset = await apiRequest<MediaAsset>(`/api/assets/uploads/${session.uploadId}/complete`, { method: 'POST' })
+  storeUpload(file)
+  return asset
+}
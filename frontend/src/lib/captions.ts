@@ -0,0 +1,81 @@
+import {
+  getCaptionPages,
+  getCaptionWordMotion,
+  interpolateKeyframes,
+  layoutCaptionPage,
+  resolveCaptionStyle,
+  type CaptionStyle,
+  type CaptionWord,
+  type TextStyle
+} from '@invideo-studio/shared'
+import type { Layer } from '@/stores/editor-store'
+
+export interface CaptionFrameWord {
+  text: string
+  left: number
+  centerY: number // Middle of the word's line slot
+  width: number
+  color: string
+  scale: number // About the word's centre
+  offsetY: number
+}
+
+export interface CaptionFrame {
+  style: CaptionStyle
+  words: CaptionFrameWord[]
+}
+
+// Konva's `fontStyle` for a text style's weight and slant
+export function getFontStyle(style: Pick<TextStyle, 'fontStyle' | 'fontWeight'>): string {
+  return [style.fontStyle === 'italic' && 'italic', style.fontWeight === 'bold' && 'bold']
+    .filter(Boolean)
+    .join(' ') || 'normal'
+}
+
+let measureContext: CanvasRenderingContext2D | null = null
+
+function measureText(text: string, font: string): number {
+  measureContext ??= document.createElement('canvas').getContext('2d')
+  if (!measureContext) return 0
+
+  measureContext.font = font
+  return measureContext.measureText(text).width
+}
+
+/**
+ * The words a caption layer shows at `sceneTime` (within its scene), laid out and animated with
+ * the same page, layout and motion rules the export renderer burns in.
+ * Null while no page is on screen.
+ */
+export function getCaptionFrame(layer: Layer, sceneTime: number): CaptionFrame | null {
+  const style = resolveCaptionStyle(layer.data)
+  const time = sceneTime - layer.startTime
+  const words: CaptionWord[] = layer.data.words ?? []
+  const page = getCaptionPages(words, style.wordsPerPage, layer.duration)
+    .find(page => time >= page.start && time < page.end)
+  if (!page) return null
+
+  const font = `${getFontStyle(style)} ${style.fontSize}px ${style.fontFamily}`
+  const widths = page.words.map(word => measureText(word.text, font))
+  const spaceWidth = measureText('x x', font) - measureText('xx', font)
+  const positions = layoutCaptionPage(widths, spaceWidth, style, layer.width, layer.height)
+  const frameWords: CaptionFrameWord[] = []
+
+  page.words.forEach((word, index) => {
+    const motion = getCaptionWordMotion(page, index, style)
+    if (time < motion.visibleFrom || time >= motion.visibleUntil) return
+
+    const highlighted = time >= motion.highlightFrom && time < motion.highlightUntil
+    frameWords.push({
+      text: word.text,
+      left: positions[index].left,
+      centerY: positions[index].centerY,
+      width: widths[index],
+      color: highlighted ? style.highlightColor : style.color,
+      scale: interpolateKeyframes(motion.scale, time - word.start, 1),
+      offsetY: interpolateKeyframes(motion.offsetY, time - word.start, 0)
+    })
+  })
+
+  return { style, words: frameWords }
+}
@@ -0,0 +1,41 @@
+import { interpolateKeyframes } from '@invideo-studio/shared'
+import type {
+  Layer,
+  EasingPreset,
+  AnimatableProperty,
+  VisualProperty
+} from '@/stores/editor-store'
+
+export const VISUAL_PROPERTIES: VisualProperty[] = ['x', 'y', 'width', 'height', 'rotation', 'opacity']
+
+export const AUDIO_PROPERTIES: AnimatableProperty[] = ['volume']
+
+// Value a property has when the layer does not set it
+export function getPropertyDefault(property: AnimatableProperty): number {
+  return property === 'opacity' || property === 'volume' ? 1 : 0
+}
+
+export const EASING_PRESETS: { id: EasingPreset; name: string }[] = [
+  { id: 'linear', name: 'Linear' },
+  { id: 'ease-in', name: 'Ease In' },
+  { id: 'ease-out', name: 'Ease Out' },
+  { id: 'ease-in-out', name: 'Ease In/Out' }
+]
+
+export function isAnimated(layer: Layer, property: AnimatableProperty): boolean {
+  return (layer.keyframes?.[property]?.length || 0) > 0
+}
+
+/**
+ * Resolve all animated visual properties of a layer at a time within its scene
+ */
+export function getAnimatedLayer(layer: Layer, sceneTime: number): Layer {
+  if (!layer.keyframes) return layer
+
+  const localTime = sceneTime - layer.startTime
+  const animated = { ...layer }
+  for (const property of VISUAL_PROPERTIES) {
+    animated[property] = interpolateKeyframes(layer.keyframes[property], localTime, layer[property])
+  }
+  return animated
+}
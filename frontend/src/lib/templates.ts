@@ -0,0 +1,37 @@
+import type { Project, Template, TemplateCategory, TemplateSummary } from '@invideo-studio/shared'
+import { apiRequest } from '@/lib/api'
+
+interface TemplateList {
+  templates: TemplateSummary[]
+  page: number
+  pageSize: number
+  total: number
+}
+
+export async function listTemplates(params: { category?: TemplateCategory, search?: string, page?: number } = {}): Promise<TemplateList> {
+  const query = new URLSearchParams()
+  if (params.category) query.set('category', params.category)
+  if (params.search) query.set('search', params.search)
+  if (params.page) query.set('page', String(params.page))
+
+  return apiRequest<TemplateList>(`/api/templates?${query}`)
+}
+
+export async function getTemplateCategories(): Promise<{ category: TemplateCategory, count: number }[]> {
+  const { categories } = await apiRequest<{ categories: { category: TemplateCategory, count: number }[] }>('/api/templates/categories')
+  return categories
+}
+
+export async function getTemplate(templateId: string): Promise<Template> {
+  return apiRequest<Template>(`/api/templates/${templateId}`)
+}
+
+/**
+ * Make a new saved project from a template, with its variables filled in
+ */
+export async function instantiateTemplate(templateId: string, values: Record<string, string>, name?: string): Promise<Project> {
+  return apiRequest<Project>(`/api/templates/${templateId}/instantiate`, {
+    method: 'POST',
+    body: JSON.stringify({ values, name })
+  })
+}
@@ -0,0 +1,11 @@
+import type { TransitionType } from '@/stores/editor-store'
+
+export { DEFAULT_TRANSITION_DURATION } from '@invideo-studio/shared'
+
+export const TRANSITION_TYPES: { id: TransitionType; name: string }[] = [
+  { id: 'cut', name: 'Cut' },
+  { id: 'fade', name: 'Fade' },
+  { id: 'slide', name: 'Slide' },
+  { id: 'zoom', name: 'Zoom' },
+  { id: 'wipe', name: 'Wipe' }
+]
@@ -1,56 +1,65 @@
 import { create } from 'zustand'
 import { immer } from 'zustand/middleware/immer'
 import { subscribeWithSelector } from 'zustand/middleware'
-
-export interface Layer {
-  id: string
-  type: 'video' | 'image' | 'text' | 'audio' | 'shape'
-  name: string
-  startTime: number
-  duration: number
-  x: number
-  y: number
-  width: number
-  height: number
-  rotation: number
-  opacity: number
-  visible: boolean
-  locked: boolean
-  muted?: boolean // For audio/video layers
-  data: any // Layer-specific data
+import {
+  PROJECT_SCHEMA_VERSION,
+  migrateProject,
+  compileRenderJob,
+  FINAL_RENDER_STAGES,
+  type ExportOptions,
+  type RenderProgress,
+  type AnimatableProperty,
+  type Keyframe,
+  type Layer,
+  type Scene,
+  type Project,
+  type CaptionWord,
+  type StoryboardScene,
+  type ProjectDiff,
+  type ProjectVersionSummary,
+  storyboardSceneSchema,
+  storyboardToScenes
+} from '@invideo-studio/shared'
+import { apiRequest, streamEvents } from '@/lib/api'
+
+// The project document is defined once in the shared schema package so the
+// editor, the projects API and the render service all agree on its shape
+export type {
+  VisualProperty,
+  AnimatableProperty,
+  EasingPreset,
+  BezierPoints,
+  Easing,
+  Keyframe,
+  LayerKeyframes,
+  AudioRole,
+  TransitionType,
+  SceneTransition,
+  Layer,
+  Scene,
+  Project,
+  CaptionPreset,
+  CaptionWord,
+  CaptionStyle,
+  StoryboardScene,
+  ProjectDiff,
+  ProjectVersionSummary
+} from '@invideo-studio/shared'
+
+export interface ExportJob extends Omit<RenderProgress, 'jobId'> {
+  jobId: string | null // Set once the render job is queued
 }
 
-export interface Scene {
-  id: string
-  name: string
-  duration: number
-  layers: Layer[]
-  transitions: {
-    in?: string
-    out?: string
-  }
-}
+// Reconnect policy when the progress stream drops before the job finishes
+const EXPORT_RECONNECT_DELAY = 2000
+const EXPORT_MAX_RECONNECTS = 5
 
-export interface Project {
-  id: string | null
-  name: string
-  width: number
-  height: number
-  frameRate: number
-  duration: number
-  scenes: Scene[]
-  settings: {
-    quality: string
-    format: string
-    backgroundMusic?: string
-  }
-  createdAt: Date
-  updatedAt: Date
-}
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
 interface EditorState {
   // Project state
   project: Project | null
+  versions: ProjectVersionSummary[] // Saved versions of the project, newest first
   
   // Playback state
   isPlaying: boolean
@@ -65,6 +74,7 @@ interface EditorState {
   // UI state
   isLoading: boolean
   error: string | null
+  exportJob: ExportJob | null
   
   // History for undo/redo
   history: Project[]
@@ -74,8 +84,13 @@ interface EditorState {
 interface EditorActions {
   // Project actions
   loadProject: (projectId: string | null) => Promise<void>
-  saveProject: (userId: string) => Promise<void>
+  saveProject: (message?: string) => Promise<void>
   createNewProject: () => void
+
+  // Version history actions
+  loadVersions: () => Promise<void>
+  getVersionDiff: (version: number) => Promise<ProjectDiff>
+  restoreVersion: (version: number) => Promise<void>
   
   // Playback actions
   play: () => void
@@ -93,6 +108,18 @@ interface EditorActions {
   moveLayerUp: (layerId: string) => void
   moveLayerDown: (layerId: string) => void
   
+  // Animation actions
+  setKeyframe: (layerId: string, property: AnimatableProperty, keyframe: Keyframe) => void
+  removeKeyframe: (layerId: string, property: AnimatableProperty, time: number) => void
+  // `sceneTime` is the playhead relative to the start of the layer's scene
+  setLayerPropertiesAtTime: (layerId: string, updates: Partial<Record<AnimatableProperty, number>>, sceneTime: number) => void
+
+  // AI actions
+  generateCaptions: (sourceLayerId: string) => Promise<void>
+  generateVoiceover: (layerId: string) => Promise<void>
+  generateStoryboard: (script: string, sceneCount: number) => Promise<void>
+  importStoryboard: (storyboard: StoryboardScene[]) => void
+  
   // Scene actions
   addScene: (scene: Omit<Scene, 'id'>) => void
   updateScene: (sceneId: string, updates: Partial<Scene>) => void
@@ -100,7 +127,9 @@ interface EditorActions {
   selectScene: (sceneId: string | null) => void
   
   // Export actions
-  exportVideo: (options: { quality: string; format: string }) => Promise<void>
+  exportVideo: (options: ExportOptions) => Promise<void>
+  cancelExport: () => Promise<void>
+  dismissExport: () => void
   
   // History actions
   undo: () => void
@@ -115,6 +144,7 @@ interface EditorActions {
 type EditorStore = EditorState & EditorActions
 
 const createDefaultProject = (): Project => ({
+  schemaVersion: PROJECT_SCHEMA_VERSION,
   id: null,
   name: 'Untitled Project',
   width: 1920,
@@ -130,11 +160,22 @@ const createDefaultProject = (): Project => ({
   updatedAt: new Date()
 })
 
+const findLayer = (project: Project | null, layerId: string): Layer | undefined => {
+  if (!project) return undefined
+
+  for (const scene of project.scenes) {
+    const layer = scene.layers.find(l => l.id === layerId)
+    if (layer) return layer
+  }
+  return undefined
+}
+
 export const useEditorStore = create<EditorStore>()(
   subscribeWithSelector(
     immer((set, get) => ({
       // Initial state
       project: null,
+      versions: [],
       isPlaying: false,
       currentTime: 0,
       duration: 0,
@@ -143,6 +184,7 @@ export const useEditorStore = create<EditorStore>()(
       selectedScene: null,
       isLoading: false,
       error: null,
+      exportJob: null,
       history: [],
       historyIndex: -1,
 
@@ -155,13 +197,11 @@ export const useEditorStore = create<EditorStore>()(
 
         try {
           if (projectId) {
-            // Load existing project from Supabase
-            const response = await fetch(`/api/projects/${projectId}`)
-            if (!response.ok) throw new Error('Failed to load project')
-            
-            const project = await response.json()
+            // Older saved projects are upgraded to the current schema on load
+            const project = migrateProject(await apiRequest<unknown>(`/api/projects/${projectId}`))
             set((state) => {
               state.project = project
+              state.versions = []
               state.duration = project.duration
               state.currentTime = 0
               state.isLoading = false
@@ -171,6 +211,7 @@ export const useEditorStore = create<EditorStore>()(
             const newProject = createDefaultProject()
             set((state) => {
               state.project = newProject
+              state.versions = []
               state.duration = 0
               state.currentTime = 0
               state.isLoading = false
@@ -186,38 +227,28 @@ export const useEditorStore = create<EditorStore>()(
         }
       },
 
-      saveProject: async (userId: string) => {
+      saveProject: async (message) => {
         const { project } = get()
         if (!project) return
 
         set((state) => {
           state.isLoading = true
+          state.error = null
         })
 
         try {
-          const projectData = {
-            ...project,
-            updatedAt: new Date()
-          }
+          // Every save is kept as a new version of the project
+          const body = JSON.stringify({ project: { ...project, updatedAt: new Date() }, message })
+          const saved = project.id
+            ? await apiRequest<unknown>(`/api/projects/${project.id}`, { method: 'PUT', body })
+            : await apiRequest<unknown>('/api/projects', { method: 'POST', body })
 
-          const url = project.id ? `/api/projects/${project.id}` : '/api/projects'
-          const method = project.id ? 'PUT' : 'POST'
-
-          const response = await fetch(url, {
-            method,
-            headers: {
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({ ...projectData, userId })
-          })
-
-          if (!response.ok) throw new Error('Failed to save project')
-
-          const savedProject = await response.json()
+          const savedProject = migrateProject(saved)
           set((state) => {
             state.project = savedProject
             state.isLoading = false
           })
+          await get().loadVersions()
         } catch (error) {
           set((state) => {
             state.error = error instanceof Error ? error.message : 'Failed to save project'
@@ -230,6 +261,7 @@ export const useEditorStore = create<EditorStore>()(
         const newProject = createDefaultProject()
         set((state) => {
           state.project = newProject
+          state.versions = []
           state.duration = 0
           state.currentTime = 0
           state.selectedLayer = null
@@ -238,6 +270,64 @@ export const useEditorStore = create<EditorStore>()(
         get().pushToHistory()
       },
 
+      // Version history actions
+      loadVersions: async () => {
+        const projectId = get().project?.id
+        if (!projectId) return
+
+        try {
+          const { versions } = await apiRequest<{ versions: ProjectVersionSummary[] }>(`/api/projects/${projectId}/versions`)
+          set((state) => {
+            state.versions = versions
+          })
+        } catch (error) {
+          set((state) => {
+            state.error = error instanceof Error ? error.message : 'Failed to load versions'
+          })
+        }
+      },
+
+      // Changes from a version to the latest
+      getVersionDiff: async (version) => {
+        const projectId = get().project?.id
+        if (!projectId) throw new Error('Project has not been saved')
+
+        return apiRequest<ProjectDiff>(`/api/projects/${projectId}/versions/${version}/diff`)
+      },
+
+      restoreVersion: async (version) => {
+        const projectId = get().project?.id
+        if (!projectId) return
+
+        set((state) => {
+          state.isLoading = true
+          state.error = null
+        })
+
+        try {
+          // Restoring saves the old version as the latest, so it can be undone the same way
+          const project = migrateProject(await apiRequest<unknown>(`/api/projects/${projectId}/versions/${version}/restore`, {
+            method: 'POST'
+          }))
+          set((state) => {
+            state.project = project
+            state.duration = project.duration
+            state.currentTime = Math.min(state.currentTime, project.duration)
+            state.selectedLayer = null
+          })
+          get().pushToHistory()
+          await get().loadVersions()
+        } catch (error) {
+          set((state) => {
+            state.error = error instanceof Error ? error.message : 'Failed to restore version'
+          })
+        } finally {
+          set((state) => {
+            state.isLoading = false
+          })
+        }
+      },
+
       // Playback actions
       play: () => {
         set((state) => {
@@ -410,6 +500,210 @@ export const useEditorStore = create<EditorStore>()(
         get().pushToHistory()
       },
 
+      // Animation actions
+      setKeyframe: (layerId: string, property: AnimatableProperty, keyframe: Keyframe) => {
+        set((state) => {
+          const layer = findLayer(state.project, layerId)
+          if (!layer) return
+
+          layer.keyframes = layer.keyframes || {}
+          const keyframes = (layer.keyframes[property] || []).filter(k => k.time !== keyframe.time)
+          keyframes.push(keyframe)
+          layer.keyframes[property] = keyframes.sort((a, b) => a.time - b.time)
+        })
+
+        get().pushToHistory()
+      },
+
+      removeKeyframe: (layerId: string, property: AnimatableProperty, time: number) => {
+        set((state) => {
+          const layer = findLayer(state.project, layerId)
+          if (!layer?.keyframes?.[property]) return
+
+          const keyframes = layer.keyframes[property]!.filter(k => k.time !== time)
+          if (keyframes.length) {
+            layer.keyframes[property] = keyframes
+          } else {
+            delete layer.keyframes[property]
+          }
+        })
+
+        get().pushToHistory()
+      },
+
+      setLayerPropertiesAtTime: (layerId, updates, sceneTime) => {
+        set((state) => {
+          const layer = findLayer(state.project, layerId)
+          if (!layer) return
+
+          const localTime = Math.max(0, sceneTime - layer.startTime)
+          for (const [property, value] of Object.entries(updates) as [AnimatableProperty, number][]) {
+            const keyframes = layer.keyframes?.[property]
+
+            // Animated properties get a keyframe at the playhead, static ones move their base value
+            if (keyframes?.length) {
+              const existing = keyframes.find(k => k.time === localTime)
+              if (existing) {
+                existing.value = value
+              } else {
+                const previous = [...keyframes].reverse().find(k => k.time < localTime)
+                keyframes.push({ time: localTime, value, easing: previous?.easing || 'linear' })
+                keyframes.sort((a, b) => a.time - b.time)
+              }
+            } else {
+              layer[property] = value
+            }
+          }
+        })
+
+        get().pushToHistory()
+      },
+
+      // AI actions
+      generateCaptions: async (sourceLayerId) => {
+        const { project, selectedScene } = get()
+        const scene = project?.scenes.find(s => s.id === selectedScene)
+        const source = scene?.layers.find(layer => layer.id === sourceLayerId)
+        if (!project || !source?.data.source) return
+
+        set((state) => {
+          state.isLoading = true
+          state.error = null
+        })
+
+        try {
+          // Word timings are relative to the media, which starts with the layer
+          const { words } = await apiRequest<{ words: CaptionWord[] }>('/api/ai/subtitles', {
+            method: 'POST',
+            body: JSON.stringify({ audioUrl: source.data.source, format: 'json' })
+          })
+
+          // Lower third of the frame, where short-form captions usually sit
+          get().addLayer({
+            type: 'caption',
+            name: `Captions: ${source.name}`,
+            startTime: source.startTime,
+            duration: source.duration,
+            x: Math.round(project.width * 0.1),
+            y: Math.round(project.height * 0.65),
+            width: Math.round(project.width * 0.8),
+            height: Math.round(project.height * 0.2),
+            rotation: 0,
+            opacity: 1,
+            visible: true,
+            locked: false,
+            data: { words }
+          })
+        } catch (error) {
+          set((state) => {
+            state.error = error instanceof Error ? error.message : 'Failed to generate captions'
+          })
+        } finally {
+          set((state) => {
+            state.isLoading = false
+          })
+        }
+      },
+
+      generateVoiceover: async (layerId) => {
+        const layer = findLayer(get().project, layerId)
+        const script = layer?.data.script
+        if (!layer || !script) return
+
+        set((state) => {
+          state.isLoading = true
+          state.error = null
+        })
+
+        try {
+          // Duration is measured from the audio; word timings are relative to its start
+          const { audioUrl, duration, timing } = await apiRequest<{
+            audioUrl: string
+            duration: number
+            timing?: { words: CaptionWord[] }
+          }>('/api/ai/voice', {
+            method: 'POST',
+            body: JSON.stringify({ text: script })
+          })
+
+          // Marked as voice-over so background music is ducked under it on export
+          const { placeholder, ...data } = layer.data
+          get().updateLayer(layerId, {
+            duration: duration || layer.duration,
+            audioRole: 'voiceover',
+            data: { ...data, source: audioUrl }
+          })
+
+          // Time the scene's narration to the voice-over, turning narration
+          // text into captions
+          const scene = get().project?.scenes.find(s => s.layers.some(l => l.id === layerId))
+          const narration = scene?.layers.find(l =>
+            l.type === 'caption' || (l.type === 'text' && l.data.content === script)
+          )
+          if (narration && timing?.words.length) {
+            const { content, ...style } = narration.data
+            get().updateLayer(narration.id, {
+              type: 'caption',
+              startTime: layer.startTime,
+              data: { ...style, words: timing.words }
+            })
+          }
+        } catch (error) {
+          set((state) => {
+            state.error = error instanceof Error ? error.message : 'Failed to generate voice-over'
+          })
+        } finally {
+          set((state) => {
+            state.isLoading = false
+          })
+        }
+      },
+
+      generateStoryboard: async (script, sceneCount) => {
+        set((state) => {
+          state.isLoading = true
+          state.error = null
+        })
+
+        try {
+          const { storyboard } = await apiRequest<{ storyboard: unknown[] }>('/api/ai/storyboard', {
+            method: 'POST',
+            body: JSON.stringify({ script, scenes: sceneCount })
+          })
+          get().importStoryboard(storyboard.map(scene => storyboardSceneSchema.parse(scene ?? {})))
+        } catch (error) {
+          set((state) => {
+            state.error = error instanceof Error ? error.message : 'Failed to generate storyboard'
+          })
+        } finally {
+          set((state) => {
+            state.isLoading = false
+          })
+        }
+      },
+
+      importStoryboard: (storyboard) => {
+        const { project } = get()
+        if (!project || storyboard.length === 0) return
+
+        // Same conversion as POST /api/ai/storyboard/import, done locally
+        const scenes = storyboardToScenes(storyboard, { width: project.width, height: project.height })
+
+        set((state) => {
+          if (!state.project) return
+
+          state.project.scenes.push(...scenes)
+          state.selectedScene = scenes[0].id
+          state.selectedLayer = null
+
+          // Update total duration
+          state.project.duration = state.project.scenes.reduce((total, s) => total + s.duration, 0)
+          state.duration = state.project.duration
+        })
+
+        get().pushToHistory()
+      },
+
       // Scene actions
       addScene: (sceneData) => {
         const scene: Scene = {
@@ -481,53 +775,73 @@ export const useEditorStore = create<EditorStore>()(
         const { project } = get()
         if (!project) return
 
+        const setExportJob = (updates: Partial<ExportJob>) => {
+          set((state) => {
+            if (state.exportJob) Object.assign(state.exportJob, updates)
+          })
+        }
+
         set((state) => {
-          state.isLoading = true
+          state.exportJob = { jobId: null, stage: 'queued', percent: 0 }
+          state.error = null
         })
 
         try {
-          const response = await fetch('/api/render', {
+          const renderJob = compileRenderJob(project, options)
+          const { jobId } = await apiRequest<{ jobId: string }>('/api/render/queue', {
             method: 'POST',
-            headers: {
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-              project,
-              options
-            })
+            body: JSON.stringify(renderJob)
           })
-
-          if (!response.ok) throw new Error('Failed to start export')
-
-          const { jobId } = await response.json()
-          
-          // Poll for job status
-          const pollStatus = async () => {
-            const statusResponse = await fetch(`/api/render/${jobId}/status`)
-            const status = await statusResponse.json()
-            
-            if (status.status === 'completed') {
-              set((state) => {
-                state.isLoading = false
+          setExportJob({ jobId })
+
+          // Follow the progress stream, reconnecting if it drops before the job finishes
+          let final: RenderProgress | null = null
+          let reconnects = 0
+          while (!final) {
+            try {
+              await streamEvents<RenderProgress>(`/api/render/events/${jobId}`, (progress) => {
+                reconnects = 0
+                setExportJob(progress)
+                if (FINAL_RENDER_STAGES.includes(progress.stage)) final = progress
               })
-              // Handle completion (download link, etc.)
-            } else if (status.status === 'failed') {
-              throw new Error(status.error || 'Export failed')
-            } else {
-              // Continue polling
-              setTimeout(pollStatus, 2000)
+            } catch (error) {
+              if (++reconnects > EXPORT_MAX_RECONNECTS) throw error
             }
+            if (!final) await wait(EXPORT_RECONNECT_DELAY)
           }
-          
-          pollStatus()
+
+          const result: RenderProgress = final
+          if (result.stage === 'failed') throw new Error(result.error || 'Export failed')
         } catch (error) {
+          const message = error instanceof Error ? error.message : 'Export failed'
+          setExportJob({ stage: 'failed', error: message })
           set((state) => {
-            state.error = error instanceof Error ? error.message : 'Export failed'
-            state.isLoading = false
+            state.error = message
+          })
+          throw error
+        }
+      },
+
+      cancelExport: async () => {
+        const { exportJob } = get()
+        if (!exportJob?.jobId) return
+
+        try {
+          // The progress stream reports the cancelled stage once the worker stops
+          await apiRequest(`/api/render/cancel/${exportJob.jobId}`, { method: 'DELETE' })
+        } catch (error) {
+          set((state) => {
+            state.error = error instanceof Error ? error.message : 'Failed to cancel export'
           })
         }
       },
 
+      dismissExport: () => {
+        set((state) => {
+          state.exportJob = null
+        })
+      },
+
       // History actions
       undo: () => {
         const { history, historyIndex } = get()
@@ -0,0 +1,114 @@
+import { compileRenderJob, toRenderTransitions } from '../compile-render-job'
+import { renderLayerSchema } from '../render-job'
+import { Layer, Project, Scene } from '../project'
+
+function layer(overrides: Partial<Layer>): Layer {
+  return {
+    id: 'layer-1',
+    type: 'text',
+    name: 'Layer',
+    startTime: 0,
+    duration: 4,
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 50,
+    rotation: 0,
+    opacity: 1,
+    visible: true,
+    locked: false,
+    data: {},
+    ...overrides
+  }
+}
+
+function scene(overrides: Partial<Scene>): Scene {
+  return { id: 'scene-1', name: 'Scene', duration: 4, layers: [], transitions: {}, ...overrides }
+}
+
+function project(scenes: Scene[], overrides: Partial<Project> = {}): Project {
+  return {
+    schemaVersion: 2,
+    id: 'project-1',
+    name: 'Launch video',
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    duration: 4,
+    scenes,
+    settings: { quality: 'high', format: 'mp4' },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  }
+}
+
+const options = { quality: 'high' as const, format: 'mp4' as const }
+
+describe('toRenderTransitions', () => {
+  it('tags each transition with its edge and drops zero-length ones', () => {
+    expect(toRenderTransitions(scene({
+      transitions: { in: { type: 'fade', duration: 0 }, out: { type: 'wipe', duration: 1 } }
+    }))).toEqual([{ type: 'wipe', duration: 1, position: 'out' }])
+  })
+})
+
+describe('compileRenderJob', () => {
+  it('carries quality only in the job settings', () => {
+    const job = compileRenderJob(project([scene({})]), options)
+
+    expect(job.settings.quality).toBe('high')
+    expect(job).not.toHaveProperty('quality')
+    expect(job.outputFormat).toBe('mp4')
+  })
+
+  it('keeps visible layers in paint order', () => {
+    const job = compileRenderJob(project([scene({
+      layers: [
+        layer({ id: 'title', data: { content: 'Hello' } }),
+        layer({ id: 'hidden', visible: false }),
+        layer({ id: 'collapsed', width: 0 }),
+        layer({ id: 'music', type: 'audio', width: 0, height: 0, data: { source: 'music.mp3' } })
+      ]
+    })]), options)
+
+    const layers = job.scenes[0].layers
+    expect(layers.map(l => l.id)).toEqual(['title', 'music'])
+    expect(layers[0]).toMatchObject({ content: 'Hello', style: { zIndex: 0 } })
+    expect(layers[1]).toMatchObject({ source: 'music.mp3', style: { zIndex: 3 } })
+  })
+
+  it('skips unfilled placeholders but rejects media without a source', () => {
+    const placeholder = layer({ type: 'image', data: { placeholder: true } })
+    expect(compileRenderJob(project([scene({ layers: [placeholder] })]), options).scenes[0].layers).toEqual([])
+
+    const missing = layer({ type: 'video', name: 'B-roll' })
+    expect(() => compileRenderJob(project([scene({ layers: [missing] })]), options))
+      .toThrow('Layer "B-roll" in scene "Scene" has no media source')
+  })
+
+  it('passes shape fills through only when they are colors', () => {
+    const shape = (fill: string) => layer({ type: 'shape', name: 'Box', data: { fill } })
+
+    expect(compileRenderJob(project([scene({ layers: [shape('#ff8800')] })]), options).scenes[0].layers[0].style)
+      .toMatchObject({ fill: '#ff8800' })
+    expect(compileRenderJob(project([scene({ layers: [shape('red')] })]), options).scenes[0].layers[0].style)
+      .toMatchObject({ fill: 'red' })
+    expect(() => compileRenderJob(project([scene({ layers: [shape('red:size=1x1,movie=/etc/passwd')] })]), options))
+      .toThrow('Layer "Box" has an invalid fill color')
+  })
+
+  it('rejects unsaved and empty projects', () => {
+    expect(() => compileRenderJob(project([scene({})], { id: null }), options)).toThrow('Save the project')
+    expect(() => compileRenderJob(project([]), options)).toThrow('Add at least one scene')
+  })
+})
+
+describe('renderLayerSchema', () => {
+  it('rejects fills that are not colors', () => {
+    const base = { id: 'box', type: 'shape', startTime: 0, duration: 1, width: 10, height: 10 }
+
+    expect(renderLayerSchema.safeParse({ ...base, style: { fill: '#abc', zIndex: 1 } }).success).toBe(true)
+    expect(renderLayerSchema.safeParse({ ...base, style: { fill: 'white:size=1x1' } }).success).toBe(false)
+  })
+})
@@ -0,0 +1,42 @@
+import { applyEasing, getBezierPoints, interpolateKeyframes } from '../keyframes'
+import { Keyframe } from '../project'
+
+const linear = (time: number, value: number): Keyframe => ({ time, value, easing: 'linear' })
+
+describe('applyEasing', () => {
+  it('leaves linear progress alone', () => {
+    expect(getBezierPoints('linear')).toBeNull()
+    expect(applyEasing(0.3, 'linear')).toBe(0.3)
+  })
+
+  it('follows the CSS curves of the presets', () => {
+    expect(applyEasing(0, 'ease-in')).toBe(0)
+    expect(applyEasing(1, 'ease-in')).toBeCloseTo(1)
+    expect(applyEasing(0.5, 'ease-in')).toBeCloseTo(0.315, 2)
+    expect(applyEasing(0.5, 'ease-out')).toBeCloseTo(0.685, 2)
+    expect(applyEasing(0.5, 'ease-in-out')).toBeCloseTo(0.5, 3)
+  })
+
+  it('solves custom curves like the matching preset', () => {
+    const custom = { cubicBezier: [0.42, 0, 0.58, 1] as [number, number, number, number] }
+
+    for (const t of [0.1, 0.4, 0.8]) {
+      expect(applyEasing(t, custom)).toBeCloseTo(applyEasing(t, 'ease-in-out'), 10)
+    }
+  })
+})
+
+describe('interpolateKeyframes', () => {
+  it('uses the fallback without keyframes and holds the ends', () => {
+    expect(interpolateKeyframes(undefined, 1, 7)).toBe(7)
+    expect(interpolateKeyframes([linear(1, 10), linear(2, 20)], 0, 0)).toBe(10)
+    expect(interpolateKeyframes([linear(1, 10), linear(2, 20)], 5, 0)).toBe(20)
+  })
+
+  it('eases each segment with its first keyframe\'s curve, in time order', () => {
+    const keyframes = [linear(2, 0), { time: 0, value: 0, easing: 'ease-in' as const }, linear(1, 100)]
+
+    expect(interpolateKeyframes(keyframes, 0.5, 0)).toBeCloseTo(100 * applyEasing(0.5, 'ease-in'))
+    expect(interpolateKeyframes(keyframes, 1.5, 0)).toBeCloseTo(50)
+  })
+})
@@ -0,0 +1,85 @@
+import { getSchemaVersion, migrateProject } from '../migrations'
+import { DEFAULT_TRANSITION_DURATION, PROJECT_SCHEMA_VERSION } from '../project'
+
+function storedProject(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'project-1',
+    name: 'Launch video',
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    duration: 8,
+    settings: { quality: 'high', format: 'mp4' },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+    scenes: [],
+    ...overrides
+  }
+}
+
+describe('getSchemaVersion', () => {
+  it('treats projects without a version as version 1', () => {
+    expect(getSchemaVersion(storedProject())).toBe(1)
+    expect(getSchemaVersion(null)).toBe(1)
+  })
+
+  it('reads the stored version', () => {
+    expect(getSchemaVersion(storedProject({ schemaVersion: 2 }))).toBe(2)
+  })
+})
+
+describe('migrateProject', () => {
+  it('upgrades bare transition names from version 1', () => {
+    const project = migrateProject(storedProject({
+      scenes: [{
+        id: 'scene-1',
+        name: 'Intro',
+        duration: 4,
+        transitions: { in: 'fade', out: 'sparkle' },
+        layers: [{
+          id: 'layer-1',
+          type: 'text',
+          name: 'Title',
+          startTime: 0,
+          duration: 4,
+          x: 0,
+          y: 0,
+          width: 100,
+          height: 50
+        }]
+      }]
+    }))
+
+    expect(project.schemaVersion).toBe(PROJECT_SCHEMA_VERSION)
+    expect(project.scenes[0].transitions).toEqual({
+      in: { type: 'fade', duration: DEFAULT_TRANSITION_DURATION },
+      out: undefined
+    })
+    expect(project.scenes[0].layers[0]).toMatchObject({ rotation: 0, opacity: 1, data: {} })
+    expect(project.createdAt).toBeInstanceOf(Date)
+  })
+
+  it('leaves current projects unchanged', () => {
+    const stored = storedProject({
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      scenes: [{
+        id: 'scene-1',
+        name: 'Intro',
+        duration: 4,
+        transitions: { out: { type: 'wipe', duration: 1 } },
+        layers: []
+      }]
+    })
+
+    expect(migrateProject(stored).scenes[0].transitions).toEqual({ out: { type: 'wipe', duration: 1 } })
+  })
+
+  it('rejects projects from a newer release', () => {
+    expect(() => migrateProject(storedProject({ schemaVersion: PROJECT_SCHEMA_VERSION + 1 })))
+      .toThrow(/newer than the supported version/)
+  })
+
+  it('rejects projects that do not match the schema', () => {
+    expect(() => migrateProject(storedProject({ width: -1 }))).toThrow()
+  })
+})
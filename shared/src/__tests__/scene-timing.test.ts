@@ -0,0 +1,98 @@
+import { getSceneOffsets, getSceneStartTime, getTotalDuration, resolveBoundaryTransitions } from '../scene-timing'
+import { Scene } from '../project'
+
+function scene(id: string, duration: number, transitions: Scene['transitions'] = {}): Scene {
+  return { id, name: id, duration, layers: [], transitions }
+}
+
+describe('resolveBoundaryTransitions', () => {
+  it('prefers the outgoing scene\'s transition over the incoming one', () => {
+    const boundaries = resolveBoundaryTransitions([
+      { duration: 4, transitions: [{ type: 'fade', duration: 1, position: 'out' }] },
+      { duration: 4, transitions: [{ type: 'wipe', duration: 0.5, position: 'in' }] }
+    ])
+
+    expect(boundaries).toEqual([{ type: 'fade', duration: 1 }])
+  })
+
+  it('falls back to the incoming scene\'s transition', () => {
+    const boundaries = resolveBoundaryTransitions([
+      { duration: 4 },
+      { duration: 4, transitions: [{ type: 'slide', duration: 0.5, position: 'in' }] }
+    ])
+
+    expect(boundaries).toEqual([{ type: 'slide', duration: 0.5 }])
+  })
+
+  it('treats a transition without a position as outgoing', () => {
+    const boundaries = resolveBoundaryTransitions([
+      { duration: 4, transitions: [{ type: 'zoom', duration: 1 }] },
+      { duration: 4 }
+    ])
+
+    expect(boundaries).toEqual([{ type: 'zoom', duration: 1 }])
+  })
+
+  it('clamps a transition to half the shorter scene', () => {
+    const boundaries = resolveBoundaryTransitions([
+      { duration: 10, transitions: [{ type: 'fade', duration: 3 }] },
+      { duration: 2 }
+    ])
+
+    expect(boundaries).toEqual([{ type: 'fade', duration: 1 }])
+  })
+
+  it('cuts when there is no transition, a cut, or a zero duration', () => {
+    const boundaries = resolveBoundaryTransitions([
+      { duration: 4 },
+      { duration: 4, transitions: [{ type: 'cut', duration: 1 }] },
+      { duration: 4, transitions: [{ type: 'fade', duration: 0 }] },
+      { duration: 4 }
+    ])
+
+    expect(boundaries).toEqual([
+      { type: 'cut', duration: 0 },
+      { type: 'cut', duration: 0 },
+      { type: 'cut', duration: 0 }
+    ])
+  })
+})
+
+describe('getTotalDuration and getSceneOffsets', () => {
+  const scenes = [
+    { duration: 4, transitions: [{ type: 'fade' as const, duration: 1 }] },
+    { duration: 3 },
+    { duration: 5, transitions: [{ type: 'wipe' as const, duration: 0.5, position: 'in' as const }] }
+  ]
+
+  it('subtracts transition overlap from the total', () => {
+    expect(getTotalDuration(scenes)).toBe(10.5)
+  })
+
+  it('starts each scene where the previous transition begins', () => {
+    expect(getSceneOffsets(scenes)).toEqual([0, 3, 5.5])
+  })
+
+  it('handles an empty timeline', () => {
+    expect(getTotalDuration([])).toBe(0)
+    expect(getSceneOffsets([])).toEqual([])
+  })
+})
+
+describe('getSceneStartTime', () => {
+  const scenes = [
+    scene('intro', 4, { out: { type: 'fade', duration: 1 } }),
+    scene('middle', 3),
+    scene('outro', 5, { in: { type: 'slide', duration: 0.5 } })
+  ]
+
+  it('returns where a scene starts on the final timeline', () => {
+    expect(getSceneStartTime(scenes, 'intro')).toBe(0)
+    expect(getSceneStartTime(scenes, 'middle')).toBe(3)
+    expect(getSceneStartTime(scenes, 'outro')).toBe(5.5)
+  })
+
+  it('returns 0 for an unknown scene', () => {
+    expect(getSceneStartTime(scenes, 'missing')).toBe(0)
+  })
+})
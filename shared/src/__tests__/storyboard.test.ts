@@ -0,0 +1,39 @@
+import { storyboardSceneSchema, storyboardToScenes } from '../storyboard'
+
+const frame = { width: 1080, height: 1920 }
+
+const entry = storyboardSceneSchema.parse({
+  title: 'The Hook',
+  duration: 5,
+  visualDescription: 'Phone scrolling through a feed',
+  dialogue: 'Did you know?'
+})
+
+describe('storyboardToScenes', () => {
+  it('fills the frame with the scene\'s visual when one was found', () => {
+    const [scene] = storyboardToScenes([entry], frame, [{
+      visual: {
+        description: 'Hand holding a phone',
+        searchTerms: ['phone'],
+        source: 'https://images.example.com/phone.jpg',
+        attribution: 'Photo by Jane Doe on Pexels'
+      }
+    }])
+
+    expect(scene.layers[0]).toMatchObject({
+      type: 'image',
+      width: 1080,
+      height: 1920,
+      data: { source: 'https://images.example.com/phone.jpg', attribution: 'Photo by Jane Doe on Pexels' }
+    })
+  })
+
+  it('leaves a placeholder without a visual', () => {
+    const [scene] = storyboardToScenes([entry], frame, [{ visual: { description: 'Phone', searchTerms: ['phone'] } }])
+
+    expect(scene.layers[0]).toMatchObject({
+      type: 'shape',
+      data: { placeholder: true, searchTerms: ['phone'] }
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import { RenderQuality } from './render-job'
+
+/**
+ * Shapes served by the admin API (`/api/admin`), which only users with the
+ * `admin` role can call
+ */
+
+export const ADMIN_QUEUES = ['render', 'scene'] as const
+
+export type AdminQueue = typeof ADMIN_QUEUES[number]
+
+export const ADMIN_JOB_STATES = ['waiting', 'prioritized', 'waiting-children', 'delayed', 'active', 'completed', 'failed'] as const
+
+export type AdminJobState = typeof ADMIN_JOB_STATES[number]
+
+export type QueueCounts = Record<AdminJobState | 'paused', number>
+
+export interface WorkerStats {
+  name: string // Host and process id
+  online: boolean // Connected to Redis now; stats of stopped workers are kept for a day
+  queues: AdminQueue[]
+  startedAt: number
+  lastActiveAt: number | null
+  completed: number
+  failed: number
+  busySeconds: number // Time spent on jobs that finished, either way
+  jobsPerHour: number // Jobs finished per hour since the worker started
+}
+
+/**
+ * How long renders of a quality take, from their first scene starting to
+ * their upload finishing
+ */
+export interface RenderTimeStats {
+  quality: RenderQuality
+  renders: number
+  averageSeconds: number
+  secondsPerVideoMinute: number // Render time for each minute of output
+}
+
+export interface AdminJob {
+  id: string
+  queue: AdminQueue
+  name: string
+  state: AdminJobState | 'unknown'
+  userId?: string
+  projectId?: string
+  renderJobId?: string // Scene jobs: the render they belong to
+  quality?: RenderQuality
+  attemptsMade: number
+  createdAt: number
+  processedAt?: number
+  finishedAt?: number
+  failedReason?: string
+  stacktrace: string[] // One entry per failed attempt, most recent last
+}
+
+export interface RenderQueueOverview {
+  queues: Record<AdminQueue, QueueCounts>
+  workers: WorkerStats[]
+  renderTimes: RenderTimeStats[]
+}
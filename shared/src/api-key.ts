@@ -0,0 +1,53 @@
+import { z } from 'zod'
+
+/**
+ * API keys give scripts and integrations access to one workspace without a
+ * browser session. Each key carries only the permissions it was created with;
+ * signed-in users have them all.
+ */
+
+export const API_KEY_PERMISSIONS = [
+  'projects:read',
+  'projects:write',
+  'assets:read',
+  'assets:write',
+  'templates:read',
+  'templates:write',
+  'render:read',
+  'render:write', // Also covers batches
+  'ai:use',
+  'usage:read'
+] as const
+
+export const apiKeyPermissionSchema = z.enum(API_KEY_PERMISSIONS)
+
+/**
+ * Body accepted by `POST /api/auth/api-keys`
+ */
+export const apiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  permissions: z.array(apiKeyPermissionSchema).min(1).transform(permissions => Array.from(new Set(permissions))),
+  expiresAt: z.coerce.date().refine(date => date.getTime() > Date.now(), 'Expiry must be in the future').optional()
+})
+
+export type ApiKeyPermission = z.infer<typeof apiKeyPermissionSchema>
+export type ApiKeyCreate = z.infer<typeof apiKeyCreateSchema>
+
+/**
+ * An API key as listed; the secret itself is only ever returned when it is created or rotated
+ */
+export interface ApiKey {
+  id: string
+  workspaceId: string
+  name: string
+  prefix: string // Start of the key, to tell keys apart
+  permissions: ApiKeyPermission[]
+  lastUsedAt: string | null
+  expiresAt: string | null
+  rotatedAt: string | null
+  createdAt: string
+}
+
+export interface ApiKeyWithSecret extends ApiKey {
+  key: string
+}
@@ -0,0 +1,63 @@
+import { z } from 'zod'
+
+export const assetTypeSchema = z.enum(['image', 'video', 'audio'])
+
+// Uploaded assets are usable once ingestion has probed them and made their previews
+export const assetStatusSchema = z.enum(['processing', 'ready', 'failed'])
+
+/**
+ * What probing an uploaded file found. Fields that don't apply to the
+ * asset's type are left out.
+ */
+export interface MediaMetadata {
+  format: string // Container or image format, e.g. 'mov,mp4,m4a' or 'png'
+  size: number // Bytes
+  duration?: number // Seconds
+  width?: number
+  height?: number
+  frameRate?: number
+  videoCodec?: string
+  audioCodec?: string
+  audioChannels?: number
+  sampleRate?: number
+  bitRate?: number
+}
+
+/**
+ * A user's uploaded asset as the assets API returns it
+ */
+export interface MediaAsset {
+  id: string
+  type: AssetType
+  status: AssetStatus
+  name: string
+  url: string | null // Original file; null until ingestion has stored it
+  thumbnailUrl: string | null // Small preview; a waveform for audio
+  posterUrl: string | null // Full-size still for video
+  proxyUrl: string | null // Low-resolution copy of a video for smooth editing
+  metadata: MediaMetadata | null
+  error: string | null // Why ingestion failed
+  createdAt: string
+}
+
+/**
+ * Body accepted by `POST /api/assets/uploads` to start a resumable upload
+ */
+export const resumableUploadSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  mimeType: z.string().min(1),
+  size: z.number().int().positive()
+})
+
+export type AssetType = z.infer<typeof assetTypeSchema>
+export type AssetStatus = z.infer<typeof assetStatusSchema>
+export type ResumableUpload = z.infer<typeof resumableUploadSchema>
+
+/**
+ * Asset type of a MIME type, or null for files that can't be used in a project
+ */
+export function getAssetType(mimeType: string): AssetType | null {
+  const [kind] = mimeType.split('/')
+  const type = assetTypeSchema.safeParse(kind)
+  return type.success ? type.data : null
+}
@@ -0,0 +1,181 @@
+import { z } from 'zod'
+import { outputFormatSchema, renderQualitySchema } from './render-job'
+
+/**
+ * A batch renders one variant of a template (or of a project with
+ * `{{placeholders}}`) per row of data. Each row's columns fill the variables of
+ * the same name; columns that are not variables are ignored, except the one
+ * read as the row's voice-over script.
+ */
+
+export const MAX_BATCH_ROWS = 200
+
+// Roughly a thousand rows of ad copy; rows are capped separately
+const MAX_CSV_LENGTH = 1024 * 1024
+
+// JSON rows may hold numbers and booleans where a spreadsheet would hold text
+const batchValueSchema = z.union([z.string(), z.number(), z.boolean()]).transform(String)
+
+export const batchRowSchema = z.record(batchValueSchema)
+
+export const batchVoiceOverSchema = z.object({
+  column: z.string().min(1), // Column holding each row's script
+  variable: z.string().min(1), // Media variable the narration fills, e.g. the source of an audio layer
+  voice: z.enum(['male', 'female', 'child', 'elderly']).default('female')
+})
+
+/**
+ * Body accepted by `POST /api/batches`: a template or project, and rows as a
+ * JSON array or as CSV with a header row. Either way the parsed body holds `rows`.
+ */
+export const batchRequestSchema = z.object({
+  templateId: z.string().min(1).optional(),
+  projectId: z.string().min(1).optional(),
+  name: z.string().trim().min(1).max(200).optional(), // Variants are named after it and their row number
+  rows: z.array(batchRowSchema).optional(),
+  csv: z.string().max(MAX_CSV_LENGTH).optional(),
+  voiceOver: batchVoiceOverSchema.optional(),
+  quality: renderQualitySchema.default('standard'),
+  format: outputFormatSchema.default('mp4')
+}).transform(({ csv, ...request }, context) => {
+  if (!request.templateId === !request.projectId) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ['templateId'], message: 'Give either a templateId or a projectId' })
+    return z.NEVER
+  }
+  if (!request.rows === (csv === undefined)) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ['rows'], message: 'Give rows either as JSON or as CSV' })
+    return z.NEVER
+  }
+
+  let rows = request.rows
+  if (csv !== undefined) {
+    try {
+      rows = parseBatchCsv(csv)
+    } catch (error) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['csv'], message: (error as Error).message })
+      return z.NEVER
+    }
+  }
+
+  if (!rows || rows.length === 0) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ['rows'], message: 'A batch needs at least one row' })
+    return z.NEVER
+  }
+  if (rows.length > MAX_BATCH_ROWS) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ['rows'], message: `A batch can have at most ${MAX_BATCH_ROWS} rows` })
+    return z.NEVER
+  }
+
+  return { ...request, rows }
+})
+
+export type BatchRow = z.infer<typeof batchRowSchema>
+export type BatchVoiceOver = z.infer<typeof batchVoiceOverSchema>
+export type BatchRequest = z.infer<typeof batchRequestSchema>
+
+export type BatchRowStatus = 'pending' | 'queued' | 'rendering' | 'completed' | 'failed' | 'cancelled'
+
+// preparing: rows are still being filled in and queued
+// partial: every row has finished and some of them failed
+export type BatchStatus = 'preparing' | 'rendering' | 'completed' | 'partial' | 'failed' | 'cancelled'
+
+export interface BatchRowProgress {
+  index: number // 0-based row of the input
+  name: string
+  status: BatchRowStatus
+  percent: number
+  projectId?: string
+  renderJobId?: string
+  outputUrl?: string // Set when the row's render has completed
+  error?: string // Why the row failed
+}
+
+/**
+ * Aggregate progress of a batch, served by `GET /api/batches/:id`
+ */
+export interface BatchProgress {
+  id: string
+  name: string
+  status: BatchStatus
+  percent: number // 0-100 across every row
+  total: number
+  counts: Record<BatchRowStatus, number>
+  rows: BatchRowProgress[]
+  createdAt: number
+}
+
+export const FINAL_BATCH_ROW_STATUSES: BatchRowStatus[] = ['completed', 'failed', 'cancelled']
+
+/**
+ * Parse CSV with a header row into one record per row, keyed by header.
+ * Follows RFC 4180: fields may be quoted, and quoted fields may hold commas,
+ * line breaks and doubled quotes. Blank lines are skipped.
+ */
+export function parseBatchCsv(text: string): BatchRow[] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.replace(/^\uFEFF/, '')
+
+  const endField = () => {
+    record.push(field)
+    field = ''
+  }
+  const endRecord = () => {
+    endField()
+    if (record.length > 1 || record[0] !== '') records.push(record)
+    record = []
+  }
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index]
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      endField()
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++
+      endRecord()
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new Error('CSV has an unclosed quoted field')
+  }
+  if (field !== '' || record.length > 0) endRecord()
+
+  const [header, ...rows] = records
+  if (!header) {
+    throw new Error('CSV needs a header row')
+  }
+
+  const columns = header.map(column => column.trim())
+  if (columns.some(column => !column)) {
+    throw new Error('CSV header has an empty column name')
+  }
+  if (new Set(columns).size !== columns.length) {
+    throw new Error('CSV header repeats a column name')
+  }
+
+  return rows.map((row, index) => {
+    if (row.length !== columns.length) {
+      throw new Error(`CSV row ${index + 1} has ${row.length} fields, but the header has ${columns.length}`)
+    }
+    return Object.fromEntries(columns.map((column, columnIndex) => [column, row[columnIndex]]))
+  })
+}
@@ -0,0 +1,196 @@
+import { z } from 'zod'
+import { Keyframe } from './project'
+import { textStyleSchema } from './text-style'
+
+// Word-by-word caption animations
+export const CAPTION_PRESETS = ['highlight', 'pop', 'bounce'] as const
+
+export const captionPresetSchema = z.enum(CAPTION_PRESETS)
+
+export const captionWordSchema = z.object({
+  text: z.string(),
+  start: z.number().min(0), // Seconds from the layer's start time
+  end: z.number().min(0)
+})
+
+/**
+ * Styling of a caption layer. Shares the text layer's fields with defaults suited
+ * to short-form captions, plus how the spoken word is picked out.
+ */
+export const captionStyleSchema = textStyleSchema.extend({
+  fontSize: z.number().positive().catch(48),
+  fontWeight: z.enum(['normal', 'bold']).catch('bold'),
+  color: z.string().min(1).catch('#ffffff'),
+  textAlign: z.enum(['left', 'center', 'right']).catch('center'),
+  verticalAlign: z.enum(['top', 'middle', 'bottom']).catch('middle'),
+  lineHeight: z.number().positive().catch(1.2),
+  strokeWidth: z.number().min(0).catch(6),
+  preset: captionPresetSchema.catch('highlight'),
+  highlightColor: z.string().min(1).catch('#facc15'), // Colour of the word being spoken
+  wordsPerPage: z.number().int().positive().catch(4) // Words shown together on screen
+})
+
+export type CaptionPreset = z.infer<typeof captionPresetSchema>
+export type CaptionWord = z.infer<typeof captionWordSchema>
+export type CaptionStyle = z.infer<typeof captionStyleSchema>
+
+export function resolveCaptionStyle(data: Record<string, unknown> | undefined): CaptionStyle {
+  return captionStyleSchema.parse(data ?? {})
+}
+
+export interface CaptionPage {
+  words: CaptionWord[]
+  start: number
+  end: number
+}
+
+// How long the last page stays up after its final word
+const CAPTION_HOLD = 0.5
+
+/**
+ * Group words into the pages shown one after another. A page stays up until
+ * the next one starts, so captions never blink off between words.
+ */
+export function getCaptionPages(words: CaptionWord[], wordsPerPage: number, duration: number): CaptionPage[] {
+  const sorted = words
+    .map(word => ({ ...word, text: word.text.trim() }))
+    .filter(word => word.text && word.start < duration)
+    .sort((a, b) => a.start - b.start)
+  const pages: CaptionPage[] = []
+
+  for (let index = 0; index < sorted.length; index += wordsPerPage) {
+    const pageWords = sorted.slice(index, index + wordsPerPage)
+    pages.push({ words: pageWords, start: pageWords[0].start, end: 0 })
+  }
+
+  pages.forEach((page, index) => {
+    const next = pages[index + 1]
+    const last = page.words[page.words.length - 1]
+    page.end = next ? next.start : Math.min(duration, Math.max(last.end, last.start) + CAPTION_HOLD)
+  })
+
+  return pages.filter(page => page.end > page.start)
+}
+
+export interface CaptionWordPosition {
+  left: number
+  centerY: number // Middle of the word's line slot
+}
+
+/**
+ * Lay a page's words out in the layer box the way text layers are laid out:
+ * lines wrapped at the padded width, each centred in a slot of
+ * `lineHeight * fontSize` and aligned within the padding. Widths are measured
+ * by the caller, since the editor and the renderer measure text differently.
+ */
+export function layoutCaptionPage(
+  wordWidths: number[],
+  spaceWidth: number,
+  style: CaptionStyle,
+  width: number,
+  height: number
+): CaptionWordPosition[] {
+  const innerWidth = width - style.padding * 2
+  const lines: number[][] = []
+  let lineWidth = 0
+
+  wordWidths.forEach((wordWidth, index) => {
+    const line = lines[lines.length - 1]
+    if (line && lineWidth + spaceWidth + wordWidth <= innerWidth) {
+      line.push(index)
+      lineWidth += spaceWidth + wordWidth
+    } else {
+      lines.push([index])
+      lineWidth = wordWidth
+    }
+  })
+
+  const lineHeight = style.lineHeight * style.fontSize
+  const freeHeight = height - style.padding * 2 - lines.length * lineHeight
+  const alignY = style.verticalAlign === 'middle' ? freeHeight / 2 : style.verticalAlign === 'bottom' ? freeHeight : 0
+  const positions: CaptionWordPosition[] = []
+
+  lines.forEach((line, lineIndex) => {
+    const total = line.reduce((sum, index) => sum + wordWidths[index], 0) + spaceWidth * (line.length - 1)
+    const alignX = style.textAlign === 'center'
+      ? (innerWidth - total) / 2
+      : style.textAlign === 'right' ? innerWidth - total : 0
+    let left = style.padding + alignX
+
+    for (const index of line) {
+      positions[index] = {
+        left,
+        centerY: style.padding + alignY + lineHeight * (lineIndex + 0.5)
+      }
+      left += wordWidths[index] + spaceWidth
+    }
+  })
+
+  return positions
+}
+
+export interface CaptionWordMotion {
+  // Seconds from the layer's start time
+  visibleFrom: number
+  visibleUntil: number
+  highlightFrom: number
+  highlightUntil: number
+  // Keyframes in seconds from the word's start, sharing times and easings:
+  // scale about the word's centre and vertical offset in pixels
+  scale: Keyframe[]
+  offsetY: Keyframe[]
+}
+
+const POP_DURATION = 0.15
+const BOUNCE_DURATION = 0.25
+
+/**
+ * When a word on a page is shown and highlighted and how it moves. Every
+ * preset colours the word being spoken; `pop` also brings each word in as it
+ * is spoken and `bounce` lifts it.
+ */
+export function getCaptionWordMotion(page: CaptionPage, wordIndex: number, style: CaptionStyle): CaptionWordMotion {
+  const word = page.words[wordIndex]
+  const next = page.words[wordIndex + 1]
+  const highlightUntil = next ? next.start : Math.min(page.end, Math.max(word.end, word.start + POP_DURATION))
+
+  const motion: CaptionWordMotion = {
+    visibleFrom: page.start,
+    visibleUntil: page.end,
+    highlightFrom: word.start,
+    highlightUntil: Math.max(highlightUntil, word.start),
+    scale: [],
+    offsetY: []
+  }
+
+  switch (style.preset) {
+    case 'pop':
+      motion.visibleFrom = word.start
+      motion.scale = [
+        { time: 0, value: 0.5, easing: 'ease-out' },
+        { time: POP_DURATION, value: 1, easing: 'linear' }
+      ]
+      motion.offsetY = [
+        { time: 0, value: 0, easing: 'ease-out' },
+        { time: POP_DURATION, value: 0, easing: 'linear' }
+      ]
+      break
+
+    case 'bounce': {
+      const lift = -style.fontSize * 0.15
+      motion.scale = [
+        { time: 0, value: 1, easing: 'ease-out' },
+        { time: BOUNCE_DURATION / 2, value: 1, easing: 'ease-in' },
+        { time: BOUNCE_DURATION, value: 1, easing: 'linear' }
+      ]
+      motion.offsetY = [
+        { time: 0, value: 0, easing: 'ease-out' },
+        { time: BOUNCE_DURATION / 2, value: lift, easing: 'ease-in' },
+        { time: BOUNCE_DURATION, value: 0, easing: 'linear' }
+      ]
+      break
+    }
+  }
+
+  return motion
+}
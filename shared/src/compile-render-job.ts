@@ -0,0 +1,142 @@
+import { Layer, Project, Scene } from './project'
+import {
+  OutputFormat,
+  RenderJobRequest,
+  RenderLayer,
+  RenderQuality,
+  RenderScene,
+  RenderTransition,
+  renderColorSchema
+} from './render-job'
+import { resolveTextStyle } from './text-style'
+import { resolveCaptionStyle } from './captions'
+
+export interface ExportOptions {
+  quality: RenderQuality
+  format: OutputFormat
+}
+
+const MEDIA_LAYER_TYPES: Layer['type'][] = ['image', 'video', 'audio']
+
+// Map a scene's in/out transitions onto the render API's transition list
+export function toRenderTransitions(scene: Scene): RenderTransition[] {
+  const transitions: RenderTransition[] = []
+
+  if (scene.transitions.in) {
+    transitions.push({ ...scene.transitions.in, position: 'in' })
+  }
+  if (scene.transitions.out) {
+    transitions.push({ ...scene.transitions.out, position: 'out' })
+  }
+
+  return transitions.filter(transition => transition.duration > 0)
+}
+
+function getLayerStyle(layer: Layer, zIndex: number): Record<string, any> {
+  const data = layer.data
+
+  switch (layer.type) {
+    case 'text':
+      return { zIndex, ...resolveTextStyle(data) }
+
+    case 'caption':
+      return { zIndex, ...resolveCaptionStyle(data) }
+
+    case 'shape': {
+      const fill = data.backgroundColor || data.fill
+      if (fill && !renderColorSchema.safeParse(fill).success) {
+        throw new Error(`Layer "${layer.name}" has an invalid fill color`)
+      }
+      return {
+        zIndex,
+        fill: fill || undefined,
+        stroke: data.borderColor,
+        strokeWidth: data.borderWidth,
+        cornerRadius: data.borderRadius
+      }
+    }
+
+    default:
+      return { zIndex }
+  }
+}
+
+function compileLayer(layer: Layer, zIndex: number): RenderLayer {
+  return {
+    id: layer.id,
+    type: layer.type,
+    startTime: layer.startTime,
+    duration: layer.duration,
+    x: layer.x,
+    y: layer.y,
+    width: layer.width,
+    height: layer.height,
+    rotation: layer.rotation,
+    opacity: layer.opacity,
+    keyframes: layer.keyframes,
+    muted: layer.muted ?? false,
+    volume: layer.volume ?? 1,
+    fadeIn: layer.fadeIn ?? 0,
+    fadeOut: layer.fadeOut ?? 0,
+    audioRole: layer.audioRole,
+    content: layer.type === 'text' ? String(layer.data.content ?? '') : undefined,
+    words: layer.type === 'caption' ? layer.data.words ?? [] : undefined,
+    source: MEDIA_LAYER_TYPES.includes(layer.type) ? layer.data.source : undefined,
+    style: getLayerStyle(layer, zIndex)
+  }
+}
+
+function compileScene(scene: Scene): RenderScene {
+  const layers: RenderLayer[] = []
+
+  // Layer order is paint order in the editor: later layers draw on top
+  scene.layers.forEach((layer, index) => {
+    if (!layer.visible) return
+
+    if (MEDIA_LAYER_TYPES.includes(layer.type) && !layer.data.source) {
+      // Slots left by a storyboard import export as nothing until they are filled
+      if (layer.data.placeholder) return
+      throw new Error(`Layer "${layer.name}" in scene "${scene.name}" has no media source`)
+    }
+
+    // Nothing to draw for collapsed visual layers
+    if (layer.type !== 'audio' && (layer.width <= 0 || layer.height <= 0)) return
+
+    layers.push(compileLayer(layer, index))
+  })
+
+  return {
+    id: scene.id,
+    duration: scene.duration,
+    layers,
+    transitions: toRenderTransitions(scene)
+  }
+}
+
+/**
+ * Compile an editor project into the body accepted by `POST /api/render/queue`.
+ * Throws if the project cannot be rendered as it stands.
+ */
+export function compileRenderJob(project: Project, options: ExportOptions): RenderJobRequest {
+  if (!project.id) {
+    throw new Error('Save the project before exporting it')
+  }
+  if (project.scenes.length === 0) {
+    throw new Error('Add at least one scene before exporting')
+  }
+
+  return {
+    projectId: project.id,
+    scenes: project.scenes.map(compileScene),
+    settings: {
+      width: project.width,
+      height: project.height,
+      frameRate: project.frameRate,
+      audioSampleRate: 44100,
+      backgroundMusic: project.settings.backgroundMusic,
+      backgroundMusicVolume: 0.3,
+      quality: options.quality
+    },
+    outputFormat: options.format
+  }
+}
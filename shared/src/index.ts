@@ -0,0 +1,17 @@
+export * from './project'
+export * from './render-job'
+export * from './render-progress'
+export * from './text-style'
+export * from './keyframes'
+export * from './captions'
+export * from './storyboard'
+export * from './compile-render-job'
+export * from './scene-timing'
+export * from './migrations'
+export * from './project-versions'
+export * from './asset'
+export * from './stock'
+export * from './template'
+export * from './batch'
+export * from './api-key'
+export * from './admin'
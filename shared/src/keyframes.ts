@@ -0,0 +1,82 @@
+import { BezierPoints, Easing, EasingPreset, Keyframe } from './project'
+
+/**
+ * Keyframe easing and interpolation. The editor previews with these directly
+ * and the render backend compiles the same steps into FFmpeg expressions, so
+ * exported motion matches the preview frame-for-frame.
+ */
+
+// CSS-equivalent control points for the named easings
+export const EASING_CURVES: Record<Exclude<EasingPreset, 'linear'>, BezierPoints> = {
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1]
+}
+
+// Bezier curves are solved for their parameter with this many Newton steps,
+// never dividing by a slope below the minimum
+export const EASING_NEWTON_ITERATIONS = 8
+export const EASING_MIN_SLOPE = 0.000001
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+/**
+ * One coordinate of a cubic bezier from (0,0) to (1,1) at parameter `s`,
+ * with `a` and `b` that coordinate of its two control points
+ */
+function bezier(s: number, a: number, b: number): number {
+  return 3 * (1 - s) * (1 - s) * s * a + 3 * (1 - s) * s * s * b + s * s * s
+}
+
+function bezierSlope(s: number, a: number, b: number): number {
+  return 3 * (1 - s) * (1 - s) * a + 6 * (1 - s) * s * (b - a) + 3 * s * s * (1 - b)
+}
+
+/**
+ * Control points of an easing; null for linear
+ */
+export function getBezierPoints(easing: Easing): BezierPoints | null {
+  if (typeof easing === 'string') {
+    return easing === 'linear' ? null : EASING_CURVES[easing]
+  }
+  return easing.cubicBezier
+}
+
+/**
+ * Map linear progress (0-1) through an easing curve
+ */
+export function applyEasing(progress: number, easing: Easing): number {
+  const points = getBezierPoints(easing)
+  if (!points) return progress
+
+  const [x1, y1, x2, y2] = points
+  let s = progress
+  for (let i = 0; i < EASING_NEWTON_ITERATIONS; i++) {
+    s = clamp(s - (bezier(s, x1, x2) - progress) / Math.max(bezierSlope(s, x1, x2), EASING_MIN_SLOPE), 0, 1)
+  }
+  return bezier(s, y1, y2)
+}
+
+/**
+ * Value of a keyframed property at `time` seconds from the layer start.
+ * Each keyframe's easing shapes the segment leading to the next keyframe.
+ */
+export function interpolateKeyframes(keyframes: Keyframe[] | undefined, time: number, fallback: number): number {
+  if (!keyframes || keyframes.length === 0) return fallback
+
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time)
+  if (time <= sorted[0].time) return sorted[0].value
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const from = sorted[i]
+    const to = sorted[i + 1]
+    if (time < to.time) {
+      const progress = clamp((time - from.time) / (to.time - from.time), 0, 1)
+      return from.value + (to.value - from.value) * applyEasing(progress, from.easing)
+    }
+  }
+
+  return sorted[sorted.length - 1].value
+}
@@ -0,0 +1,70 @@
+import {
+  DEFAULT_TRANSITION_DURATION,
+  PROJECT_SCHEMA_VERSION,
+  Project,
+  projectSchema,
+  transitionTypeSchema
+} from './project'
+
+type ProjectMigration = (project: any) => any
+
+// Version 1 projects (saved before versioning) stored transitions as bare type names
+function migrateTransition(transition: unknown) {
+  if (typeof transition !== 'string') return transition
+
+  const type = transitionTypeSchema.safeParse(transition)
+  return type.success ? { type: type.data, duration: DEFAULT_TRANSITION_DURATION } : undefined
+}
+
+const migrateV1ToV2: ProjectMigration = (project) => ({
+  ...project,
+  scenes: (project.scenes || []).map((scene: any) => ({
+    ...scene,
+    transitions: {
+      in: migrateTransition(scene.transitions?.in),
+      out: migrateTransition(scene.transitions?.out)
+    },
+    layers: (scene.layers || []).map((layer: any) => ({
+      ...layer,
+      rotation: layer.rotation ?? 0,
+      opacity: layer.opacity ?? 1,
+      data: layer.data ?? {}
+    }))
+  }))
+})
+
+// Keyed by the version each step upgrades from
+const MIGRATIONS: Record<number, ProjectMigration> = {
+  1: migrateV1ToV2
+}
+
+/**
+ * Version a stored project was saved with. Projects from before versioning are version 1.
+ */
+export function getSchemaVersion(project: unknown): number {
+  const version = (project as { schemaVersion?: unknown } | null)?.schemaVersion
+  return typeof version === 'number' ? version : 1
+}
+
+/**
+ * Upgrade a stored project of any known version to the current schema and validate it.
+ * Throws if the project is from a newer release or does not match the schema.
+ */
+export function migrateProject(project: unknown): Project {
+  let version = getSchemaVersion(project)
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project schema version ${version} is newer than the supported version ${PROJECT_SCHEMA_VERSION}`)
+  }
+
+  let migrated: any = project
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) {
+      throw new Error(`No migration from project schema version ${version}`)
+    }
+    migrated = migrate(migrated)
+    version++
+  }
+
+  return projectSchema.parse({ ...migrated, schemaVersion: PROJECT_SCHEMA_VERSION })
+}
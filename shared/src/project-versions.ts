@@ -0,0 +1,133 @@
+import { z } from 'zod'
+import { Layer, Project, Scene, projectSchema } from './project'
+
+/**
+ * Body accepted by `POST /api/projects` and `PUT /api/projects/:id`. Every save
+ * stores an immutable snapshot as the project's next version.
+ */
+export const projectSaveSchema = z.object({
+  project: projectSchema,
+  message: z.string().trim().max(200).optional() // Describes the version this save creates
+})
+
+export type ProjectSave = z.infer<typeof projectSaveSchema>
+
+export interface ProjectVersionSummary {
+  version: number
+  message: string | null
+  restoredFrom: number | null // Set on versions created by restoring an older one
+  createdAt: string
+}
+
+export interface SceneDiff {
+  id: string
+  name: string
+  changed: string[] // Scene fields, e.g. 'duration' or 'transitions'
+  layersAdded: string[] // Layer names
+  layersRemoved: string[]
+  layersModified: string[]
+}
+
+export interface ProjectDiff {
+  changed: string[] // Project fields, e.g. 'name' or 'settings'
+  duration: { from: number, to: number }
+  scenesAdded: { id: string, name: string }[]
+  scenesRemoved: { id: string, name: string }[]
+  scenesModified: SceneDiff[]
+  scenesReordered: boolean
+  summary: string
+}
+
+const PROJECT_FIELDS = ['name', 'width', 'height', 'frameRate', 'settings'] as const
+const SCENE_FIELDS = ['name', 'duration', 'transitions'] as const
+
+/**
+ * Deep equality that ignores key order, which stored JSON doesn't keep
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const aRecord = a as Record<string, unknown>
+  const bRecord = b as Record<string, unknown>
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)])
+  return Array.from(keys).every(key => isEqual(aRecord[key], bRecord[key]))
+}
+
+function diffScene(before: Scene, after: Scene): SceneDiff | null {
+  const beforeLayers = new Map(before.layers.map(layer => [layer.id, layer]))
+  const afterIds = new Set(after.layers.map(layer => layer.id))
+
+  const diff: SceneDiff = {
+    id: after.id,
+    name: after.name,
+    changed: SCENE_FIELDS.filter(field => !isEqual(before[field], after[field])),
+    layersAdded: after.layers.filter(layer => !beforeLayers.has(layer.id)).map(layer => layer.name),
+    layersRemoved: before.layers.filter(layer => !afterIds.has(layer.id)).map(layer => layer.name),
+    layersModified: after.layers
+      .filter(layer => beforeLayers.has(layer.id) && !isEqual(beforeLayers.get(layer.id), layer))
+      .map((layer: Layer) => layer.name)
+  }
+
+  // Layer order is stacking order
+  const keptBefore = before.layers.filter(layer => afterIds.has(layer.id)).map(layer => layer.id)
+  const keptAfter = after.layers.filter(layer => beforeLayers.has(layer.id)).map(layer => layer.id)
+  if (!isEqual(keptBefore, keptAfter)) {
+    diff.changed.push('layer order')
+  }
+
+  const unchanged = !diff.changed.length && !diff.layersAdded.length && !diff.layersRemoved.length && !diff.layersModified.length
+  return unchanged ? null : diff
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+function summarize(diff: Omit<ProjectDiff, 'summary'>): string {
+  const layerChanges = diff.scenesModified.reduce(
+    (total, scene) => total + scene.layersAdded.length + scene.layersRemoved.length + scene.layersModified.length,
+    0
+  )
+
+  const parts = [
+    diff.changed.length ? `${diff.changed.join(', ')} changed` : '',
+    diff.scenesAdded.length ? `${plural(diff.scenesAdded.length, 'scene')} added` : '',
+    diff.scenesRemoved.length ? `${plural(diff.scenesRemoved.length, 'scene')} removed` : '',
+    diff.scenesModified.length ? `${plural(diff.scenesModified.length, 'scene')} edited` : '',
+    layerChanges ? `${plural(layerChanges, 'layer')} changed` : '',
+    diff.scenesReordered ? 'scenes reordered' : ''
+  ].filter(Boolean)
+
+  return parts.length ? parts.join('; ') : 'No changes'
+}
+
+/**
+ * What changed between two versions of a project, by scene and layer
+ */
+export function diffProjects(before: Project, after: Project): ProjectDiff {
+  const beforeScenes = new Map(before.scenes.map(scene => [scene.id, scene]))
+  const afterIds = new Set(after.scenes.map(scene => scene.id))
+
+  const keptBefore = before.scenes.filter(scene => afterIds.has(scene.id)).map(scene => scene.id)
+  const keptAfter = after.scenes.filter(scene => beforeScenes.has(scene.id)).map(scene => scene.id)
+
+  const diff = {
+    changed: PROJECT_FIELDS.filter(field => !isEqual(before[field], after[field])),
+    duration: { from: before.duration, to: after.duration },
+    scenesAdded: after.scenes
+      .filter(scene => !beforeScenes.has(scene.id))
+      .map(scene => ({ id: scene.id, name: scene.name })),
+    scenesRemoved: before.scenes
+      .filter(scene => !afterIds.has(scene.id))
+      .map(scene => ({ id: scene.id, name: scene.name })),
+    scenesModified: after.scenes
+      .filter(scene => beforeScenes.has(scene.id))
+      .map(scene => diffScene(beforeScenes.get(scene.id)!, scene))
+      .filter((scene): scene is SceneDiff => scene !== null),
+    scenesReordered: !isEqual(keptBefore, keptAfter)
+  }
+
+  return { ...diff, summary: summarize(diff) }
+}
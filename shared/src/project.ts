@@ -0,0 +1,134 @@
+import { z } from 'zod'
+
+/**
+ * Version of the saved project document. Bump it whenever the shape below changes
+ * and add a matching step to `migrations.ts` so older projects keep loading.
+ */
+export const PROJECT_SCHEMA_VERSION = 2
+
+export const DEFAULT_TRANSITION_DURATION = 0.5
+
+// Animation
+
+export const visualPropertySchema = z.enum(['x', 'y', 'width', 'height', 'rotation', 'opacity'])
+
+export const animatablePropertySchema = z.enum([...visualPropertySchema.options, 'volume'])
+
+export const easingPresetSchema = z.enum(['linear', 'ease-in', 'ease-out', 'ease-in-out'])
+
+// x1, y1, x2, y2 with x values kept in [0, 1] like CSS cubic-bezier()
+export const bezierPointsSchema = z.tuple([
+  z.number().min(0).max(1),
+  z.number(),
+  z.number().min(0).max(1),
+  z.number()
+])
+
+export const easingSchema = z.union([
+  easingPresetSchema,
+  z.object({ cubicBezier: bezierPointsSchema })
+])
+
+export const keyframeSchema = z.object({
+  time: z.number().min(0), // Seconds from the layer's start time
+  value: z.number(),
+  easing: easingSchema.default('linear') // Curve used towards the next keyframe
+})
+
+const keyframeTrackSchema = z.array(keyframeSchema).optional()
+
+export const layerKeyframesSchema = z.object({
+  x: keyframeTrackSchema,
+  y: keyframeTrackSchema,
+  width: keyframeTrackSchema,
+  height: keyframeTrackSchema,
+  rotation: keyframeTrackSchema,
+  opacity: keyframeTrackSchema,
+  volume: keyframeTrackSchema
+})
+
+// Audio and transitions
+
+export const audioRoleSchema = z.enum(['voiceover', 'music', 'effect'])
+
+export const transitionTypeSchema = z.enum(['fade', 'cut', 'slide', 'zoom', 'wipe'])
+
+export const sceneTransitionSchema = z.object({
+  type: transitionTypeSchema,
+  duration: z.number().min(0) // Seconds of overlap with the neighbouring scene
+})
+
+// Project document
+
+export const layerTypeSchema = z.enum(['video', 'image', 'text', 'audio', 'shape', 'caption'])
+
+export const layerSchema = z.object({
+  id: z.string().min(1),
+  type: layerTypeSchema,
+  name: z.string(),
+  startTime: z.number().min(0),
+  duration: z.number().positive(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().min(0),
+  height: z.number().min(0),
+  rotation: z.number().default(0),
+  opacity: z.number().min(0).max(1).default(1),
+  visible: z.boolean().default(true),
+  locked: z.boolean().default(false),
+  muted: z.boolean().optional(), // For audio/video layers
+  volume: z.number().min(0).max(2).optional(), // Gain for audio/video layers, 1 = unchanged
+  fadeIn: z.number().min(0).optional(), // Seconds
+  fadeOut: z.number().min(0).optional(), // Seconds
+  audioRole: audioRoleSchema.optional(), // Music is ducked under voice-over on export
+  keyframes: layerKeyframesSchema.optional(),
+  data: z.record(z.any()).default({}) // Layer-specific data
+})
+
+export const sceneSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  duration: z.number().positive(),
+  layers: z.array(layerSchema),
+  transitions: z.object({
+    in: sceneTransitionSchema.optional(),
+    out: sceneTransitionSchema.optional()
+  }).default({})
+})
+
+export const projectSettingsSchema = z.object({
+  quality: z.string(),
+  format: z.string(),
+  backgroundMusic: z.string().optional()
+})
+
+export const projectSchema = z.object({
+  schemaVersion: z.literal(PROJECT_SCHEMA_VERSION),
+  id: z.string().nullable(),
+  name: z.string(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  frameRate: z.number().positive(),
+  duration: z.number().min(0),
+  scenes: z.array(sceneSchema),
+  settings: projectSettingsSchema,
+  // Dates arrive as ISO strings once a project has been through JSON
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date()
+})
+
+export type VisualProperty = z.infer<typeof visualPropertySchema>
+export type AnimatableProperty = z.infer<typeof animatablePropertySchema>
+export type EasingPreset = z.infer<typeof easingPresetSchema>
+export type BezierPoints = z.infer<typeof bezierPointsSchema>
+export type Easing = z.infer<typeof easingSchema>
+export type Keyframe = z.infer<typeof keyframeSchema>
+export type LayerKeyframes = z.infer<typeof layerKeyframesSchema>
+export type AudioRole = z.infer<typeof audioRoleSchema>
+export type TransitionType = z.infer<typeof transitionTypeSchema>
+export type SceneTransition = z.infer<typeof sceneTransitionSchema>
+export type LayerType = z.infer<typeof layerTypeSchema>
+export type Layer = z.infer<typeof layerSchema>
+export type Scene = z.infer<typeof sceneSchema>
+export type ProjectSettings = z.infer<typeof projectSettingsSchema>
+export type Project = z.infer<typeof projectSchema>
@@ -0,0 +1,84 @@
+import { z } from 'zod'
+import { audioRoleSchema, layerKeyframesSchema, transitionTypeSchema } from './project'
+import { captionWordSchema } from './captions'
+
+export const renderQualitySchema = z.enum(['draft', 'standard', 'high', 'ultra'])
+
+export const outputFormatSchema = z.enum(['mp4', 'mov', 'avi', 'webm'])
+
+export const renderTransitionSchema = z.object({
+  type: transitionTypeSchema,
+  duration: z.number().positive(),
+  // Which edge of the scene the transition belongs to. The editor stores
+  // transitions as `in`/`out` on each scene; `out` is assumed when omitted.
+  position: z.enum(['in', 'out']).default('out')
+})
+
+// Hex (#rgb to #rrggbbaa) or a named color. Fills are passed to FFmpeg as
+// filter arguments, so nothing else may get through.
+export const renderColorSchema = z.string().regex(/^(#[0-9a-fA-F]{3,8}|[a-zA-Z]+)$/, 'Invalid color')
+
+export const renderLayerStyleSchema = z.object({
+  fill: renderColorSchema.optional()
+}).catchall(z.any())
+
+export const renderLayerSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['video', 'image', 'text', 'audio', 'shape', 'caption']),
+  startTime: z.number().min(0),
+  duration: z.number().positive(),
+  x: z.number().default(0),
+  y: z.number().default(0),
+  // Audio layers have no size in the editor
+  width: z.number().min(0),
+  height: z.number().min(0),
+  rotation: z.number().default(0),
+  opacity: z.number().min(0).max(1).default(1),
+  keyframes: layerKeyframesSchema.optional(),
+  muted: z.boolean().default(false),
+  volume: z.number().min(0).max(2).default(1),
+  fadeIn: z.number().min(0).default(0),
+  fadeOut: z.number().min(0).default(0),
+  audioRole: audioRoleSchema.optional(),
+  content: z.string().optional(),
+  words: z.array(captionWordSchema).optional(), // Timed words of caption layers
+  source: z.string().optional(),
+  style: renderLayerStyleSchema.optional(),
+  effects: z.array(z.any()).optional()
+})
+
+export const renderSceneSchema = z.object({
+  id: z.string().min(1),
+  duration: z.number().positive(),
+  layers: z.array(renderLayerSchema),
+  transitions: z.array(renderTransitionSchema).optional()
+})
+
+export const renderSettingsSchema = z.object({
+  width: z.number().positive().default(1920),
+  height: z.number().positive().default(1080),
+  frameRate: z.number().positive().default(30),
+  bitrate: z.string().optional(),
+  audioSampleRate: z.number().positive().default(44100),
+  backgroundMusic: z.string().url().optional(),
+  backgroundMusicVolume: z.number().min(0).max(2).default(0.3),
+  quality: renderQualitySchema.default('standard')
+})
+
+/**
+ * Body accepted by `POST /api/render/queue`
+ */
+export const renderJobRequestSchema = z.object({
+  projectId: z.string().min(1),
+  scenes: z.array(renderSceneSchema).min(1),
+  settings: renderSettingsSchema,
+  outputFormat: outputFormatSchema.default('mp4')
+})
+
+export type RenderQuality = z.infer<typeof renderQualitySchema>
+export type OutputFormat = z.infer<typeof outputFormatSchema>
+export type RenderTransition = z.infer<typeof renderTransitionSchema>
+export type RenderLayer = z.infer<typeof renderLayerSchema>
+export type RenderScene = z.infer<typeof renderSceneSchema>
+export type RenderSettings = z.infer<typeof renderSettingsSchema>
+export type RenderJobRequest = z.infer<typeof renderJobRequestSchema>
@@ -0,0 +1,28 @@
+export type RenderStage =
+  | 'queued'
+  | 'processing' // Picked up by a worker, preparing inputs
+  | 'rendering' // Rendering individual scenes
+  | 'encoding' // Joining scenes and mixing the final audio
+  | 'uploading'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+
+/**
+ * Progress snapshot reported by the render worker and streamed from
+ * `GET /api/render/events/:jobId`
+ */
+export interface RenderProgress {
+  jobId: string
+  stage: RenderStage
+  percent: number // 0-100 across the whole job
+  scene?: {
+    index: number // 0-based
+    total: number
+  }
+  etaSeconds?: number // Estimated time remaining, once the worker has a rate to go on
+  outputUrl?: string // Set when the stage is `completed`
+  error?: string // Set when the stage is `failed`
+}
+
+export const FINAL_RENDER_STAGES: RenderStage[] = ['completed', 'failed', 'cancelled']
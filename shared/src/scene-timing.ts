@@ -0,0 +1,97 @@
+import { Scene, TransitionType } from './project'
+import { toRenderTransitions } from './compile-render-job'
+
+/**
+ * Where scenes sit on the final timeline. Transitions overlap neighbouring
+ * scenes, so a scene starts before the previous one has finished. The renderer
+ * places scenes with these, and the editor previews with them so both agree.
+ */
+
+export interface Transition {
+  type: TransitionType
+  duration: number
+  // Which edge of the scene the transition belongs to. The editor stores
+  // transitions as `in`/`out` on each scene; `out` is assumed when omitted.
+  position?: 'in' | 'out'
+}
+
+export interface SceneTiming {
+  duration: number
+  transitions?: Transition[]
+}
+
+export interface BoundaryTransition {
+  type: TransitionType
+  duration: number
+}
+
+// Never let a transition eat more than this share of the shorter adjacent scene
+const MAX_TRANSITION_RATIO = 0.5
+
+/**
+ * Resolve the transition between every pair of adjacent scenes.
+ * The outgoing scene's `out` transition wins over the incoming scene's `in`.
+ * Durations are clamped so a transition never swallows a whole scene.
+ */
+export function resolveBoundaryTransitions(scenes: SceneTiming[]): BoundaryTransition[] {
+  const boundaries: BoundaryTransition[] = []
+
+  for (let i = 0; i < scenes.length - 1; i++) {
+    const current = scenes[i]
+    const next = scenes[i + 1]
+
+    const outgoing = current.transitions?.find(t => (t.position || 'out') === 'out')
+    const incoming = next.transitions?.find(t => t.position === 'in')
+    const transition = outgoing || incoming
+
+    if (!transition || transition.type === 'cut' || transition.duration <= 0) {
+      boundaries.push({ type: 'cut', duration: 0 })
+      continue
+    }
+
+    const maxDuration = Math.min(current.duration, next.duration) * MAX_TRANSITION_RATIO
+    boundaries.push({
+      type: transition.type,
+      duration: Math.min(transition.duration, maxDuration)
+    })
+  }
+
+  return boundaries
+}
+
+/**
+ * Total output length once overlapping transitions are taken into account
+ */
+export function getTotalDuration(scenes: SceneTiming[]): number {
+  const sceneTotal = scenes.reduce((total, scene) => total + scene.duration, 0)
+  const overlap = resolveBoundaryTransitions(scenes).reduce((total, t) => total + t.duration, 0)
+  return sceneTotal - overlap
+}
+
+/**
+ * Where each scene starts on the final timeline once transitions overlap them
+ */
+export function getSceneOffsets(scenes: SceneTiming[]): number[] {
+  const boundaries = resolveBoundaryTransitions(scenes)
+  const offsets: number[] = []
+  let elapsed = 0
+
+  scenes.forEach((scene, index) => {
+    offsets.push(elapsed)
+    elapsed += scene.duration - (boundaries[index]?.duration || 0)
+  })
+
+  return offsets
+}
+
+/**
+ * Where a project's scene starts on the final timeline; 0 for a scene it doesn't have.
+ * Layer times and keyframes are relative to this.
+ */
+export function getSceneStartTime(scenes: Scene[], sceneId: string): number {
+  const index = scenes.findIndex(scene => scene.id === sceneId)
+  if (index < 0) return 0
+
+  const timings = scenes.map(scene => ({ duration: scene.duration, transitions: toRenderTransitions(scene) }))
+  return getSceneOffsets(timings)[index]
+}
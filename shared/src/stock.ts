@@ -0,0 +1,62 @@
+import { z } from 'zod'
+
+export const stockProviderSchema = z.enum(['pixabay', 'pexels'])
+
+// Stock libraries offer photos and footage; music comes from elsewhere
+export const stockMediaTypeSchema = z.enum(['image', 'video'])
+
+/**
+ * Query accepted by `GET /api/stock/search`. Values arrive as query-string
+ * strings, so numbers are coerced and `providers` is comma-separated.
+ */
+export const stockSearchSchema = z.object({
+  query: z.string().trim().max(100).default(''), // Empty for each provider's popular picks
+  type: stockMediaTypeSchema.default('image'),
+  page: z.coerce.number().int().min(1).max(50).default(1),
+  perPage: z.coerce.number().int().min(6).max(80).default(20),
+  providers: z.string()
+    .transform(value => value.split(',').map(provider => provider.trim()).filter(Boolean))
+    .pipe(z.array(stockProviderSchema).min(1))
+    .optional() // Every configured provider when left out
+})
+
+export type StockProvider = z.infer<typeof stockProviderSchema>
+export type StockMediaType = z.infer<typeof stockMediaTypeSchema>
+export type StockSearch = z.infer<typeof stockSearchSchema>
+
+/**
+ * A stock photo or video, normalized from whichever provider found it
+ */
+export interface StockAsset {
+  id: string // `${provider}-${provider's id}`
+  provider: StockProvider
+  type: StockMediaType
+  title: string
+  url: string // Rendition to use in a project
+  thumbnail: string
+  previewUrl?: string // Small video rendition for hover previews
+  width: number
+  height: number
+  duration?: number // Seconds, for video
+  author: string
+  authorUrl?: string
+  sourceUrl: string // The asset's page on the provider's site
+  tags: string[]
+  license: { name: string, url: string }
+  attribution: string // Credit line, e.g. 'Photo by Jane Doe on Pexels'
+}
+
+export interface StockProviderResult {
+  provider: StockProvider
+  total: number
+  error?: string // Set when this provider failed; the others' results are still returned
+}
+
+export interface StockSearchResult {
+  results: StockAsset[]
+  page: number
+  perPage: number
+  total: number
+  hasMore: boolean
+  providers: StockProviderResult[]
+}
@@ -0,0 +1,220 @@
+import { z } from 'zod'
+import {
+  DEFAULT_TRANSITION_DURATION,
+  Layer,
+  Scene,
+  SceneTransition,
+  TransitionType,
+  transitionTypeSchema
+} from './project'
+import { CaptionWord } from './captions'
+
+/**
+ * One scene of a storyboard as `POST /api/ai/storyboard` returns it. Written by
+ * a language model, so every field falls back rather than failing.
+ */
+export const storyboardSceneSchema = z.object({
+  title: z.string().catch(''),
+  duration: z.coerce.number().positive().catch(5), // Suggested seconds
+  visualDescription: z.string().catch(''),
+  cameraAngle: z.string().optional().catch(undefined),
+  dialogue: z.string().catch(''), // Narration spoken over the scene
+  background: z.string().optional().catch(undefined),
+  props: z.array(z.string()).optional().catch(undefined),
+  transition: z.string().optional().catch(undefined) // Prose, e.g. "slow fade to black"
+})
+
+/**
+ * Body accepted by `POST /api/ai/storyboard/import`
+ */
+export const storyboardImportSchema = z.object({
+  storyboard: z.array(storyboardSceneSchema).min(1).max(50),
+  width: z.number().int().positive().default(1920),
+  height: z.number().int().positive().default(1080)
+})
+
+export type StoryboardScene = z.infer<typeof storyboardSceneSchema>
+export type StoryboardImport = z.infer<typeof storyboardImportSchema>
+
+/**
+ * Media already produced for a storyboard scene. Scenes without it get empty
+ * slots to fill in the editor.
+ */
+export interface StoryboardSceneMedia {
+  voiceover?: { source: string, duration: number } | null
+  words?: CaptionWord[] | null // Timed narration, shown as captions
+  visual?: StoryboardVisual | null
+}
+
+export interface StoryboardVisual {
+  description: string
+  searchTerms: string[]
+  // Image found for the scene, e.g. from a stock search; a placeholder is left without one
+  source?: string
+  attribution?: string
+}
+
+// Silence left after the narration before the next scene starts
+const SCENE_TAIL = 0.5
+const MIN_SCENE_DURATION = 2
+
+const PLACEHOLDER_BACKGROUND = '#111827'
+
+function createId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+/**
+ * Closest transition type to a storyboard's description of one; fades when nothing matches
+ */
+export function getStoryboardTransition(description?: string): SceneTransition {
+  const text = description?.toLowerCase() || ''
+  const type: TransitionType = transitionTypeSchema.options.find(option => text.includes(option)) || 'fade'
+  return { type, duration: type === 'cut' ? 0 : DEFAULT_TRANSITION_DURATION }
+}
+
+/**
+ * Scene length: the narration as transcribed or voiced when there is any, else
+ * what the storyboard suggested
+ */
+function getSceneDuration(scene: StoryboardScene, media: StoryboardSceneMedia): number {
+  const spoken = media.words?.length
+    ? Math.max(...media.words.map(word => word.end))
+    : media.voiceover?.duration
+
+  return Math.max(MIN_SCENE_DURATION, spoken ? spoken + SCENE_TAIL : scene.duration)
+}
+
+function createLayer(layer: Omit<Layer, 'id' | 'rotation' | 'opacity' | 'visible' | 'locked'>): Layer {
+  return { id: createId('layer'), rotation: 0, opacity: 1, visible: true, locked: false, ...layer }
+}
+
+/**
+ * Full-frame layer showing the scene's visual, or a placeholder standing in
+ * for it until an asset replaces it
+ */
+function createVisualLayer(
+  visual: StoryboardVisual | null | undefined,
+  description: string,
+  duration: number,
+  frame: { width: number, height: number }
+): Layer {
+  const base = {
+    name: description ? `Visual: ${description}` : 'Visual',
+    startTime: 0,
+    duration,
+    x: 0,
+    y: 0,
+    width: frame.width,
+    height: frame.height
+  }
+  const searchTerms = visual?.searchTerms ?? []
+
+  if (visual?.source) {
+    return createLayer({
+      ...base,
+      type: 'image',
+      data: { source: visual.source, attribution: visual.attribution, visualDescription: description, searchTerms }
+    })
+  }
+
+  return createLayer({
+    ...base,
+    type: 'shape',
+    data: { placeholder: true, backgroundColor: PLACEHOLDER_BACKGROUND, visualDescription: description, searchTerms }
+  })
+}
+
+function toScene(
+  scene: StoryboardScene,
+  index: number,
+  media: StoryboardSceneMedia,
+  frame: { width: number, height: number }
+): Omit<Scene, 'transitions'> {
+  const duration = getSceneDuration(scene, media)
+  const visualDescription = media.visual?.description || scene.visualDescription || scene.background || ''
+
+  const layers: Layer[] = [createVisualLayer(media.visual, visualDescription, duration, frame)]
+
+  // Lower third, where short-form captions usually sit
+  const textBox = {
+    x: Math.round(frame.width * 0.1),
+    y: Math.round(frame.height * 0.65),
+    width: Math.round(frame.width * 0.8),
+    height: Math.round(frame.height * 0.2)
+  }
+
+  if (media.words?.length) {
+    layers.push(createLayer({
+      type: 'caption',
+      name: 'Captions',
+      startTime: 0,
+      duration,
+      ...textBox,
+      data: { words: media.words }
+    }))
+  } else if (scene.dialogue) {
+    layers.push(createLayer({
+      type: 'text',
+      name: 'Narration',
+      startTime: 0,
+      duration,
+      ...textBox,
+      data: {
+        content: scene.dialogue,
+        fontSize: 48,
+        fontWeight: 'bold',
+        color: '#ffffff',
+        strokeWidth: 6,
+        textAlign: 'center',
+        verticalAlign: 'middle'
+      }
+    }))
+  }
+
+  // An empty slot holds the narration until a voice-over is generated for it
+  if (media.voiceover || scene.dialogue) {
+    layers.push(createLayer({
+      type: 'audio',
+      name: 'Voice-over',
+      startTime: 0,
+      duration: media.voiceover ? Math.min(media.voiceover.duration || duration, duration) : duration,
+      x: 0,
+      y: 0,
+      width: 0,
+      height: 0,
+      audioRole: 'voiceover',
+      data: media.voiceover
+        ? { source: media.voiceover.source }
+        : { placeholder: true, script: scene.dialogue }
+    }))
+  }
+
+  return {
+    id: createId('scene'),
+    name: scene.title || `Scene ${index + 1}`,
+    duration,
+    layers
+  }
+}
+
+/**
+ * Turn a storyboard into editor scenes: per entry its visual (or a placeholder), the
+ * narration as captions or text, a voice-over (or an empty slot for one) and
+ * the storyboard's transition into the next scene
+ */
+export function storyboardToScenes(
+  storyboard: StoryboardScene[],
+  frame: { width: number, height: number },
+  media: StoryboardSceneMedia[] = []
+): Scene[] {
+  return storyboard.map((entry, index) => {
+    const scene = toScene(entry, index, media[index] ?? {}, frame)
+    const isLast = index === storyboard.length - 1
+
+    return {
+      ...scene,
+      transitions: isLast ? {} : { out: getStoryboardTransition(entry.transition) }
+    }
+  })
+}
@@ -0,0 +1,209 @@
+import { z } from 'zod'
+import { Layer, Project, projectSchema } from './project'
+
+/**
+ * Templates are projects whose text, media and colours can be bound to named
+ * variables. Any string in a layer's `data` (and scene and layer names) may
+ * hold `{{variableName}}` placeholders, e.g. `content: 'Meet {{productName}}'`,
+ * `source: '{{logo}}'` or `color: '{{brandColor}}'`. Instantiating a template
+ * fills them in to make an ordinary project.
+ */
+
+export const TEMPLATE_CATEGORIES = ['social', 'marketing', 'product', 'education', 'events', 'business'] as const
+
+export const templateCategorySchema = z.enum(TEMPLATE_CATEGORIES)
+
+export const templateVariableTypeSchema = z.enum(['text', 'media', 'color'])
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+// Hex colours are understood by both the editor canvas and the renderer
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+
+const MEDIA_LAYER_TYPES: Layer['type'][] = ['image', 'video', 'audio']
+
+export const templateVariableSchema = z.object({
+  name: z.string().regex(VARIABLE_NAME, 'Variable names are letters, digits and underscores'),
+  type: templateVariableTypeSchema,
+  label: z.string().trim().min(1).max(100), // Shown on the form that fills the template in
+  description: z.string().max(300).optional(),
+  defaultValue: z.string().optional(),
+  required: z.boolean().default(false),
+  maxLength: z.number().int().positive().optional() // Text only
+})
+
+/**
+ * Body accepted by `POST /api/templates` and `PUT /api/templates/:id`
+ */
+export const templateInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(500).default(''),
+  category: templateCategorySchema,
+  tags: z.array(z.string().trim().min(1).max(30)).max(10).default([]),
+  previewUrl: z.string().url().optional(),
+  variables: z.array(templateVariableSchema).max(50),
+  project: projectSchema
+}).superRefine((template, context) => {
+  const declared = new Set<string>()
+  template.variables.forEach((variable, index) => {
+    if (declared.has(variable.name)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['variables', index, 'name'], message: `Variable "${variable.name}" is declared twice` })
+    }
+    declared.add(variable.name)
+  })
+
+  for (const name of findTemplateVariables(template.project)) {
+    if (!declared.has(name)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['variables'], message: `Placeholder {{${name}}} has no variable` })
+    }
+  }
+})
+
+/**
+ * Body accepted by `POST /api/templates/:id/instantiate`
+ */
+export const templateInstantiateSchema = z.object({
+  values: z.record(z.string()).default({}), // By variable name; defaults fill the rest
+  name: z.string().trim().min(1).max(200).optional() // The new project's name
+})
+
+export type TemplateCategory = z.infer<typeof templateCategorySchema>
+export type TemplateVariableType = z.infer<typeof templateVariableTypeSchema>
+export type TemplateVariable = z.infer<typeof templateVariableSchema>
+export type TemplateInput = z.infer<typeof templateInputSchema>
+export type TemplateInstantiate = z.infer<typeof templateInstantiateSchema>
+
+export interface TemplateSummary {
+  id: string
+  name: string
+  description: string
+  category: TemplateCategory
+  tags: string[]
+  previewUrl: string | null
+  variables: TemplateVariable[]
+  isPublic: boolean // Public templates are in everyone's gallery; others only in their owner's
+  owned: boolean // Whether the requesting user can edit it
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Template extends TemplateSummary {
+  project: Project
+}
+
+export interface TemplateValueIssue {
+  variable: string
+  message: string
+}
+
+function mapStrings(value: unknown, map: (text: string) => unknown): unknown {
+  if (typeof value === 'string') return map(value)
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]))
+  }
+  return value
+}
+
+function getTemplateStrings(project: Project): unknown[] {
+  return [project.name, ...project.scenes.flatMap(scene => [
+    scene.name,
+    ...scene.layers.flatMap(layer => [layer.name, layer.data])
+  ])]
+}
+
+/**
+ * Names of the variables a project's placeholders refer to
+ */
+export function findTemplateVariables(project: Project): string[] {
+  const names = new Set<string>()
+
+  mapStrings(getTemplateStrings(project), text => {
+    text.replace(PLACEHOLDER, (placeholder, name: string) => {
+      names.add(name)
+      return placeholder
+    })
+    return text
+  })
+
+  return Array.from(names)
+}
+
+/**
+ * What is wrong with the values given for a template's variables, if anything.
+ * Variables left out fall back to their defaults.
+ */
+export function validateTemplateValues(variables: TemplateVariable[], values: Record<string, string>): TemplateValueIssue[] {
+  const issues: TemplateValueIssue[] = []
+  const declared = new Set(variables.map(variable => variable.name))
+
+  for (const name of Object.keys(values)) {
+    if (!declared.has(name)) issues.push({ variable: name, message: 'Unknown variable' })
+  }
+
+  for (const variable of variables) {
+    const value = values[variable.name] ?? variable.defaultValue ?? ''
+
+    if (!value) {
+      if (variable.required) issues.push({ variable: variable.name, message: `${variable.label} is required` })
+      continue
+    }
+
+    if (variable.type === 'text' && variable.maxLength && value.length > variable.maxLength) {
+      issues.push({ variable: variable.name, message: `${variable.label} can be at most ${variable.maxLength} characters` })
+    }
+    if (variable.type === 'color' && !HEX_COLOR.test(value)) {
+      issues.push({ variable: variable.name, message: `${variable.label} must be a hex colour such as #1a73e8` })
+    }
+    if (variable.type === 'media' && !z.string().url().safeParse(value).success) {
+      issues.push({ variable: variable.name, message: `${variable.label} must be a media URL` })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Fill a template's placeholders in to make a new, unsaved project. Values
+ * should have passed `validateTemplateValues`. Media layers whose source is
+ * left empty become placeholder slots, which export as nothing until filled.
+ */
+export function instantiateTemplate(
+  template: Pick<Template, 'project' | 'variables'>,
+  values: Record<string, string>,
+  name?: string
+): Project {
+  const resolved = new Map(template.variables.map(variable => [
+    variable.name,
+    values[variable.name] ?? variable.defaultValue ?? ''
+  ]))
+
+  const fill = (text: string) => text.replace(PLACEHOLDER, (placeholder, variable: string) =>
+    resolved.has(variable) ? resolved.get(variable)! : placeholder
+  )
+
+  const now = new Date()
+  const project = template.project
+
+  return {
+    ...project,
+    id: null,
+    name: name || fill(project.name),
+    createdAt: now,
+    updatedAt: now,
+    scenes: project.scenes.map(scene => ({
+      ...scene,
+      name: fill(scene.name),
+      layers: scene.layers.map(layer => {
+        const data = mapStrings(layer.data, fill) as Layer['data']
+        if (MEDIA_LAYER_TYPES.includes(layer.type) && !data.source) {
+          data.placeholder = true
+        }
+
+        return { ...layer, name: fill(layer.name), data }
+      })
+    }))
+  }
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod'
+
+// Fonts the renderer ships with, so the editor only offers what exports the same.
+// Each maps to a metric-compatible font on the render workers.
+export const FONT_FAMILIES = ['Arial', 'Helvetica', 'Times New Roman', 'Courier New'] as const
+
+export const fontFamilySchema = z.enum(FONT_FAMILIES)
+
+/**
+ * Styling of a text layer, read from the layer's `data` in the editor and its
+ * `style` in render jobs. Every field falls back to its default rather than
+ * failing, since older projects store only a few of them.
+ */
+export const textStyleSchema = z.object({
+  fontFamily: fontFamilySchema.catch('Arial'),
+  fontSize: z.number().positive().catch(24),
+  fontWeight: z.enum(['normal', 'bold']).catch('normal'),
+  fontStyle: z.enum(['normal', 'italic']).catch('normal'),
+  color: z.string().min(1).catch('#000000'),
+  textAlign: z.enum(['left', 'center', 'right']).catch('left'),
+  verticalAlign: z.enum(['top', 'middle', 'bottom']).catch('top'),
+  lineHeight: z.number().positive().catch(1), // Multiple of the font size
+  // Outline drawn behind the fill
+  strokeColor: z.string().min(1).catch('#000000'),
+  strokeWidth: z.number().min(0).catch(0),
+  // Drop shadow; none while the opacity is 0
+  shadowColor: z.string().min(1).catch('#000000'),
+  shadowBlur: z.number().min(0).catch(0),
+  shadowOffsetX: z.number().catch(0),
+  shadowOffsetY: z.number().catch(0),
+  shadowOpacity: z.number().min(0).max(1).catch(0),
+  // Box filling the layer behind the text; none without a colour
+  backgroundColor: z.string().min(1).optional().catch(undefined),
+  padding: z.number().min(0).catch(0),
+  cornerRadius: z.number().min(0).catch(0)
+})
+
+export type FontFamily = z.infer<typeof fontFamilySchema>
+export type TextStyle = z.infer<typeof textStyleSchema>
+
+export function resolveTextStyle(data: Record<string, unknown> | undefined): TextStyle {
+  return textStyleSchema.parse(data ?? {})
+}